@@ -0,0 +1,198 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import {
+  ADDRESS_TYPES,
+  ADDRESS_USES,
+  AddressFormValue,
+  COUNTRY_ADDRESS_FORMATS,
+  emptyAddressFormValue,
+  findCountryFormat,
+  formatAddressText,
+  formValueToAddress,
+  validatePostalCode,
+} from '@/lib/fhir/addresses';
+
+interface AddressEditorProps {
+  addresses: AddressFormValue[];
+  onChange: (addresses: AddressFormValue[]) => void;
+  /** Server-side error for the whole element, e.g. from an OperationOutcome. */
+  error?: string;
+  /** Hides "Add" once reached, for single-valued elements such as Patient.contact.address. */
+  maxItems?: number;
+}
+
+const inputClassName = 'mt-1 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+const errorInputClassName = 'mt-1 rounded-xl border-error bg-error/5 backdrop-blur-sm ring-1 ring-error/30 focus:border-error focus:ring-error/30';
+
+const AddressEditor = ({ addresses, onChange, error, maxItems }: AddressEditorProps) => {
+  const updateAddress = <K extends keyof AddressFormValue>(index: number, field: K, value: AddressFormValue[K]) => {
+    onChange(addresses.map((address, i) => (i === index ? { ...address, [field]: value } : address)));
+  };
+
+  // Switching to manual text starts from the generated line so it can be tweaked.
+  const toggleAutoText = (index: number, autoText: boolean) => {
+    onChange(addresses.map((address, i) => (
+      i === index
+        ? { ...address, autoText, text: autoText ? address.text : address.text || formatAddressText(formValueToAddress({ ...address, autoText: true })) }
+        : address
+    )));
+  };
+
+  return (
+    <div className="space-y-4">
+      <datalist id="address-countries">
+        {COUNTRY_ADDRESS_FORMATS.map(format => (
+          <option key={format.code} value={format.code}>{format.name}</option>
+        ))}
+      </datalist>
+
+      {addresses.map((address, index) => {
+        const countryFormat = findCountryFormat(address.country);
+        const postalCodeError = validatePostalCode(address.postalCode, address.country);
+        const generatedText = formatAddressText(formValueToAddress({ ...address, autoText: true }));
+
+        return (
+          <div key={index} className="rounded-2xl border border-muted/40 p-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+              <div className="md:col-span-3">
+                <Label className="text-xs">Use</Label>
+                <Select value={address.use || 'none'} onValueChange={value => updateAddress(index, 'use', value === 'none' ? '' : value)}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">—</SelectItem>
+                    {ADDRESS_USES.map(use => (
+                      <SelectItem key={use} value={use}>{use}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-3">
+                <Label className="text-xs">Type</Label>
+                <Select value={address.type || 'none'} onValueChange={value => updateAddress(index, 'type', value === 'none' ? '' : value)}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">—</SelectItem>
+                    {ADDRESS_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">Valid From</Label>
+                <Input type="date" value={address.periodStart} onChange={e => updateAddress(index, 'periodStart', e.target.value)} className={inputClassName} />
+              </div>
+              <div className="md:col-span-3">
+                <Label className="text-xs">Valid To</Label>
+                <Input type="date" value={address.periodEnd} onChange={e => updateAddress(index, 'periodEnd', e.target.value)} className={inputClassName} />
+              </div>
+              <div className="md:col-span-1 flex items-end justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onChange(addresses.filter((_, i) => i !== index))}
+                  className="rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+                  aria-label="Remove address"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-xs">Street Address (one line per row)</Label>
+              <Textarea
+                value={address.lines}
+                onChange={e => updateAddress(index, 'lines', e.target.value)}
+                placeholder={'123 Main Street\nApartment 4B'}
+                rows={2}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+              <div className="md:col-span-3">
+                <Label className="text-xs">City</Label>
+                <Input value={address.city} onChange={e => updateAddress(index, 'city', e.target.value)} className={inputClassName} />
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">District</Label>
+                <Input value={address.district} onChange={e => updateAddress(index, 'district', e.target.value)} className={inputClassName} />
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">{countryFormat?.stateLabel || 'State / Region'}</Label>
+                <Input value={address.state} onChange={e => updateAddress(index, 'state', e.target.value)} className={inputClassName} />
+              </div>
+              <div className="md:col-span-3">
+                <Label className="text-xs">{countryFormat?.postalCodeLabel || 'Postal Code'}</Label>
+                <Input
+                  value={address.postalCode}
+                  onChange={e => updateAddress(index, 'postalCode', e.target.value)}
+                  placeholder={countryFormat?.postalCodeExample}
+                  className={postalCodeError ? errorInputClassName : inputClassName}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">Country</Label>
+                <Input
+                  list="address-countries"
+                  value={address.country}
+                  onChange={e => updateAddress(index, 'country', e.target.value)}
+                  placeholder="US"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            {postalCodeError && <p className="text-xs text-error">{postalCodeError}</p>}
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <Switch checked={address.autoText} onCheckedChange={checked => toggleAutoText(index, checked)} aria-label="Generate text" />
+                <Label className="text-xs">Generate <span className="font-mono">text</span> from the fields above</Label>
+              </div>
+              {address.autoText ? (
+                <p className="rounded-xl bg-muted/30 border border-muted/50 px-3 py-2 text-sm text-muted-foreground">
+                  {generatedText || 'Fill in the address to generate its text.'}
+                </p>
+              ) : (
+                <Input
+                  value={address.text}
+                  onChange={e => updateAddress(index, 'text', e.target.value)}
+                  placeholder="Full address as it should be displayed"
+                  className={inputClassName}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      {(maxItems === undefined || addresses.length < maxItems) && (
+        <Button
+          type="button"
+          variant="outline"
+          className="rounded-xl"
+          onClick={() => onChange([...addresses, emptyAddressFormValue])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Address
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AddressEditor;
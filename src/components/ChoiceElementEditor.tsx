@@ -0,0 +1,100 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CHOICE_TYPE_LABELS,
+  ChoiceFormValue,
+  ChoiceType,
+  nowAsDateTime,
+  validateChoiceFormValue,
+} from '@/lib/fhir/choice-types';
+
+interface ChoiceElementEditorProps {
+  label: string;
+  /** Element name without the type suffix, e.g. `deceased`. */
+  base: string;
+  types: ChoiceType[];
+  value: ChoiceFormValue;
+  onChange: (value: ChoiceFormValue) => void;
+  /** Server-side error for the element, e.g. from an OperationOutcome. */
+  error?: string;
+}
+
+const inputClassName = 'mt-1 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+const errorInputClassName = 'mt-1 rounded-xl border-error bg-error/5 backdrop-blur-sm ring-1 ring-error/30 focus:border-error focus:ring-error/30';
+
+const ChoiceElementEditor = ({ label, base, types, value, onChange, error }: ChoiceElementEditorProps) => {
+  const validationError = value.value ? validateChoiceFormValue(value) : null;
+
+  // Switching variant starts from a sensible value instead of reinterpreting the old one.
+  const changeType = (type: string) => {
+    if (type === 'none') {
+      onChange({ type: '', value: '' });
+    } else {
+      onChange({ type: type as ChoiceType, value: type === 'boolean' ? 'true' : '' });
+    }
+  };
+
+  return (
+    <div>
+      <Label className="text-sm font-medium text-foreground">{label}</Label>
+      <div className="mt-1 grid grid-cols-1 md:grid-cols-12 gap-3">
+        <div className="md:col-span-4">
+          <Select value={value.type || 'none'} onValueChange={changeType}>
+            <SelectTrigger className={inputClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not set</SelectItem>
+              {types.map(type => (
+                <SelectItem key={type} value={type}>
+                  {CHOICE_TYPE_LABELS[type]} <span className="font-mono text-xs text-muted-foreground">{base}{type.charAt(0).toUpperCase() + type.slice(1)}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="md:col-span-8">
+          {value.type === 'boolean' && (
+            <Select value={value.value} onValueChange={boolean => onChange({ ...value, value: boolean })}>
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="true">true</SelectItem>
+                <SelectItem value="false">false</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {value.type === 'dateTime' && (
+            <div className="flex gap-2">
+              <Input
+                value={value.value}
+                onChange={e => onChange({ ...value, value: e.target.value })}
+                placeholder="2024-03-01 or 2024-03-01T14:30:00+01:00"
+                className={`${validationError || error ? errorInputClassName : inputClassName} font-mono`}
+              />
+              <Button type="button" variant="outline" className="mt-1 rounded-xl" onClick={() => onChange({ ...value, value: nowAsDateTime() })}>
+                Now
+              </Button>
+            </div>
+          )}
+          {value.type === 'integer' && (
+            <Input
+              type="number"
+              value={value.value}
+              onChange={e => onChange({ ...value, value: e.target.value })}
+              placeholder="Birth order, e.g. 2"
+              className={validationError || error ? errorInputClassName : inputClassName}
+            />
+          )}
+        </div>
+      </div>
+      {(validationError || error) && <p className="mt-1 text-xs text-error">{validationError || error}</p>}
+    </div>
+  );
+};
+
+export default ChoiceElementEditor;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import { cn } from '@/lib/utils';
+import {
+  codingFromValueSet,
+  expandLocalValueSet,
+  expandValueSet,
+  LocalValueSet,
+  lookupCode,
+} from '@/lib/fhir/terminology';
+import type { Coding } from '@/lib/fhir/types';
+
+interface CodingComboboxProps {
+  valueSet: LocalValueSet;
+  value: Coding | null;
+  onChange: (coding: Coding | null) => void;
+  placeholder?: string;
+  /** Expand the value set with ValueSet/$expand on the active server instead of the bundled copy. */
+  remote?: boolean;
+  /** Offer the typed text as a code of the value set's system, e.g. any BCP-47 language tag. */
+  allowCustom?: boolean;
+  invalid?: boolean;
+}
+
+const triggerClassName = 'mt-2 w-full justify-between rounded-xl border-muted bg-white/50 backdrop-blur-sm font-normal hover:bg-white/70';
+const errorTriggerClassName = 'mt-2 w-full justify-between rounded-xl border-error bg-error/5 backdrop-blur-sm ring-1 ring-error/30 font-normal';
+
+const codingKey = (coding: Coding) => `${coding.system}|${coding.code}`;
+
+const CodingCombobox = ({ valueSet, value, onChange, placeholder, remote = false, allowCustom = false, invalid = false }: CodingComboboxProps) => {
+  const { client } = useFHIREnvironment();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [remoteOptions, setRemoteOptions] = useState<Coding[] | null>(null);
+  const [remoteError, setRemoteError] = useState<string | null>(null);
+  const [isExpanding, setIsExpanding] = useState(false);
+
+  // Server expansions are debounced while typing; a failed $expand falls back to the bundled copy.
+  useEffect(() => {
+    if (!remote || !open) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsExpanding(true);
+      try {
+        const options = await expandValueSet(client, valueSet.url, query);
+        if (!cancelled) {
+          setRemoteOptions(options);
+          setRemoteError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setRemoteOptions(null);
+          setRemoteError(error instanceof Error ? error.message : 'ValueSet/$expand failed');
+        }
+      } finally {
+        if (!cancelled) setIsExpanding(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [client, open, query, remote, valueSet.url]);
+
+  const options: Coding[] = remote && remoteOptions ? remoteOptions : expandLocalValueSet(valueSet.url, query);
+  const custom = query.trim();
+  const offerCustom = allowCustom && custom && !options.some(option => option.code === custom);
+
+  const select = (coding: Coding | null) => {
+    onChange(coding);
+    setOpen(false);
+    setQuery('');
+  };
+
+  // A typed code gets its display from the bundled copy, or from CodeSystem/$lookup when expanding remotely.
+  const selectCustom = async (code: string) => {
+    const coding = codingFromValueSet(valueSet, { code });
+    if (!remote || coding.display) {
+      select(coding);
+      return;
+    }
+    select(await lookupCode(client, valueSet.system, code).catch(() => coding));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" role="combobox" aria-expanded={open} className={invalid ? errorTriggerClassName : triggerClassName}>
+          {value?.code ? (
+            <span className="truncate">
+              {value.display || value.code}
+              {value.display && <span className="ml-2 font-mono text-xs text-muted-foreground">{value.code}</span>}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">{placeholder || `Select from ${valueSet.title}`}</span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0 rounded-xl" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput value={query} onValueChange={setQuery} placeholder={`Search ${valueSet.title.toLowerCase()}...`} />
+          <CommandList>
+            <CommandEmpty>{isExpanding ? 'Expanding...' : 'No matching codes.'}</CommandEmpty>
+            {offerCustom && (
+              <CommandGroup heading="Use code">
+                <CommandItem value={`custom:${custom}`} onSelect={() => selectCustom(custom)}>
+                  <span className="font-mono">{custom}</span>
+                </CommandItem>
+              </CommandGroup>
+            )}
+            {options.length > 0 && (
+              <CommandGroup heading={remote && remoteOptions ? 'From server' : valueSet.title}>
+                {options.map(option => (
+                  <CommandItem key={codingKey(option)} value={codingKey(option)} onSelect={() => select(option)}>
+                    <Check className={cn('mr-2 h-4 w-4', value && codingKey(value) === codingKey(option) ? 'opacity-100' : 'opacity-0')} />
+                    <span className="flex-1">{option.display || option.code}</span>
+                    <span className="ml-2 font-mono text-xs text-muted-foreground">{option.code}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {value?.code && (
+              <CommandGroup>
+                <CommandItem value="clear" onSelect={() => select(null)} className="text-muted-foreground">
+                  Clear selection
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+        {remote && remoteError && (
+          <p className="border-t px-3 py-2 text-xs text-muted-foreground">Server expansion failed, showing bundled codes: {remoteError}</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CodingCombobox;
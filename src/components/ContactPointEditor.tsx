@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import {
+  CONTACT_POINT_SYSTEMS,
+  CONTACT_POINT_USES,
+  ContactPointFormValue,
+  COUNTRY_CALLING_CODES,
+  emptyContactPointFormValue,
+  formValueToContactPoint,
+  isPhoneSystem,
+  normalizeE164,
+  validateContactPoint,
+} from '@/lib/fhir/telecom';
+
+interface ContactPointEditorProps {
+  contactPoints: ContactPointFormValue[];
+  onChange: (contactPoints: ContactPointFormValue[]) => void;
+  /** Server-side error for the whole element, e.g. from an OperationOutcome. */
+  error?: string;
+}
+
+const placeholders: Record<string, string> = {
+  phone: '+1 415 555 0100',
+  fax: '+1 415 555 0199',
+  sms: '+1 415 555 0100',
+  pager: '+1 415 555 0100',
+  email: 'jane@example.org',
+  url: 'https://example.org',
+};
+
+const inputClassName = 'mt-1 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+const errorInputClassName = 'mt-1 rounded-xl border-error bg-error/5 backdrop-blur-sm ring-1 ring-error/30 focus:border-error focus:ring-error/30';
+
+const ContactPointEditor = ({ contactPoints, onChange, error }: ContactPointEditorProps) => {
+  // Calling code assumed for numbers typed without one; not part of the resource.
+  const [defaultCountryCode, setDefaultCountryCode] = useState('1');
+  // Normalisation errors from the last blur, keyed by row index.
+  const [phoneErrors, setPhoneErrors] = useState<Record<number, string>>({});
+
+  const updateContactPoint = (index: number, field: keyof ContactPointFormValue, value: string) => {
+    onChange(contactPoints.map((contactPoint, i) => (i === index ? { ...contactPoint, [field]: value } : contactPoint)));
+    if (field === 'value' || field === 'system') {
+      setPhoneErrors(prev => {
+        const next = { ...prev };
+        delete next[index];
+        return next;
+      });
+    }
+  };
+
+  const normalizePhone = (index: number) => {
+    const contactPoint = contactPoints[index];
+    if (!isPhoneSystem(contactPoint.system) || !contactPoint.value.trim()) return;
+    const result = normalizeE164(contactPoint.value, defaultCountryCode === 'none' ? undefined : defaultCountryCode);
+    if (result.error) {
+      setPhoneErrors(prev => ({ ...prev, [index]: result.error }));
+    } else if (result.value !== contactPoint.value) {
+      updateContactPoint(index, 'value', result.value);
+    }
+  };
+
+  const removeContactPoint = (index: number) => {
+    onChange(contactPoints.filter((_, i) => i !== index));
+    setPhoneErrors({});
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Label className="text-xs text-muted-foreground">Default country for phone numbers</Label>
+        <Select value={defaultCountryCode} onValueChange={setDefaultCountryCode}>
+          <SelectTrigger className="w-60 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None (require +country code)</SelectItem>
+            {COUNTRY_CALLING_CODES.map(country => (
+              <SelectItem key={country.code} value={country.code}>{country.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {contactPoints.map((contactPoint, index) => {
+        const validationError = contactPoint.value.trim()
+          ? phoneErrors[index] || validateContactPoint(formValueToContactPoint(contactPoint))
+          : null;
+
+        return (
+          <div key={index} className="rounded-2xl border border-muted/40 p-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+              <div className="md:col-span-2">
+                <Label className="text-xs">System</Label>
+                <Select value={contactPoint.system || 'phone'} onValueChange={value => updateContactPoint(index, 'system', value)}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONTACT_POINT_SYSTEMS.map(system => (
+                      <SelectItem key={system} value={system}>{system}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-5">
+                <Label className="text-xs">Value</Label>
+                <Input
+                  value={contactPoint.value}
+                  onChange={e => updateContactPoint(index, 'value', e.target.value)}
+                  onBlur={() => normalizePhone(index)}
+                  placeholder={placeholders[contactPoint.system]}
+                  className={`${validationError ? errorInputClassName : inputClassName} ${isPhoneSystem(contactPoint.system) ? 'font-mono' : ''}`}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">Use</Label>
+                <Select value={contactPoint.use || 'none'} onValueChange={value => updateContactPoint(index, 'use', value === 'none' ? '' : value)}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">—</SelectItem>
+                    {CONTACT_POINT_USES.map(use => (
+                      <SelectItem key={use} value={use}>{use}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">Rank</Label>
+                <Input type="number" min={1} value={contactPoint.rank} onChange={e => updateContactPoint(index, 'rank', e.target.value)} placeholder="1 = preferred" className={inputClassName} />
+              </div>
+              <div className="md:col-span-1 flex items-end justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => removeContactPoint(index)}
+                  className="rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+                  aria-label="Remove contact point"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+              <div className="md:col-span-3">
+                <Label className="text-xs">Valid From</Label>
+                <Input type="date" value={contactPoint.periodStart} onChange={e => updateContactPoint(index, 'periodStart', e.target.value)} className={inputClassName} />
+              </div>
+              <div className="md:col-span-3">
+                <Label className="text-xs">Valid To</Label>
+                <Input type="date" value={contactPoint.periodEnd} onChange={e => updateContactPoint(index, 'periodEnd', e.target.value)} className={inputClassName} />
+              </div>
+            </div>
+            {validationError && <p className="text-xs text-error">{validationError}</p>}
+          </div>
+        );
+      })}
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="rounded-xl"
+        onClick={() => onChange([...contactPoints, emptyContactPointFormValue])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Contact Point
+      </Button>
+    </div>
+  );
+};
+
+export default ContactPointEditor;
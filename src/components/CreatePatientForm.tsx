@@ -1,422 +1,1316 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { FieldErrors, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Send, X } from 'lucide-react';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { CheckCircle2, Copy, Pencil, Plus, Send, ShieldCheck, X, XCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import { FHIRResponse, FHIRResponseError, parseETagVersion, parseLocationId, weakETag } from '@/lib/fhir/client';
+import { isDeepEqual, keepUnrepresented, mergeResourceVersions } from '@/lib/fhir/merge';
+import { isOperationOutcome, mapIssuesToFields, summarizeOutcome } from '@/lib/fhir/operation-outcome';
+import { getDisplayName } from '@/lib/fhir/patient';
+import {
+  applyPatientProfile,
+  buildProfileExtension,
+  detectPatientProfile,
+  findPatientProfile,
+  PATIENT_PROFILES,
+  profileExtensionExpression,
+  readProfileExtension,
+  validatePatientProfile,
+} from '@/lib/fhir/profiles';
+import {
+  addressToFormValue,
+  AddressFormValue,
+  emptyAddressFormValue,
+  formValueToAddress,
+  isAddressEmpty,
+  validatePostalCode,
+} from '@/lib/fhir/addresses';
+import {
+  applyChoiceFormValue,
+  ChoiceFormValue,
+  choiceToFormValue,
+  emptyChoiceFormValue,
+} from '@/lib/fhir/choice-types';
+import {
+  CONTACT_RELATIONSHIP_SYSTEM,
+  contactToFormValue,
+  emptyPatientContactFormValue,
+  formValueToContact,
+  PatientContactFormValue,
+} from '@/lib/fhir/contacts';
+import {
+  BIRTH_PLACE_EXTENSION_URL,
+  emptyExtensionFormValue,
+  extensionToFormValue,
+  ExtensionFormValue,
+  formValueToExtension,
+  isEditableExtension,
+  upsertExtension,
+  validateExtensionFormValue,
+} from '@/lib/fhir/extensions';
+import { emptyNameFormValue, formValueToName, isNameEmpty, nameToFormValue, NameFormValue } from '@/lib/fhir/names';
+import {
+  formValueToIdentifier,
+  identifierToFormValue,
+  IdentifierFormValue,
+  validateIdentifier,
+} from '@/lib/fhir/identifiers';
+import {
+  buildConditionalCreateQuery,
+  CONDITIONAL_MATCH_CRITERIA,
+  ConditionalMatchCriterion,
+} from '@/lib/fhir/search';
+import {
+  contactPointToFormValue,
+  ContactPointFormValue,
+  emptyContactPointFormValue,
+  formValueToContactPoint,
+  validateContactPoint,
+} from '@/lib/fhir/telecom';
+import {
+  ADMINISTRATIVE_GENDER_VALUE_SET,
+  CODED_PATIENT_FIELDS,
+  codingFromValueSet,
+  CodingInsertion,
+  LANGUAGES_VALUE_SET,
+  LocalValueSet,
+  MARITAL_STATUS_VALUE_SET,
+  toCodeableConcept,
+  validateLanguageTag,
+} from '@/lib/fhir/terminology';
+import type { Coding, Extension, Patient } from '@/lib/fhir/types';
+import AddressEditor from './AddressEditor';
+import ChoiceElementEditor from './ChoiceElementEditor';
+import CodingCombobox from './CodingCombobox';
+import ContactPointEditor from './ContactPointEditor';
+import ExtensionEditor from './ExtensionEditor';
+import FHIRResponseCard from './FHIRResponseCard';
+import IdentifierEditor from './IdentifierEditor';
+import NameEditor from './NameEditor';
+import OperationOutcomeIssues from './OperationOutcomeIssues';
+import PatientContactEditor from './PatientContactEditor';
+import ServerValidationReport, { ServerValidation } from './ServerValidationReport';
+import VersionConflictDialog from './VersionConflictDialog';
 
 interface OptionalField {
   key: string;
   label: string;
+  /** The code of a coded field, free text otherwise. */
   value: string;
+  /** System and display of the chosen code; '' for free-text fields. */
+  system: string;
+  display: string;
 }
 
 interface PatientData {
-  firstName: string;
-  lastName: string;
+  /** Canonical URL of the bundled profile the patient is written for, or '' for base R4. */
+  profile: string;
+  /** Chosen codes for profile extensions, by extension URL. */
+  profileExtensions: Record<string, string>;
+  names: NameFormValue[];
   gender: string;
   birthDate: string;
-  phone: string;
-  address: string;
+  deceased: ChoiceFormValue;
+  multipleBirth: ChoiceFormValue;
+  telecom: ContactPointFormValue[];
+  addresses: AddressFormValue[];
+  identifiers: IdentifierFormValue[];
+  contacts: PatientContactFormValue[];
+  extensions: ExtensionFormValue[];
   optionalFields: OptionalField[];
 }
 
 const optionalFieldOptions = [
-  { key: 'email', label: 'Email' },
   { key: 'maritalStatus', label: 'Marital Status' },
   { key: 'language', label: 'Language' },
   { key: 'birthPlace', label: 'Birth Place' },
 ];
 
-const CreatePatientForm = () => {
+// Optional fields picked from a value set rather than typed. Languages are any
+// BCP-47 tag; the bundled set only lists the common ones.
+const codedOptionalFields: Record<string, { valueSet: LocalValueSet; allowCustom: boolean }> = {
+  maritalStatus: { valueSet: MARITAL_STATUS_VALUE_SET, allowCustom: false },
+  language: { valueSet: LANGUAGES_VALUE_SET, allowCustom: true },
+};
+
+// Element paths each form field writes to, used to highlight the field an
+// OperationOutcome issue points at.
+const fieldElementPaths: Record<string, string[]> = {
+  names: ['Patient.name'],
+  gender: ['Patient.gender'],
+  birthDate: ['Patient.birthDate'],
+  deceased: ['Patient.deceased', 'Patient.deceased[x]', 'Patient.deceasedBoolean', 'Patient.deceasedDateTime'],
+  multipleBirth: ['Patient.multipleBirth', 'Patient.multipleBirth[x]', 'Patient.multipleBirthBoolean', 'Patient.multipleBirthInteger'],
+  telecom: ['Patient.telecom'],
+  addresses: ['Patient.address'],
+  identifiers: ['Patient.identifier'],
+  contacts: ['Patient.contact'],
+  extensions: ['Patient.extension'],
+  maritalStatus: ['Patient.maritalStatus'],
+  language: ['Patient.communication'],
+  birthPlace: ['Patient.extension'],
+  profileExtensions: PATIENT_PROFILES.flatMap(profile => profile.extensions.map(extension => profileExtensionExpression(extension.url))),
+};
+
+const emptyPatientData: PatientData = {
+  profile: '',
+  profileExtensions: {},
+  names: [emptyNameFormValue],
+  gender: '',
+  birthDate: '',
+  deceased: emptyChoiceFormValue,
+  multipleBirth: emptyChoiceFormValue,
+  telecom: [emptyContactPointFormValue],
+  addresses: [emptyAddressFormValue],
+  identifiers: [],
+  contacts: [],
+  extensions: [],
+  optionalFields: [],
+};
+
+const optionalFieldCoding = (field: OptionalField): Coding => ({
+  ...(field.system && { system: field.system }),
+  code: field.value.trim(),
+  ...(field.display && { display: field.display }),
+});
+
+// Birth place and the extensions of the patient's profile have their own
+// inputs; every other extension goes to the extension editor.
+const isFormManagedExtension = (patient: Patient, extension: Extension) =>
+  extension.url === BIRTH_PLACE_EXTENSION_URL ||
+  !!detectPatientProfile(patient)?.extensions.some(definition => definition.url === extension.url);
+
+// Extensions of the loaded version (`base`) that the form leaves unchanged are
+// kept as they were: birth place and profile extensions pair up by URL, editor
+// entries by position, and those the editor cannot show are appended.
+const keepExtensions = (base: Patient, roundTrip: Patient, edited: Patient): Extension[] => {
+  if (isDeepEqual(roundTrip.extension, edited.extension)) return base.extension || [];
+  const managed = (patient: Patient) =>
+    (patient.extension || []).filter(extension => isFormManagedExtension(patient, extension));
+  const editable = (patient: Patient) =>
+    (patient.extension || []).filter(extension => !isFormManagedExtension(patient, extension) && isEditableExtension(extension));
+  const urls = [...new Set([...managed(base), ...managed(edited)].map(extension => extension.url))];
+  const byUrl = (extensions: Extension[], url: string) => extensions.find(extension => extension.url === url);
+  return [
+    ...(keepUnrepresented(editable(base), editable(roundTrip), editable(edited)) as Extension[]),
+    ...urls
+      .map(url => keepUnrepresented(byUrl(managed(base), url), byUrl(managed(roundTrip), url), byUrl(managed(edited), url)) as Extension | undefined)
+      .filter((extension): extension is Extension => !!extension),
+    ...(base.extension || []).filter(extension => !isFormManagedExtension(base, extension) && !isEditableExtension(extension)),
+  ];
+};
+
+// Loads an existing Patient into the form for editing.
+const patientToFormData = (patient: Patient): PatientData => {
+  const profile = detectPatientProfile(patient);
+  const optionalValues: Record<string, string | undefined> = {
+    maritalStatus: patient.maritalStatus?.coding?.[0]?.code,
+    language: patient.communication?.[0]?.language?.coding?.[0]?.code,
+    birthPlace: (patient.extension?.find(ext => ext.url === BIRTH_PLACE_EXTENSION_URL)
+      ?.valueAddress as { text?: string } | undefined)?.text,
+  };
+  const optionalCodings: Record<string, Coding | undefined> = {
+    maritalStatus: patient.maritalStatus?.coding?.[0],
+    language: patient.communication?.[0]?.language?.coding?.[0],
+  };
+
+  return {
+    profile: profile?.url || '',
+    profileExtensions: Object.fromEntries((profile?.extensions || [])
+      .map(extension => [extension.url, readProfileExtension(extension, patient)])
+      .filter(([, code]) => code)),
+    names: patient.name?.length ? patient.name.map(nameToFormValue) : [emptyNameFormValue],
+    gender: patient.gender || '',
+    birthDate: patient.birthDate || '',
+    deceased: choiceToFormValue(patient, 'deceased'),
+    multipleBirth: choiceToFormValue(patient, 'multipleBirth'),
+    telecom: patient.telecom?.length ? patient.telecom.map(contactPointToFormValue) : [emptyContactPointFormValue],
+    addresses: patient.address?.length ? patient.address.map(addressToFormValue) : [emptyAddressFormValue],
+    identifiers: (patient.identifier || []).map(identifierToFormValue),
+    contacts: (patient.contact || []).map(contactToFormValue),
+    extensions: (patient.extension || [])
+      .filter(extension => !isFormManagedExtension(patient, extension) && isEditableExtension(extension))
+      .map(extensionToFormValue),
+    optionalFields: optionalFieldOptions
+      .filter(option => optionalValues[option.key])
+      .map(option => ({
+        ...option,
+        value: optionalValues[option.key],
+        system: optionalCodings[option.key]?.system || '',
+        display: optionalCodings[option.key]?.display || '',
+      })),
+  };
+};
+
+const formDataToPatient = (patientData: PatientData): Patient => {
+  const profile = findPatientProfile(patientData.profile);
+  let resource: Patient = {
+    resourceType: 'Patient',
+    ...(profile && { meta: { profile: [profile.url] } }),
+    name: patientData.names.filter(name => !isNameEmpty(name)).map(formValueToName),
+    gender: patientData.gender,
+    birthDate: patientData.birthDate,
+    telecom: patientData.telecom.filter(contactPoint => contactPoint.value.trim()).map(formValueToContactPoint),
+    address: patientData.addresses.filter(address => !isAddressEmpty(address)).map(formValueToAddress),
+  };
+
+  resource = applyChoiceFormValue(resource, 'deceased', patientData.deceased);
+  resource = applyChoiceFormValue(resource, 'multipleBirth', patientData.multipleBirth);
+
+  if (patientData.identifiers.length > 0) {
+    resource.identifier = patientData.identifiers.map(formValueToIdentifier);
+  }
+
+  if (patientData.contacts.length > 0) {
+    resource.contact = patientData.contacts.map(formValueToContact);
+  }
+
+  if (patientData.extensions.length > 0) {
+    resource.extension = patientData.extensions.map(formValueToExtension);
+  }
+
+  // Add optional fields
+  patientData.optionalFields.forEach(field => {
+    switch (field.key) {
+      case 'maritalStatus':
+        resource.maritalStatus = toCodeableConcept(codingFromValueSet(MARITAL_STATUS_VALUE_SET, optionalFieldCoding(field)));
+        break;
+      case 'language':
+        resource.communication = [
+          {
+            language: toCodeableConcept(codingFromValueSet(LANGUAGES_VALUE_SET, optionalFieldCoding(field))),
+          },
+        ];
+        break;
+      case 'birthPlace':
+        resource.extension = upsertExtension(resource.extension, {
+          url: BIRTH_PLACE_EXTENSION_URL,
+          valueAddress: {
+            text: field.value,
+          },
+        });
+        break;
+    }
+  });
+
+  // Profile extensions replace editor entries with the same URL; the profile allows one of each.
+  (profile?.extensions || []).forEach(definition => {
+    const extension = buildProfileExtension(definition, patientData.profileExtensions[definition.url] || '');
+    if (extension) resource.extension = upsertExtension(resource.extension, extension);
+  });
+
+  return resource;
+};
+
+// Puts a code picked in the terminology explorer into the form. Gender and
+// contact relationships are stored as bare codes of one system, so codes from
+// other systems are rejected; relationships go to the last contact.
+const insertCoding = (patientData: PatientData, { field, coding }: CodingInsertion): PatientData | string => {
+  const code = coding.code || '';
+  switch (field) {
+    case 'gender':
+      return coding.system === ADMINISTRATIVE_GENDER_VALUE_SET.system && ADMINISTRATIVE_GENDER_VALUE_SET.concepts.some(gender => gender.code === code)
+        ? { ...patientData, gender: code }
+        : `${code} is not an administrative gender code`;
+    case 'contactRelationship': {
+      if (coding.system !== CONTACT_RELATIONSHIP_SYSTEM) return `Contact relationships must be coded in ${CONTACT_RELATIONSHIP_SYSTEM}`;
+      const contacts = patientData.contacts.length > 0 ? patientData.contacts : [emptyPatientContactFormValue];
+      const last = contacts[contacts.length - 1];
+      const relationships = last.relationships.includes(code) ? last.relationships : [...last.relationships, code];
+      return { ...patientData, contacts: [...contacts.slice(0, -1), { ...last, relationships }] };
+    }
+    case 'extension':
+      return {
+        ...patientData,
+        extensions: [...patientData.extensions, { ...emptyExtensionFormValue, type: 'Coding', system: coding.system || '', code, display: coding.display || '' }],
+      };
+    default: {
+      const option = optionalFieldOptions.find(candidate => candidate.key === field);
+      const optionalField = { key: field, label: option?.label || field, value: code, system: coding.system || '', display: coding.display || '' };
+      const exists = patientData.optionalFields.some(existing => existing.key === field);
+      return {
+        ...patientData,
+        optionalFields: exists
+          ? patientData.optionalFields.map(existing => (existing.key === field ? optionalField : existing))
+          : [...patientData.optionalFields, optionalField],
+      };
+    }
+  }
+};
+
+// Where a field's errors are shown in the form: optional fields live in the
+// `optionalFields` list, everything else under its own key.
+const formFieldPath = (field: string, patientData: PatientData) => {
+  const optionalIndex = patientData.optionalFields.findIndex(optional => optional.key === field);
+  return (optionalIndex === -1 ? field : `optionalFields.${optionalIndex}.value`) as keyof PatientData;
+};
+
+// The form's own requirements and format checks come first, then the generated
+// resource is validated against the R4 Patient definition and the chosen
+// profile, and each issue is reported on the field that produces the offending
+// element.
+const patientFormSchema = z.custom<PatientData>().superRefine((patientData, ctx) => {
+  const addFieldIssue = (field: string, message: string) => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: formFieldPath(field, patientData).split('.'), message });
+  };
+
+  if (patientData.names.every(isNameEmpty)) addFieldIssue('names', 'At least one name is required');
+  if (!patientData.gender) addFieldIssue('gender', 'Gender is required');
+  if (!patientData.birthDate) addFieldIssue('birthDate', 'Date of birth is required');
+  if (!patientData.telecom.some(contactPoint => contactPoint.system === 'phone' && contactPoint.value.trim())) {
+    addFieldIssue('telecom', 'At least one phone number is required');
+  }
+  if (patientData.addresses.every(isAddressEmpty)) addFieldIssue('addresses', 'At least one address is required');
+
+  patientData.addresses.forEach((address, index) => {
+    const error = validatePostalCode(address.postalCode, address.country);
+    if (error) addFieldIssue('addresses', `Address ${index + 1}: ${error}`);
+  });
+  patientData.telecom.forEach((contactPoint, index) => {
+    const error = contactPoint.value.trim() && validateContactPoint(formValueToContactPoint(contactPoint));
+    if (error) addFieldIssue('telecom', `Telecom ${index + 1}: ${error}`);
+  });
+  patientData.identifiers.forEach((identifier, index) => {
+    const error = validateIdentifier(formValueToIdentifier(identifier), identifier.validator || undefined);
+    if (error) addFieldIssue('identifiers', `Identifier ${index + 1}: ${error}`);
+  });
+  patientData.contacts.forEach((contact, index) => {
+    const postalCodeError = contact.address && validatePostalCode(contact.address.postalCode, contact.address.country);
+    if (postalCodeError) addFieldIssue('contacts', `Contact ${index + 1} address: ${postalCodeError}`);
+    contact.telecom.forEach((contactPoint, telecomIndex) => {
+      const error = contactPoint.value.trim() && validateContactPoint(formValueToContactPoint(contactPoint));
+      if (error) addFieldIssue('contacts', `Contact ${index + 1} telecom ${telecomIndex + 1}: ${error}`);
+    });
+  });
+  patientData.extensions.forEach((extension, index) => {
+    const error = validateExtensionFormValue(extension);
+    if (error) addFieldIssue('extensions', `Extension ${index + 1}: ${error}`);
+  });
+  patientData.optionalFields.forEach(field => {
+    if (codedOptionalFields[field.key] && !field.value.trim()) {
+      addFieldIssue(field.key, `Select a ${field.label.toLowerCase()} or remove the field`);
+    } else if (field.key === 'language') {
+      const error = validateLanguageTag(field.value);
+      if (error) addFieldIssue('language', error);
+    }
+  });
+
+  const outcome = validatePatientProfile(formDataToPatient(patientData), patientData.profile);
+  const fieldErrors = mapIssuesToFields(outcome, fieldElementPaths);
+  Object.entries(fieldErrors).forEach(([field, message]) => addFieldIssue(field, message));
+
+  // Errors on elements no field produces still block the submit; warnings never do.
+  const fieldPaths = Object.values(fieldElementPaths).flat();
+  const unmapped = outcome.issue
+    .filter(issue => issue.severity === 'error' || issue.severity === 'fatal')
+    .filter(issue => !Object.keys(mapIssuesToFields({ ...outcome, issue: [issue] }, { any: fieldPaths })).length);
+  if (unmapped.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['root', 'schema'], message: unmapped.map(issue => issue.diagnostics).join('; ') });
+  }
+});
+
+const collectErrorMessages = (errors: object): string[] =>
+  Object.entries(errors).flatMap(([key, value]) => {
+    if (key === 'ref' || !value || typeof value !== 'object') return [];
+    return typeof value.message === 'string' ? [value.message] : collectErrorMessages(value);
+  });
+
+interface ConditionalCreateSettings {
+  enabled: boolean;
+  criteria: ConditionalMatchCriterion[];
+}
+
+const defaultConditionalCreate: ConditionalCreateSettings = {
+  enabled: false,
+  criteria: ['family', 'given', 'birthdate'],
+};
+
+// How the server resolved a conditional create: 201 created a new resource,
+// 200 matched exactly one existing resource, 412 matched several.
+interface ConditionalCreateOutcome {
+  query: string;
+  status: number;
+  id: string | null;
+}
+
+interface VersionConflict {
+  ours: Patient;
+  theirs: Patient | null;
+}
+
+const inputClassName = 'mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+const errorInputClassName = 'mt-2 rounded-xl border-error bg-error/5 backdrop-blur-sm ring-1 ring-error/30 focus:border-error focus:ring-error/30';
+
+interface CreatePatientFormProps {
+  existingPatient?: Patient;
+  onCancelEdit?: () => void;
+  /** A code from the terminology explorer to put into the form. */
+  codingInsertion?: CodingInsertion;
+  onCodingInserted?: () => void;
+}
+
+const CreatePatientForm = ({ existingPatient, onCancelEdit, codingInsertion, onCodingInserted }: CreatePatientFormProps) => {
   const { toast } = useToast();
-  const [patientData, setPatientData] = useState<PatientData>({
-    firstName: '',
-    lastName: '',
-    gender: '',
-    birthDate: '',
-    phone: '',
-    address: '',
-    optionalFields: [],
+  const { client, activeEnvironment } = useFHIREnvironment();
+  const form = useForm<PatientData>({
+    defaultValues: existingPatient ? patientToFormData(existingPatient) : emptyPatientData,
+    resolver: zodResolver(patientFormSchema),
   });
-  const [response, setResponse] = useState<string>('');
+  const patientData = form.watch();
+  // The server version the edit is based on; its versionId is sent as If-Match.
+  const [baseVersion, setBaseVersion] = useState<Patient | null>(existingPatient || null);
+  const [conflict, setConflict] = useState<VersionConflict | null>(null);
+  const [response, setResponse] = useState<FHIRResponse<unknown> | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [conditionalCreate, setConditionalCreate] = useState<ConditionalCreateSettings>(defaultConditionalCreate);
+  const [conditionalOutcome, setConditionalOutcome] = useState<ConditionalCreateOutcome | null>(null);
+  const [validationProfile, setValidationProfile] = useState('');
+  const [validation, setValidation] = useState<ServerValidation | null>(null);
+  // $validate stores nothing, so its response is kept apart from create/update responses.
+  const [validationResponse, setValidationResponse] = useState<FHIRResponse<unknown> | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [remoteTerminology, setRemoteTerminology] = useState(false);
 
-  const availableOptionalFields = optionalFieldOptions.filter(
-    option => !patientData.optionalFields.some(field => field.key === option.key)
+  const activeProfile = findPatientProfile(patientData.profile);
+  const isRequiredByProfile = (element: string) => !!activeProfile?.required.includes(element);
+  const mustSupportBadge = (element: string) => activeProfile?.mustSupport.includes(element) && (
+    <Badge variant="secondary" className="ml-2 text-[10px] px-1.5 py-0 bg-medical-light/60 text-medical-blue border-medical-blue/20" title={`Must Support in ${activeProfile.label}`}>
+      MS
+    </Badge>
   );
 
-  const handleInputChange = (field: keyof PatientData, value: string) => {
-    setPatientData(prev => ({ ...prev, [field]: value }));
-  };
+  useEffect(() => {
+    if (!codingInsertion) return;
+    const result = insertCoding(form.getValues(), codingInsertion);
+    const label = CODED_PATIENT_FIELDS.find(candidate => candidate.field === codingInsertion.field)?.label;
+    if (typeof result === 'string') {
+      toast({ title: 'Code Not Inserted', description: result, variant: 'destructive' });
+    } else {
+      form.reset(result, { keepDefaultValues: true });
+      toast({
+        title: 'Code Inserted',
+        description: `${codingInsertion.coding.display || codingInsertion.coding.code} set as ${label}.`,
+      });
+    }
+    onCodingInserted?.();
+  }, [codingInsertion, form, onCodingInserted, toast]);
 
-  const handleOptionalFieldChange = (index: number, value: string) => {
-    setPatientData(prev => ({
-      ...prev,
-      optionalFields: prev.optionalFields.map((field, i) =>
-        i === index ? { ...field, value } : field
-      ),
-    }));
-  };
+  const availableOptionalFields = optionalFieldOptions.filter(
+    option => !patientData.optionalFields.some(field => field.key === option.key)
+  );
 
   const addOptionalField = (fieldKey: string) => {
     const fieldOption = optionalFieldOptions.find(option => option.key === fieldKey);
     if (fieldOption) {
-      setPatientData(prev => ({
-        ...prev,
-        optionalFields: [...prev.optionalFields, { ...fieldOption, value: '' }],
-      }));
+      form.setValue('optionalFields', [...form.getValues('optionalFields'), { ...fieldOption, value: '', system: '', display: '' }]);
     }
   };
 
   const removeOptionalField = (index: number) => {
-    setPatientData(prev => ({
+    form.setValue('optionalFields', form.getValues('optionalFields').filter((_, i) => i !== index));
+  };
+
+  const toggleMatchCriterion = (criterion: ConditionalMatchCriterion, checked: boolean) => {
+    setConditionalCreate(prev => ({
       ...prev,
-      optionalFields: prev.optionalFields.filter((_, i) => i !== index),
+      criteria: checked ? [...prev.criteria, criterion] : prev.criteria.filter(key => key !== criterion),
     }));
   };
 
-  const generateFHIRResource = (): any => {
-    const resource: any = {
-      resourceType: 'Patient',
-      name: [
-        {
-          use: 'official',
-          family: patientData.lastName,
-          given: [patientData.firstName],
-        },
-      ],
-      gender: patientData.gender,
-      birthDate: patientData.birthDate,
-      telecom: [
-        {
-          system: 'phone',
-          value: patientData.phone,
-          use: 'home',
-        },
-      ],
-      address: [
-        {
-          use: 'home',
-          text: patientData.address,
-        },
-      ],
-    };
+  const generateFHIRResource = () => formDataToPatient(patientData);
+  const localWarnings = validatePatientProfile(generateFHIRResource(), patientData.profile).issue
+    .filter(issue => issue.severity === 'warning');
 
-    // Add optional fields
-    patientData.optionalFields.forEach(field => {
-      switch (field.key) {
-        case 'email':
-          resource.telecom.push({
-            system: 'email',
-            value: field.value,
-            use: 'home',
-          });
-          break;
-        case 'maritalStatus':
-          resource.maritalStatus = {
-            coding: [
-              {
-                system: 'http://terminology.hl7.org/CodeSystem/v3-MaritalStatus',
-                code: field.value,
-                display: field.value,
-              },
-            ],
-          };
-          break;
-        case 'language':
-          resource.communication = [
-            {
-              language: {
-                coding: [
-                  {
-                    system: 'urn:ietf:bcp:47',
-                    code: field.value,
-                    display: field.value,
-                  },
-                ],
-              },
-            },
-          ];
-          break;
-        case 'birthPlace':
-          resource.extension = [
-            {
-              url: 'http://hl7.org/fhir/StructureDefinition/patient-birthPlace',
-              valueAddress: {
-                text: field.value,
-              },
-            },
-          ];
-          break;
-      }
+  const handleInvalid = (errors: FieldErrors<PatientData>) => {
+    const messages = collectErrorMessages(errors);
+    toast({
+      title: 'Validation Error',
+      description: messages.length === 1 ? messages[0] : `${messages.length} problems found: ${messages.join('; ')}`,
+      variant: 'destructive',
     });
-
-    return resource;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = async (data: PatientData) => {
+    if (baseVersion) {
+      await submitUpdate(buildUpdatedResource(), baseVersion.meta?.versionId);
+      return;
+    }
 
-    // Validate required fields
-    if (!patientData.firstName || !patientData.lastName || !patientData.gender || 
-        !patientData.birthDate || !patientData.phone || !patientData.address) {
+    const fhirResource = formDataToPatient(data);
+    const ifNoneExist = conditionalCreate.enabled
+      ? buildConditionalCreateQuery(fhirResource, conditionalCreate.criteria)
+      : '';
+    if (conditionalCreate.enabled && !ifNoneExist) {
       toast({
         title: 'Validation Error',
-        description: 'Please fill in all required fields.',
+        description: 'Conditional create needs at least one match criterion with a value.',
         variant: 'destructive',
       });
       return;
     }
 
     setIsLoading(true);
-    const fhirResource = generateFHIRResource();
+    setResponse(null);
+    form.clearErrors();
+    setConditionalOutcome(null);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Mock successful response
-      const mockResponse = {
-        resourceType: 'Patient',
-        id: `patient-${Date.now()}`,
-        meta: {
-          versionId: '1',
-          lastUpdated: new Date().toISOString(),
-        },
-        ...fhirResource,
+      const result = await client.create(fhirResource, ifNoneExist ? { headers: { 'If-None-Exist': ifNoneExist } } : {});
+      const id = result.body?.id || parseLocationId(result.headers.location || result.headers['content-location'], 'Patient');
+
+      setResponse(result);
+      if (ifNoneExist) {
+        setConditionalOutcome({ query: ifNoneExist, status: result.status, id });
+      }
+      toast(ifNoneExist && result.status === 200
+        ? {
+            title: 'Existing Patient Matched',
+            description: `No patient was created: the server found ${id ? `Patient/${id}` : 'one patient'} matching ${ifNoneExist}.`,
+          }
+        : {
+            title: 'Patient Created',
+            description: `Patient ${getDisplayName(fhirResource)} has been created${id ? ` with ID ${id}` : ''}.`,
+          });
+    } catch (error) {
+      if (ifNoneExist && error instanceof FHIRResponseError && error.response.status === 412) {
+        setResponse(error.response);
+        setConditionalOutcome({ query: ifNoneExist, status: 412, id: null });
+        toast({
+          title: 'Multiple Matches (412)',
+          description: `More than one patient matches ${ifNoneExist}; tighten the match criteria.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      handleRequestError(error, 'Failed to create patient. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRequestError = (error: unknown, fallbackMessage: string) => {
+    const body = error instanceof FHIRResponseError ? error.response.body : null;
+    if (error instanceof FHIRResponseError) {
+      setResponse(error.response);
+    }
+    if (isOperationOutcome(body)) {
+      Object.entries(mapIssuesToFields(body, fieldElementPaths)).forEach(([field, message]) => {
+        form.setError(formFieldPath(field, form.getValues()), { type: 'server', message });
+      });
+    }
+    toast({
+      title: error instanceof FHIRResponseError ? `Error ${error.response.status}` : 'Error',
+      description: isOperationOutcome(body)
+        ? summarizeOutcome(body)
+        : error instanceof Error ? error.message : fallbackMessage,
+      variant: 'destructive',
+    });
+  };
+
+  // The form cannot hold everything a loaded Patient may carry (extra codings,
+  // assigner references, given names containing spaces, further languages...),
+  // so whatever it leaves unchanged is taken from the loaded version as is.
+  const buildUpdatedResource = (): Patient => {
+    const roundTripped = formDataToPatient(patientToFormData(baseVersion));
+    const generated = generateFHIRResource();
+    const { meta: baseMeta, extension: _baseExtensions, communication: baseCommunication, ...base } = baseVersion;
+    const { meta: _roundTripMeta, extension: _roundTripExtensions, communication: roundTripCommunication, ...roundTrip } = roundTripped;
+    const { meta: _meta, extension: _extensions, communication, ...edited } = generated;
+    // Only the bundled profile in meta.profile is ours to change; tags, security labels and other profiles stay.
+    const meta = applyPatientProfile(baseMeta, patientData.profile);
+    // The form edits the first language only; the others are kept.
+    const [baseLanguage, ...otherLanguages] = baseCommunication || [];
+    const languages = communication?.map(language => keepUnrepresented(baseLanguage, roundTripCommunication?.[0], language) as Patient['communication'][number]) || [];
+    const extension = keepExtensions(baseVersion, roundTripped, generated);
+    return {
+      ...(keepUnrepresented(base, roundTrip, edited) as Patient),
+      ...(meta && { meta }),
+      ...(languages.length + otherLanguages.length > 0 && { communication: [...languages, ...otherLanguages] }),
+      ...(extension.length > 0 && { extension }),
+      id: baseVersion.id,
+    };
+  };
+
+  const submitUpdate = async (resource: Patient, versionId?: string) => {
+    setIsLoading(true);
+    setResponse(null);
+    form.clearErrors();
+
+    try {
+      const result = await client.update(resource, versionId ? { headers: { 'If-Match': weakETag(versionId) } } : {});
+      const updated = result.body || {
+        ...resource,
+        meta: { ...resource.meta, versionId: parseETagVersion(result.headers.etag) || undefined },
       };
 
-      setResponse(JSON.stringify(mockResponse, null, 2));
+      setResponse(result);
+      setBaseVersion(updated);
+      form.reset(patientToFormData(updated));
+      setConflict(null);
       toast({
-        title: 'Patient Created',
-        description: `Patient ${patientData.firstName} ${patientData.lastName} has been created successfully.`,
+        title: 'Patient Updated',
+        description: `Patient ${resource.id} is now at version ${updated.meta?.versionId ?? 'unknown'}.`,
       });
     } catch (error) {
+      if (error instanceof FHIRResponseError && error.response.status === 412) {
+        setResponse(error.response);
+        const theirs = await client
+          .read<Patient>('Patient', resource.id)
+          .then(current => current.body)
+          .catch(() => null);
+        setConflict({ ours: resource, theirs });
+        return;
+      }
+      handleRequestError(error, 'Failed to update patient. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Runs $validate on what would be sent, without the local checks, so the
+  // server's verdict can be compared with ours. Nothing is stored.
+  const handleValidateOnServer = async () => {
+    const resource = baseVersion ? buildUpdatedResource() : formDataToPatient(form.getValues());
+    const profile = validationProfile.trim();
+    setIsValidating(true);
+    setValidation(null);
+    setValidationResponse(null);
+
+    const showValidation = (result: FHIRResponse<unknown>) => {
+      setValidationResponse(result);
+      if (!isOperationOutcome(result.body)) {
+        toast({
+          title: `Validation ${result.status}`,
+          description: 'The server did not return an OperationOutcome.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      setValidation({
+        url: result.url,
+        status: result.status,
+        profile,
+        outcome: result.body,
+        localOutcome: validatePatientProfile(resource, profile),
+      });
+      const errorCount = result.body.issue.filter(issue => issue.severity === 'error' || issue.severity === 'fatal').length;
       toast({
-        title: 'Error',
-        description: 'Failed to create patient. Please try again.',
-        variant: 'destructive',
+        title: errorCount > 0 ? 'Server Validation Failed' : 'Server Validation Passed',
+        description: errorCount > 0 ? `The server reported ${errorCount} error${errorCount === 1 ? '' : 's'}.` : 'The server reported no errors.',
+        variant: errorCount > 0 ? 'destructive' : undefined,
       });
+    };
+
+    try {
+      showValidation(await client.validate(resource, { profile: profile || undefined, mode: baseVersion ? 'update' : 'create' }));
+    } catch (error) {
+      if (error instanceof FHIRResponseError) {
+        showValidation(error.response);
+        return;
+      }
+      handleRequestError(error, 'Failed to validate patient. Please try again.');
     } finally {
-      setIsLoading(false);
+      setIsValidating(false);
     }
   };
 
+  const handleOverwrite = () => {
+    if (conflict?.theirs) submitUpdate(conflict.ours, conflict.theirs.meta?.versionId);
+  };
+
+  const handleMerge = () => {
+    if (!conflict?.theirs) return;
+    const { merged, conflicts } = mergeResourceVersions(baseVersion, conflict.ours, conflict.theirs);
+    if (conflicts.length > 0) {
+      toast({
+        title: 'Merged With Conflicts',
+        description: `Kept your values for: ${conflicts.join(', ')}.`,
+      });
+    }
+    submitUpdate(merged, conflict.theirs.meta?.versionId);
+  };
+
+  const handleLoadServerVersion = () => {
+    if (!conflict?.theirs) return;
+    setBaseVersion(conflict.theirs);
+    form.reset(patientToFormData(conflict.theirs));
+    setConflict(null);
+  };
+
   return (
     <div className="space-y-8">
       <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
         <div className="bg-gradient-card p-8 border-b border-white/20">
           <div className="flex items-center gap-3">
             <div className="p-3 rounded-2xl bg-gradient-primary shadow-glow">
-              <Plus className="h-6 w-6 text-white" />
+              {baseVersion ? <Pencil className="h-6 w-6 text-white" /> : <Plus className="h-6 w-6 text-white" />}
             </div>
-            <div>
-              <h2 className="text-2xl font-bold text-foreground">Create New Patient</h2>
-              <p className="text-muted-foreground">Enter patient information to create a FHIR resource</p>
+            <div className="flex-1">
+              <h2 className="text-2xl font-bold text-foreground">{baseVersion ? 'Edit Patient' : 'Create New Patient'}</h2>
+              <p className="text-muted-foreground">
+                {baseVersion ? 'Update the FHIR resource' : 'Enter patient information to create a FHIR resource'} on <span className="font-medium text-foreground">{activeEnvironment.name}</span>
+              </p>
             </div>
+            {baseVersion && (
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="bg-medical-light/60 text-medical-blue border-medical-blue/20">
+                  ID: {baseVersion.id} • v{baseVersion.meta?.versionId ?? '?'}
+                </Badge>
+                {onCancelEdit && (
+                  <Button type="button" variant="outline" size="sm" className="rounded-xl" onClick={onCancelEdit}>
+                    Cancel Edit
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
         </div>
         <div className="p-8">
-          <form onSubmit={handleSubmit} className="space-y-8">
-            {/* Required Fields */}
-            <div>
-              <h3 className="text-lg font-semibold text-foreground mb-6 flex items-center gap-2">
-                <span className="w-2 h-2 bg-error rounded-full"></span>
-                Required Information
-              </h3>
-              <div className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div>
-                    <Label htmlFor="firstName" className="text-sm font-medium text-foreground">
-                      First Name <span className="text-error">*</span>
-                    </Label>
-                    <Input
-                      id="firstName"
-                      value={patientData.firstName}
-                      onChange={(e) => handleInputChange('firstName', e.target.value)}
-                      placeholder="Enter first name"
-                      className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20"
-                      required
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit, handleInvalid)} className="space-y-8">
+              {/* Profile */}
+              <div>
+                <h3 className="text-lg font-semibold text-foreground mb-2 flex items-center gap-2">
+                  <span className="w-2 h-2 bg-medical-blue rounded-full"></span>
+                  Profile
+                </h3>
+                <p className="text-sm text-muted-foreground mb-6">
+                  Written to <span className="font-mono">meta.profile</span>; the form then checks the profile's required elements, constraints and extensions.
+                </p>
+                <div className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="profile"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <FormLabel className="text-sm font-medium text-foreground">Conforms To</FormLabel>
+                        <Select
+                          value={field.value || 'none'}
+                          onValueChange={value => {
+                            const url = value === 'none' ? '' : value;
+                            field.onChange(url);
+                            setValidationProfile(url);
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
+                            <SelectItem value="none">Base FHIR R4 Patient</SelectItem>
+                            {PATIENT_PROFILES.map(profile => (
+                              <SelectItem key={profile.url} value={profile.url}>
+                                {profile.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {activeProfile && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            <span className="font-mono break-all">{activeProfile.url}</span>
+                            {activeProfile.required.length > 0 && <> · requires {activeProfile.required.join(', ')}</>}
+                          </p>
+                        )}
+                      </FormItem>
+                    )}
+                  />
+
+                  {activeProfile && activeProfile.extensions.length > 0 && (
+                    <FormField
+                      control={form.control}
+                      name="profileExtensions"
+                      render={({ field, fieldState }) => (
+                        <div>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            {activeProfile.extensions.map(extension => (
+                              <div key={extension.url}>
+                                <Label className="text-sm font-medium text-foreground">
+                                  {extension.label}
+                                  {mustSupportBadge('extension')}
+                                </Label>
+                                <Select
+                                  value={field.value[extension.url] || 'none'}
+                                  onValueChange={code => field.onChange({ ...field.value, [extension.url]: code === 'none' ? '' : code })}
+                                >
+                                  <SelectTrigger className={fieldState.error ? errorInputClassName : 'mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm'}>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
+                                    <SelectItem value="none">Not recorded</SelectItem>
+                                    {extension.options.map(option => (
+                                      <SelectItem key={option.code} value={option.code}>
+                                        {option.display} <span className="font-mono text-xs text-muted-foreground">{option.code}</span>
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            ))}
+                          </div>
+                          {fieldState.error && <p className="mt-1 text-xs text-error">{fieldState.error.message}</p>}
+                        </div>
+                      )}
                     />
-                  </div>
-                  <div>
-                    <Label htmlFor="lastName" className="text-sm font-medium text-foreground">
-                      Last Name <span className="text-error">*</span>
-                    </Label>
-                    <Input
-                      id="lastName"
-                      value={patientData.lastName}
-                      onChange={(e) => handleInputChange('lastName', e.target.value)}
-                      placeholder="Enter last name"
-                      className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20"
-                      required
+                  )}
+                </div>
+              </div>
+
+              {/* Required Fields */}
+              <div className="border-t border-muted/30 pt-8">
+                <h3 className="text-lg font-semibold text-foreground mb-6 flex items-center gap-2">
+                  <span className="w-2 h-2 bg-error rounded-full"></span>
+                  Required Information
+                </h3>
+                <div className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="names"
+                    render={({ field, fieldState }) => (
+                      <div>
+                        <Label className="text-sm font-medium text-foreground">
+                          Names <span className="text-error">*</span>
+                          {mustSupportBadge('name')}
+                        </Label>
+                        <div className="mt-2">
+                          <NameEditor names={field.value} onChange={field.onChange} error={fieldState.error?.message} />
+                        </div>
+                      </div>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="gender"
+                      render={({ field, fieldState }) => (
+                        <FormItem className="space-y-0">
+                          <FormLabel className="text-sm font-medium text-foreground">
+                            Gender <span className="text-error">*</span>
+                            {mustSupportBadge('gender')}
+                          </FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger className={fieldState.error ? errorInputClassName : 'mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm'}>
+                                <SelectValue placeholder="Select gender" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
+                              {ADMINISTRATIVE_GENDER_VALUE_SET.concepts.map(gender => (
+                                <SelectItem key={gender.code} value={gender.code}>{gender.display}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage className="mt-1 text-xs text-error" />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="birthDate"
+                      render={({ field, fieldState }) => (
+                        <FormItem className="space-y-0">
+                          <FormLabel className="text-sm font-medium text-foreground">
+                            Date of Birth <span className="text-error">*</span>
+                            {mustSupportBadge('birthDate')}
+                          </FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} className={fieldState.error ? errorInputClassName : inputClassName} />
+                          </FormControl>
+                          <FormMessage className="mt-1 text-xs text-error" />
+                        </FormItem>
+                      )}
                     />
                   </div>
                 </div>
+              </div>
 
+              {/* Birth & Death */}
+              <div className="border-t border-muted/30 pt-8">
+                <h3 className="text-lg font-semibold text-foreground mb-6 flex items-center gap-2">
+                  <span className="w-2 h-2 bg-medical-blue rounded-full"></span>
+                  Birth &amp; Death
+                </h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div>
-                    <Label htmlFor="gender" className="text-sm font-medium text-foreground">
-                      Gender <span className="text-error">*</span>
-                    </Label>
-                    <Select value={patientData.gender} onValueChange={(value) => handleInputChange('gender', value)}>
-                      <SelectTrigger className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
-                        <SelectValue placeholder="Select gender" />
+                  <FormField
+                    control={form.control}
+                    name="deceased"
+                    render={({ field, fieldState }) => (
+                      <ChoiceElementEditor
+                        label="Deceased"
+                        base="deceased"
+                        types={['boolean', 'dateTime']}
+                        value={field.value}
+                        onChange={field.onChange}
+                        error={fieldState.error?.message}
+                      />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="multipleBirth"
+                    render={({ field, fieldState }) => (
+                      <ChoiceElementEditor
+                        label="Multiple Birth"
+                        base="multipleBirth"
+                        types={['boolean', 'integer']}
+                        value={field.value}
+                        onChange={field.onChange}
+                        error={fieldState.error?.message}
+                      />
+                    )}
+                  />
+                </div>
+              </div>
+
+              {/* Contact Details */}
+              <div className="border-t border-muted/30 pt-8">
+                <h3 className="text-lg font-semibold text-foreground mb-2 flex items-center gap-2">
+                  <span className="w-2 h-2 bg-error rounded-full"></span>
+                  Contact Details <span className="text-error">*</span>
+                  {mustSupportBadge('telecom')}
+                </h3>
+                <p className="text-sm text-muted-foreground mb-6">At least one phone number is required. Phone numbers are saved in E.164 format.</p>
+                <FormField
+                  control={form.control}
+                  name="telecom"
+                  render={({ field, fieldState }) => (
+                    <ContactPointEditor contactPoints={field.value} onChange={field.onChange} error={fieldState.error?.message} />
+                  )}
+                />
+              </div>
+
+              {/* Addresses */}
+              <div className="border-t border-muted/30 pt-8">
+                <h3 className="text-lg font-semibold text-foreground mb-6 flex items-center gap-2">
+                  <span className="w-2 h-2 bg-error rounded-full"></span>
+                  Addresses <span className="text-error">*</span>
+                  {mustSupportBadge('address')}
+                </h3>
+                <FormField
+                  control={form.control}
+                  name="addresses"
+                  render={({ field, fieldState }) => (
+                    <AddressEditor addresses={field.value} onChange={field.onChange} error={fieldState.error?.message} />
+                  )}
+                />
+              </div>
+
+              {/* Identifiers */}
+              <div className="border-t border-muted/30 pt-8">
+                <h3 className="text-lg font-semibold text-foreground mb-6 flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full ${isRequiredByProfile('identifier') ? 'bg-error' : 'bg-medical-blue'}`}></span>
+                  Identifiers
+                  {isRequiredByProfile('identifier') && <span className="text-error">*</span>}
+                  {mustSupportBadge('identifier')}
+                </h3>
+                <FormField
+                  control={form.control}
+                  name="identifiers"
+                  render={({ field, fieldState }) => (
+                    <IdentifierEditor identifiers={field.value} onChange={field.onChange} error={fieldState.error?.message} />
+                  )}
+                />
+              </div>
+
+              {/* Contacts */}
+              <div className="border-t border-muted/30 pt-8">
+                <h3 className="text-lg font-semibold text-foreground mb-2 flex items-center gap-2">
+                  <span className="w-2 h-2 bg-medical-blue rounded-full"></span>
+                  Contacts
+                </h3>
+                <p className="text-sm text-muted-foreground mb-6">Emergency contacts, next-of-kin and other parties to contact about the patient.</p>
+                <FormField
+                  control={form.control}
+                  name="contacts"
+                  render={({ field, fieldState }) => (
+                    <PatientContactEditor contacts={field.value} onChange={field.onChange} error={fieldState.error?.message} />
+                  )}
+                />
+              </div>
+
+              {/* Extensions */}
+              <div className="border-t border-muted/30 pt-8">
+                <h3 className="text-lg font-semibold text-foreground mb-2 flex items-center gap-2">
+                  <span className="w-2 h-2 bg-medical-blue rounded-full"></span>
+                  Extensions
+                </h3>
+                <p className="text-sm text-muted-foreground mb-6">
+                  Any extension by URL, with a value or nested extensions. Birth place and profile extensions set elsewhere in the form replace entries with the same URL.
+                </p>
+                <FormField
+                  control={form.control}
+                  name="extensions"
+                  render={({ field, fieldState }) => (
+                    <ExtensionEditor extensions={field.value} onChange={field.onChange} error={fieldState.error?.message} />
+                  )}
+                />
+              </div>
+
+              {/* Optional Fields */}
+              <div className="border-t border-muted/30 pt-8">
+                <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                  <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                    <span className="w-2 h-2 bg-medical-cyan rounded-full"></span>
+                    Optional Information
+                  </h3>
+                  <label className="flex items-center gap-3 text-sm text-muted-foreground">
+                    <Switch checked={remoteTerminology} onCheckedChange={setRemoteTerminology} aria-label="Expand codes on the server" />
+                    Expand codes on {activeEnvironment.name}
+                  </label>
+                </div>
+
+                {patientData.optionalFields.map((optionalField, index) => (
+                  <div key={optionalField.key} className="flex items-start gap-3 mb-4">
+                    <FormField
+                      control={form.control}
+                      name={`optionalFields.${index}.value`}
+                      render={({ field, fieldState }) => (
+                        <FormItem className="flex-1 space-y-0">
+                          <FormLabel className="text-sm font-medium text-foreground">
+                            {optionalField.label}
+                            {optionalField.key === 'language' && mustSupportBadge('communication')}
+                          </FormLabel>
+                          {codedOptionalFields[optionalField.key] ? (
+                            <CodingCombobox
+                              valueSet={codedOptionalFields[optionalField.key].valueSet}
+                              allowCustom={codedOptionalFields[optionalField.key].allowCustom}
+                              remote={remoteTerminology}
+                              value={field.value ? codingFromValueSet(codedOptionalFields[optionalField.key].valueSet, optionalFieldCoding(optionalField)) : null}
+                              onChange={coding => {
+                                field.onChange(coding?.code || '');
+                                form.setValue(`optionalFields.${index}.system`, coding?.system || '');
+                                form.setValue(`optionalFields.${index}.display`, coding?.display || '');
+                              }}
+                              placeholder={`Select ${optionalField.label.toLowerCase()}`}
+                              invalid={!!fieldState.error}
+                            />
+                          ) : (
+                            <FormControl>
+                              <Input
+                                {...field}
+                                placeholder={`Enter ${optionalField.label.toLowerCase()}`}
+                                className={fieldState.error ? errorInputClassName : inputClassName}
+                              />
+                            </FormControl>
+                          )}
+                          <FormMessage className="mt-1 text-xs text-error" />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => removeOptionalField(index)}
+                      className="mt-7 rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                {availableOptionalFields.length > 0 && (
+                  <div className="flex items-center gap-3 mt-6">
+                    <Select onValueChange={addOptionalField}>
+                      <SelectTrigger className="w-60 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
+                        <SelectValue placeholder="Add optional field" />
                       </SelectTrigger>
                       <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
-                        <SelectItem value="male">Male</SelectItem>
-                        <SelectItem value="female">Female</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
+                        {availableOptionalFields.map(option => (
+                          <SelectItem key={option.key} value={option.key}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
+                    <Badge variant="secondary" className="text-xs bg-medical-light/50 text-medical-blue border-medical-blue/20">
+                      {availableOptionalFields.length} available
+                    </Badge>
                   </div>
-                  <div>
-                    <Label htmlFor="birthDate" className="text-sm font-medium text-foreground">
-                      Date of Birth <span className="text-error">*</span>
-                    </Label>
-                    <Input
-                      id="birthDate"
-                      type="date"
-                      value={patientData.birthDate}
-                      onChange={(e) => handleInputChange('birthDate', e.target.value)}
-                      className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20"
-                      required
+                )}
+              </div>
+
+              {/* Conditional Create */}
+              {!baseVersion && (
+                <div className="border-t border-muted/30 pt-8 space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                        <Copy className="h-4 w-4 text-medical-blue" />
+                        Conditional Create
+                      </h3>
+                      <p className="text-sm text-muted-foreground">
+                        Send <span className="font-mono">If-None-Exist</span> so the server only creates the patient when no match exists
+                      </p>
+                    </div>
+                    <Switch
+                      checked={conditionalCreate.enabled}
+                      onCheckedChange={checked => setConditionalCreate(prev => ({ ...prev, enabled: checked }))}
+                      aria-label="Conditional create"
                     />
                   </div>
+
+                  {conditionalCreate.enabled && (
+                    <div className="space-y-4 rounded-xl border border-muted/40 p-4">
+                      <div>
+                        <Label className="text-sm font-medium text-foreground">Match Criteria</Label>
+                        <div className="mt-2 grid grid-cols-2 md:grid-cols-3 gap-3">
+                          {CONDITIONAL_MATCH_CRITERIA.map(criterion => (
+                            <label key={criterion.key} className="flex items-center gap-3 text-sm">
+                              <Checkbox
+                                checked={conditionalCreate.criteria.includes(criterion.key)}
+                                onCheckedChange={checked => toggleMatchCriterion(criterion.key, checked === true)}
+                              />
+                              {criterion.label}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div className="rounded-xl bg-muted/30 border border-muted/50 p-3 font-mono text-xs break-all">
+                        <span className="text-medical-blue">If-None-Exist</span>:{' '}
+                        {buildConditionalCreateQuery(generateFHIRResource(), conditionalCreate.criteria) || (
+                          <span className="text-muted-foreground">(no criteria with values yet)</span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {localWarnings.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-foreground">Warnings <span className="text-muted-foreground font-normal">(do not block saving)</span></Label>
+                  <OperationOutcomeIssues outcome={{ resourceType: 'OperationOutcome', issue: localWarnings }} />
                 </div>
+              )}
 
-                <div>
-                  <Label htmlFor="phone" className="text-sm font-medium text-foreground">
-                    Phone Number <span className="text-error">*</span>
-                  </Label>
-                  <Input
-                    id="phone"
-                    value={patientData.phone}
-                    onChange={(e) => handleInputChange('phone', e.target.value)}
-                    placeholder="Enter phone number"
-                    className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20"
-                    required
-                  />
+              {form.formState.errors.root?.schema && (
+                <div className="rounded-xl border border-error/20 bg-error/10 p-4 text-sm text-error">
+                  <p className="font-semibold">The generated resource is not a valid R4 Patient</p>
+                  <p>{form.formState.errors.root.schema.message}</p>
                 </div>
+              )}
 
+              <div className="space-y-3">
                 <div>
-                  <Label htmlFor="address" className="text-sm font-medium text-foreground">
-                    Address <span className="text-error">*</span>
+                  <Label htmlFor="validation-profile" className="text-sm font-medium text-foreground">
+                    Validation Profile <span className="text-muted-foreground font-normal">(optional, for Validate on Server)</span>
                   </Label>
                   <Input
-                    id="address"
-                    value={patientData.address}
-                    onChange={(e) => handleInputChange('address', e.target.value)}
-                    placeholder="Enter full address"
-                    className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20"
-                    required
+                    id="validation-profile"
+                    value={validationProfile}
+                    onChange={e => setValidationProfile(e.target.value)}
+                    placeholder="http://hl7.org/fhir/us/core/StructureDefinition/us-core-patient"
+                    className={`${inputClassName} font-mono text-sm`}
                   />
                 </div>
-              </div>
-            </div>
-
-            {/* Optional Fields */}
-            <div className="border-t border-muted/30 pt-8">
-              <h3 className="text-lg font-semibold text-foreground mb-6 flex items-center gap-2">
-                <span className="w-2 h-2 bg-medical-cyan rounded-full"></span>
-                Optional Information
-              </h3>
-              
-              {patientData.optionalFields.map((field, index) => (
-                <div key={field.key} className="flex items-center gap-3 mb-4">
-                  <div className="flex-1">
-                    <Label htmlFor={`optional-${field.key}`} className="text-sm font-medium text-foreground">
-                      {field.label}
-                    </Label>
-                    <Input
-                      id={`optional-${field.key}`}
-                      value={field.value}
-                      onChange={(e) => handleOptionalFieldChange(index, e.target.value)}
-                      placeholder={`Enter ${field.label.toLowerCase()}`}
-                      className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20"
-                    />
-                  </div>
+                <div className="flex flex-col md:flex-row gap-3">
                   <Button
                     type="button"
                     variant="outline"
-                    size="sm"
-                    onClick={() => removeOptionalField(index)}
-                    className="mt-7 rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+                    onClick={handleValidateOnServer}
+                    disabled={isValidating || isLoading}
+                    className="py-4 h-auto rounded-xl border-medical-blue/30 text-medical-blue font-semibold hover:bg-medical-blue/10"
                   >
-                    <X className="h-4 w-4" />
+                    <ShieldCheck className="h-5 w-5 mr-2" />
+                    {isValidating ? 'Validating...' : 'Validate on Server'}
+                  </Button>
+                  <Button 
+                    type="submit" 
+                    disabled={isLoading} 
+                    className="flex-1 py-4 rounded-xl bg-gradient-primary text-white font-semibold shadow-medical hover:shadow-glow transition-all duration-300 hover:scale-[1.02] disabled:opacity-50 disabled:transform-none"
+                  >
+                    {isLoading ? (
+                      <div className="flex items-center gap-2">
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                        Processing...
+                      </div>
+                    ) : (
+                      <>
+                        <Send className="h-5 w-5 mr-2" />
+                        {baseVersion ? 'Update Patient' : 'Create Patient'}
+                      </>
+                    )}
                   </Button>
                 </div>
-              ))}
-
-              {availableOptionalFields.length > 0 && (
-                <div className="flex items-center gap-3 mt-6">
-                  <Select onValueChange={addOptionalField}>
-                    <SelectTrigger className="w-60 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
-                      <SelectValue placeholder="Add optional field" />
-                    </SelectTrigger>
-                    <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
-                      {availableOptionalFields.map(option => (
-                        <SelectItem key={option.key} value={option.key}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <Badge variant="secondary" className="text-xs bg-medical-light/50 text-medical-blue border-medical-blue/20">
-                    {availableOptionalFields.length} available
-                  </Badge>
-                </div>
-              )}
-            </div>
-
-            <Button 
-              type="submit" 
-              disabled={isLoading} 
-              className="w-full py-4 rounded-xl bg-gradient-primary text-white font-semibold shadow-medical hover:shadow-glow transition-all duration-300 hover:scale-[1.02] disabled:opacity-50 disabled:transform-none"
-            >
-              {isLoading ? (
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                  Processing...
-                </div>
-              ) : (
-                <>
-                  <Send className="h-5 w-5 mr-2" />
-                  Create Patient
-                </>
-              )}
-            </Button>
-          </form>
+              </div>
+            </form>
+          </Form>
         </div>
       </div>
 
-      {/* Response Display */}
-      {response && (
-        <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
-          <div className="bg-gradient-to-r from-medical-green/10 to-medical-cyan/10 p-6 border-b border-white/20">
-            <div className="flex items-center gap-3">
-              <div className="p-3 rounded-2xl bg-medical-green shadow-md">
-                <Send className="h-6 w-6 text-white" />
-              </div>
-              <div>
-                <h3 className="text-xl font-bold text-medical-green">Patient Created Successfully</h3>
-                <p className="text-muted-foreground">FHIR Patient resource has been generated</p>
-              </div>
-            </div>
-          </div>
-          <div className="p-6">
-            <div className="rounded-2xl bg-muted/30 border border-muted/50 p-6 overflow-hidden">
-              <pre className="text-sm font-mono text-foreground overflow-x-auto whitespace-pre-wrap">
-                {response}
-              </pre>
-            </div>
+      {conflict && (
+        <VersionConflictDialog
+          open
+          ours={conflict.ours}
+          theirs={conflict.theirs}
+          conflicts={conflict.theirs ? mergeResourceVersions(baseVersion, conflict.ours, conflict.theirs).conflicts : []}
+          isLoading={isLoading}
+          onOverwrite={handleOverwrite}
+          onMerge={handleMerge}
+          onLoadServerVersion={handleLoadServerVersion}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
+      {validation && <ServerValidationReport validation={validation} />}
+
+      {validationResponse && (
+        <FHIRResponseCard
+          response={validationResponse}
+          title="Server Validation Response"
+          description="Result of Patient/$validate; nothing was stored"
+        />
+      )}
+
+      {/* Conditional Create Outcome */}
+      {conditionalOutcome && (
+        <div
+          className={`flex items-center gap-3 p-6 rounded-3xl border ${
+            conditionalOutcome.status === 412
+              ? 'bg-error/10 border-error/20 text-error'
+              : conditionalOutcome.status === 200
+                ? 'bg-medical-blue/10 border-medical-blue/20 text-medical-blue'
+                : 'bg-medical-green/10 border-medical-green/20 text-medical-green'
+          }`}
+        >
+          {conditionalOutcome.status === 412 ? <XCircle className="h-6 w-6 shrink-0" /> : <CheckCircle2 className="h-6 w-6 shrink-0" />}
+          <div>
+            <p className="font-semibold">
+              {conditionalOutcome.status === 412
+                ? '412 Precondition Failed — multiple patients match'
+                : conditionalOutcome.status === 200
+                  ? `200 OK — matched existing ${conditionalOutcome.id ? `Patient/${conditionalOutcome.id}` : 'patient'}; nothing was created`
+                  : `201 Created — no match, created ${conditionalOutcome.id ? `Patient/${conditionalOutcome.id}` : 'a new patient'}`}
+            </p>
+            <p className="text-sm text-muted-foreground font-mono break-all">If-None-Exist: {conditionalOutcome.query}</p>
           </div>
         </div>
       )}
+
+      {/* Response Display */}
+      {response && (
+        <FHIRResponseCard
+          response={response}
+          title={response.ok
+            ? baseVersion ? 'Patient Saved Successfully' : conditionalOutcome?.status === 200 ? 'Existing Patient Matched' : 'Patient Created Successfully'
+            : baseVersion ? 'Patient Update Failed' : 'Patient Creation Failed'}
+          description={response.ok ? 'FHIR Patient resource returned by the server' : 'The server rejected the Patient resource'}
+        />
+      )}
     </div>
   );
 };
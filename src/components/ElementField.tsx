@@ -0,0 +1,203 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { clearChoiceValue, getChoiceValue, setChoiceValue } from '@/lib/fhir/choice-types';
+import {
+  choiceBase,
+  ElementNode,
+  elementLabel,
+  isChoiceElement,
+  isProhibited,
+  isRepeating,
+  maxOccurrences,
+  mustSupportElements,
+  newElementValue,
+} from '@/lib/fhir/structure-definition';
+import type { Coding } from '@/lib/fhir/types';
+
+interface ElementFieldProps {
+  node: ElementNode;
+  /** The object the element belongs to; the field reads and writes its own key(s) in it. */
+  parent: Record<string, unknown>;
+  onChange: (parent: Record<string, unknown>) => void;
+  mustSupportOnly: boolean;
+}
+
+const inputClassName = 'mt-1 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+
+const NUMBER_TYPES = ['integer', 'positiveInt', 'unsignedInt', 'decimal'];
+const MONOSPACE_TYPES = ['uri', 'url', 'canonical', 'id', 'oid', 'code', 'base64Binary'];
+
+const placeholders: Record<string, string> = {
+  dateTime: '2024-03-01 or 2024-03-01T14:30:00+01:00',
+  instant: '2024-03-01T14:30:00Z',
+  uri: 'http://example.org/...',
+  url: 'https://example.org/...',
+};
+
+interface PrimitiveInputProps {
+  type: string;
+  codes?: Coding[];
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+// Blank inputs store '' and are pruned from the generated resource.
+const PrimitiveInput = ({ type, codes, value, onChange }: PrimitiveInputProps) => {
+  if (type === 'boolean' || codes) {
+    const options = codes || [{ code: 'true', display: 'true' }, { code: 'false', display: 'false' }];
+    return (
+      <Select
+        value={value === undefined || value === '' ? 'none' : String(value)}
+        onValueChange={selected => onChange(selected === 'none' ? '' : type === 'boolean' ? selected === 'true' : selected)}
+      >
+        <SelectTrigger className={inputClassName}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">—</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option.code} value={option.code}>
+              {option.display}
+              {option.display !== option.code && <span className="ml-2 font-mono text-xs text-muted-foreground">{option.code}</span>}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (NUMBER_TYPES.includes(type)) {
+    return (
+      <Input
+        type="number"
+        value={value === undefined ? '' : String(value)}
+        onChange={e => onChange(e.target.value === '' ? '' : Number(e.target.value))}
+        className={inputClassName}
+      />
+    );
+  }
+
+  return (
+    <Input
+      type={type === 'date' ? 'date' : 'text'}
+      value={typeof value === 'string' ? value : ''}
+      onChange={e => onChange(e.target.value)}
+      placeholder={placeholders[type]}
+      className={`${inputClassName} ${MONOSPACE_TYPES.includes(type) ? 'font-mono' : ''}`}
+    />
+  );
+};
+
+const ElementField = ({ node, parent, onChange, mustSupportOnly }: ElementFieldProps) => {
+  if (isProhibited(node)) return null;
+
+  const choice = isChoiceElement(node);
+  const variant = choice ? getChoiceValue(parent, choiceBase(node)) : undefined;
+  const type = choice ? variant?.type || '' : node.types[0] || 'string';
+  const value = choice ? variant?.value : parent[node.name];
+  const children = mustSupportOnly ? mustSupportElements(node.children) : node.children;
+
+  const setValue = (next: unknown) =>
+    onChange(choice ? setChoiceValue(parent, choiceBase(node), type, next) : { ...parent, [node.name]: next });
+
+  const changeType = (next: string) =>
+    onChange(next === 'none' ? clearChoiceValue(parent, choiceBase(node)) : setChoiceValue(parent, choiceBase(node), next, ''));
+
+  const renderValue = (itemValue: unknown, onItemChange: (value: unknown) => void) =>
+    children.length > 0 ? (
+      <div className="mt-1 rounded-xl border border-muted/40 p-4 space-y-4">
+        {children.map(child => (
+          <ElementField
+            key={child.path}
+            node={child}
+            parent={(itemValue as Record<string, unknown>) || {}}
+            onChange={onItemChange}
+            mustSupportOnly={mustSupportOnly}
+          />
+        ))}
+      </div>
+    ) : (
+      <PrimitiveInput type={type} codes={node.codes} value={itemValue} onChange={onItemChange} />
+    );
+
+  const items = Array.isArray(value) ? value : [];
+
+  return (
+    <div>
+      <Label className="text-sm font-medium text-foreground flex flex-wrap items-center gap-2" title={node.short}>
+        {elementLabel(node)}
+        {node.min > 0 && <span className="text-error">*</span>}
+        {node.mustSupport && (
+          <Badge variant="secondary" className="text-[10px] px-1.5 py-0 bg-medical-light/60 text-medical-blue border-medical-blue/20">
+            MS
+          </Badge>
+        )}
+        <span className="font-mono text-xs text-muted-foreground font-normal">
+          {node.min}..{node.max} {node.types.join(' | ')}
+        </span>
+      </Label>
+      {children.length > 0 && node.short && <p className="text-xs text-muted-foreground">{node.short}</p>}
+
+      {choice && (
+        <Select value={type || 'none'} onValueChange={changeType}>
+          <SelectTrigger className={inputClassName}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Not set</SelectItem>
+            {node.types.map(option => (
+              <SelectItem key={option} value={option}>
+                <span className="font-mono">{choiceBase(node)}{option.charAt(0).toUpperCase() + option.slice(1)}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {choice ? (
+        type && renderValue(value, setValue)
+      ) : isRepeating(node) ? (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1">
+                {renderValue(item, next => setValue(items.map((existing, i) => (i === index ? next : existing))))}
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setValue(items.filter((_, i) => i !== index))}
+                className="mt-1 rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+                aria-label={`Remove ${elementLabel(node)} ${index + 1}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {items.length < maxOccurrences(node) && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="mt-1 rounded-xl"
+              onClick={() => setValue([...items, newElementValue(node)])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add {elementLabel(node)}
+            </Button>
+          )}
+        </div>
+      ) : (
+        renderValue(value, setValue)
+      )}
+    </div>
+  );
+};
+
+export default ElementField;
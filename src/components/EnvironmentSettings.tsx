@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Database, Pencil, Plus, Settings, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import {
+  createEnvironmentId,
+  FHIR_VERSIONS,
+  FHIREnvironment,
+  FHIRVersion,
+  formatHeaderLines,
+  isMockEnvironment,
+  parseHeaderLines,
+} from '@/lib/fhir/environments';
+import { MOCK_FHIR_BASE_URL, resetMockFHIRServer } from '@/lib/fhir/mock-server';
+import { getRedirectUri, SMART_SCOPE_OPTIONS } from '@/lib/fhir/smart-auth';
+
+interface EnvironmentDraft {
+  id: string | null;
+  name: string;
+  baseUrl: string;
+  headers: string;
+  timeout: string;
+  fhirVersion: FHIRVersion;
+  smartEnabled: boolean;
+  smartClientId: string;
+  smartScopes: string[];
+}
+
+const emptyDraft: EnvironmentDraft = {
+  id: null,
+  name: '',
+  baseUrl: '',
+  headers: '',
+  timeout: '30000',
+  fhirVersion: 'R4',
+  smartEnabled: false,
+  smartClientId: '',
+  smartScopes: ['patient/Patient.rs', 'launch/patient', 'offline_access'],
+};
+
+const toDraft = (environment: FHIREnvironment): EnvironmentDraft => ({
+  id: environment.id,
+  name: environment.name,
+  baseUrl: environment.baseUrl,
+  headers: formatHeaderLines(environment.headers),
+  timeout: String(environment.timeout),
+  fhirVersion: environment.fhirVersion,
+  smartEnabled: environment.smart?.enabled ?? false,
+  smartClientId: environment.smart?.clientId ?? '',
+  smartScopes: environment.smart?.scopes ?? emptyDraft.smartScopes,
+});
+
+const inputClassName = 'mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+
+const EnvironmentSettings = () => {
+  const { toast } = useToast();
+  const { environments, activeEnvironment, saveEnvironment, removeEnvironment, setActiveEnvironment } = useFHIREnvironment();
+  const [draft, setDraft] = useState<EnvironmentDraft>(emptyDraft);
+
+  const handleDraftChange = (field: keyof EnvironmentDraft, value: string | boolean) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      smartScopes: checked ? [...prev.smartScopes, scope] : prev.smartScopes.filter(s => s !== scope),
+    }));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const timeout = Number(draft.timeout);
+    if (!draft.name.trim() || !/^https?:\/\//i.test(draft.baseUrl.trim()) || !Number.isFinite(timeout) || timeout <= 0) {
+      toast({
+        title: 'Validation Error',
+        description: 'Each environment needs a name, an http(s) base URL and a positive timeout.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (draft.smartEnabled && (!draft.smartClientId.trim() || draft.smartScopes.length === 0)) {
+      toast({
+        title: 'Validation Error',
+        description: 'SMART authorization needs a client ID and at least one scope.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    saveEnvironment({
+      id: draft.id || createEnvironmentId(),
+      name: draft.name.trim(),
+      baseUrl: draft.baseUrl.trim().replace(/\/+$/, ''),
+      headers: parseHeaderLines(draft.headers),
+      timeout,
+      fhirVersion: draft.fhirVersion,
+      smart: {
+        enabled: draft.smartEnabled,
+        clientId: draft.smartClientId.trim(),
+        scopes: draft.smartScopes,
+      },
+    });
+    toast({
+      title: draft.id ? 'Environment Updated' : 'Environment Added',
+      description: `${draft.name.trim()} has been saved.`,
+    });
+    setDraft(emptyDraft);
+  };
+
+  const handleResetMock = async () => {
+    try {
+      await resetMockFHIRServer();
+      toast({
+        title: 'Mock Server Reset',
+        description: 'All resources stored by the in-browser mock server have been removed.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reset the mock server.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={open => !open && setDraft(emptyDraft)}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-xl" aria-label="Manage FHIR environments">
+          <Settings className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto rounded-3xl bg-white/95 backdrop-blur-xl">
+        <DialogHeader>
+          <DialogTitle>FHIR Environments</DialogTitle>
+          <DialogDescription>
+            Requests from every form are sent to the active environment. Settings are stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {environments.map(environment => (
+            <div
+              key={environment.id}
+              className="flex items-center gap-3 p-4 rounded-xl bg-medical-light/30 border border-medical-blue/20"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-foreground">{environment.name}</p>
+                  <Badge variant="secondary" className="text-xs bg-medical-light/50 text-medical-blue border-medical-blue/20">
+                    {environment.fhirVersion}
+                  </Badge>
+                  {environment.id === activeEnvironment.id && (
+                    <Badge className="text-xs bg-medical-green text-white">Active</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground font-mono truncate">{environment.baseUrl}</p>
+              </div>
+              {isMockEnvironment(environment) && (
+                <Button type="button" variant="outline" size="sm" className="rounded-xl" onClick={handleResetMock}>
+                  <Database className="h-4 w-4 mr-1" />
+                  Reset
+                </Button>
+              )}
+              {environment.id !== activeEnvironment.id && (
+                <Button type="button" variant="outline" size="sm" className="rounded-xl" onClick={() => setActiveEnvironment(environment.id)}>
+                  Use
+                </Button>
+              )}
+              <Button type="button" variant="outline" size="sm" className="rounded-xl" onClick={() => setDraft(toDraft(environment))}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+                disabled={environments.length === 1}
+                onClick={() => removeEnvironment(environment.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-4 border-t border-muted/30 pt-6">
+          <h3 className="text-lg font-semibold text-foreground">
+            {draft.id ? `Edit ${draft.name || 'environment'}` : 'Add environment'}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="env-name">Name</Label>
+              <Input id="env-name" value={draft.name} onChange={e => handleDraftChange('name', e.target.value)} placeholder="Staging" className={inputClassName} />
+            </div>
+            <div>
+              <Label htmlFor="env-version">FHIR Version</Label>
+              <Select value={draft.fhirVersion} onValueChange={value => handleDraftChange('fhirVersion', value)}>
+                <SelectTrigger id="env-version" className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
+                  {Object.entries(FHIR_VERSIONS).map(([version, number]) => (
+                    <SelectItem key={version} value={version}>
+                      {version} ({number})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="env-base-url">Base URL</Label>
+              <Input id="env-base-url" value={draft.baseUrl} onChange={e => handleDraftChange('baseUrl', e.target.value)} placeholder="https://staging.example.org/fhir" className={inputClassName} />
+              <p className="text-xs text-muted-foreground mt-1">
+                Use <span className="font-mono">{MOCK_FHIR_BASE_URL}</span> for the in-browser mock server.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="env-timeout">Timeout (ms)</Label>
+              <Input id="env-timeout" type="number" min={1} value={draft.timeout} onChange={e => handleDraftChange('timeout', e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="env-headers">Default Headers</Label>
+            <Textarea
+              id="env-headers"
+              value={draft.headers}
+              onChange={e => handleDraftChange('headers', e.target.value)}
+              placeholder={'X-Api-Key: secret\nPrefer: return=representation'}
+              className={`${inputClassName} font-mono text-sm`}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-4 rounded-xl border border-muted/40 p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="env-smart">SMART on FHIR Authorization</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Standalone launch with PKCE. Register <span className="font-mono">{getRedirectUri()}</span> as the redirect URI.
+                </p>
+              </div>
+              <Switch id="env-smart" checked={draft.smartEnabled} onCheckedChange={checked => handleDraftChange('smartEnabled', checked)} />
+            </div>
+            {draft.smartEnabled && (
+              <>
+                <div>
+                  <Label htmlFor="env-client-id">Client ID</Label>
+                  <Input id="env-client-id" value={draft.smartClientId} onChange={e => handleDraftChange('smartClientId', e.target.value)} placeholder="my-test-app" className={inputClassName} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Scopes</Label>
+                  {SMART_SCOPE_OPTIONS.map(option => (
+                    <label key={option.scope} className="flex items-center gap-3 text-sm">
+                      <Checkbox
+                        checked={draft.smartScopes.includes(option.scope)}
+                        onCheckedChange={checked => toggleScope(option.scope, checked === true)}
+                      />
+                      <span className="font-mono">{option.scope}</span>
+                      <span className="text-muted-foreground">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+          <div className="flex gap-3 justify-end">
+            {draft.id && (
+              <Button type="button" variant="outline" className="rounded-xl" onClick={() => setDraft(emptyDraft)}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" className="rounded-xl bg-gradient-primary text-white">
+              <Plus className="h-4 w-4 mr-2" />
+              {draft.id ? 'Save Changes' : 'Add Environment'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EnvironmentSettings;
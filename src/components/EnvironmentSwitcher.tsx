@@ -0,0 +1,68 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, LogIn, LogOut, Server } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import EnvironmentSettings from './EnvironmentSettings';
+
+const EnvironmentSwitcher = () => {
+  const { toast } = useToast();
+  const { environments, activeEnvironment, setActiveEnvironment, smartSession, signIn, signOut } = useFHIREnvironment();
+
+  const handleSignIn = async () => {
+    try {
+      await signIn();
+    } catch (error) {
+      toast({
+        title: 'Authorization Failed',
+        description: error instanceof Error ? error.message : 'Could not start SMART authorization.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 pl-3 border-l border-muted/40">
+      <Server className="h-5 w-5 text-medical-blue shrink-0" />
+      <Select value={activeEnvironment.id} onValueChange={setActiveEnvironment}>
+        <SelectTrigger className="w-56 rounded-xl border-muted bg-white/50 backdrop-blur-sm" aria-label="Active FHIR environment">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
+          {environments.map(environment => (
+            <SelectItem key={environment.id} value={environment.id}>
+              {environment.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeEnvironment.smart?.enabled && (
+        smartSession ? (
+          <>
+            <Badge
+              variant="secondary"
+              className="flex items-center gap-1 bg-medical-green/15 text-medical-green border-medical-green/20"
+              title={smartSession.scope}
+            >
+              <KeyRound className="h-3 w-3" />
+              Signed in{smartSession.patient ? ` • Patient/${smartSession.patient}` : ''}
+            </Badge>
+            <Button variant="ghost" size="icon" className="rounded-xl" onClick={signOut} aria-label="Sign out">
+              <LogOut className="h-5 w-5" />
+            </Button>
+          </>
+        ) : (
+          <Button variant="outline" size="sm" className="rounded-xl" onClick={handleSignIn}>
+            <LogIn className="h-4 w-4 mr-2" />
+            Sign in
+          </Button>
+        )
+      )}
+      <EnvironmentSettings />
+    </div>
+  );
+};
+
+export default EnvironmentSwitcher;
@@ -0,0 +1,224 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { emptyAddressFormValue } from '@/lib/fhir/addresses';
+import {
+  emptyExtensionFormValue,
+  EXTENSION_VALUE_TYPES,
+  ExtensionFormValue,
+  ExtensionValueType,
+  KNOWN_PATIENT_EXTENSIONS,
+  validateExtensionFormValue,
+} from '@/lib/fhir/extensions';
+import AddressEditor from './AddressEditor';
+
+interface ExtensionEditorProps {
+  extensions: ExtensionFormValue[];
+  onChange: (extensions: ExtensionFormValue[]) => void;
+  /** Server-side error for the whole element, e.g. from an OperationOutcome. */
+  error?: string;
+  /** Nested extensions of a complex extension: URLs are usually short names, e.g. `code`. */
+  nested?: boolean;
+}
+
+const inputClassName = 'mt-1 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+const errorInputClassName = 'mt-1 rounded-xl border-error bg-error/5 backdrop-blur-sm ring-1 ring-error/30 focus:border-error focus:ring-error/30';
+
+const ExtensionEditor = ({ extensions, onChange, error, nested = false }: ExtensionEditorProps) => {
+  const updateExtension = (index: number, changes: Partial<ExtensionFormValue>) => {
+    onChange(extensions.map((extension, i) => (i === index ? { ...extension, ...changes } : extension)));
+  };
+
+  // A known URL picks its value type, unless a value has already been entered.
+  const changeUrl = (index: number, url: string) => {
+    const known = KNOWN_PATIENT_EXTENSIONS.find(extension => extension.url === url.trim());
+    const current = extensions[index];
+    const pristine = !current.value && !current.code && !current.text && !current.reference && current.extensions.length === 0;
+    updateExtension(index, known && pristine ? { url, type: known.type } : { url });
+  };
+
+  const changeType = (index: number, type: string) => {
+    const current = extensions[index];
+    onChange(extensions.map((extension, i) => (i === index
+      ? {
+          ...emptyExtensionFormValue,
+          url: current.url,
+          type: type === 'complex' ? '' : type as ExtensionValueType,
+          value: type === 'boolean' ? 'true' : '',
+          extensions: type === 'complex' ? current.extensions : [],
+        }
+      : extension)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {!nested && (
+        <datalist id="extension-urls">
+          {KNOWN_PATIENT_EXTENSIONS.map(extension => (
+            <option key={extension.url} value={extension.url}>{extension.label}</option>
+          ))}
+        </datalist>
+      )}
+
+      {extensions.map((extension, index) => {
+        const validationError = extension.url ? validateExtensionFormValue(extension) : null;
+
+        return (
+          <div key={index} className="rounded-2xl border border-muted/40 p-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+              <div className="md:col-span-7">
+                <Label className="text-xs">URL</Label>
+                <Input
+                  value={extension.url}
+                  onChange={e => changeUrl(index, e.target.value)}
+                  list={nested ? undefined : 'extension-urls'}
+                  placeholder={nested ? 'code' : 'http://example.org/fhir/StructureDefinition/my-extension'}
+                  className={`${validationError ? errorInputClassName : inputClassName} font-mono text-sm`}
+                />
+              </div>
+              <div className="md:col-span-4">
+                <Label className="text-xs">Value Type</Label>
+                <Select value={extension.type || 'complex'} onValueChange={type => changeType(index, type)}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXTENSION_VALUE_TYPES.map(({ type, label }) => (
+                      <SelectItem key={type} value={type}>
+                        {label} <span className="font-mono text-xs text-muted-foreground">value{type.charAt(0).toUpperCase() + type.slice(1)}</span>
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="complex">Complex (nested extensions)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-1 flex items-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onChange(extensions.filter((_, i) => i !== index))}
+                  className="rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+                  aria-label="Remove extension"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {(extension.type === 'string' || extension.type === 'code' || extension.type === 'date') && (
+              <div>
+                <Label className="text-xs">Value</Label>
+                <Input
+                  type={extension.type === 'date' ? 'date' : 'text'}
+                  value={extension.value}
+                  onChange={e => updateExtension(index, { value: e.target.value })}
+                  className={`${inputClassName} ${extension.type === 'code' ? 'font-mono' : ''}`}
+                />
+              </div>
+            )}
+
+            {extension.type === 'boolean' && (
+              <div className="md:w-40">
+                <Label className="text-xs">Value</Label>
+                <Select value={extension.value} onValueChange={value => updateExtension(index, { value })}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="true">true</SelectItem>
+                    <SelectItem value="false">false</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {(extension.type === 'Coding' || extension.type === 'CodeableConcept') && (
+              <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+                <div className="md:col-span-5">
+                  <Label className="text-xs">System</Label>
+                  <Input
+                    value={extension.system}
+                    onChange={e => updateExtension(index, { system: e.target.value })}
+                    placeholder="http://snomed.info/sct"
+                    className={`${inputClassName} font-mono text-sm`}
+                  />
+                </div>
+                <div className="md:col-span-3">
+                  <Label className="text-xs">Code</Label>
+                  <Input value={extension.code} onChange={e => updateExtension(index, { code: e.target.value })} className={`${inputClassName} font-mono`} />
+                </div>
+                <div className="md:col-span-4">
+                  <Label className="text-xs">Display</Label>
+                  <Input value={extension.display} onChange={e => updateExtension(index, { display: e.target.value })} className={inputClassName} />
+                </div>
+                {extension.type === 'CodeableConcept' && (
+                  <div className="md:col-span-12">
+                    <Label className="text-xs">Text</Label>
+                    <Input value={extension.text} onChange={e => updateExtension(index, { text: e.target.value })} className={inputClassName} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {extension.type === 'Reference' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs">Reference</Label>
+                  <Input
+                    value={extension.reference}
+                    onChange={e => updateExtension(index, { reference: e.target.value })}
+                    placeholder="Organization/123"
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Display</Label>
+                  <Input value={extension.display} onChange={e => updateExtension(index, { display: e.target.value })} className={inputClassName} />
+                </div>
+              </div>
+            )}
+
+            {extension.type === 'Address' && (
+              <AddressEditor
+                addresses={[extension.address]}
+                onChange={addresses => updateExtension(index, { address: addresses[0] ?? emptyAddressFormValue })}
+                maxItems={1}
+              />
+            )}
+
+            {extension.type === '' && (
+              <div className="border-l-2 border-medical-blue/20 pl-4">
+                <ExtensionEditor
+                  extensions={extension.extensions}
+                  onChange={children => updateExtension(index, { extensions: children })}
+                  nested
+                />
+              </div>
+            )}
+
+            {validationError && <p className="text-xs text-error">{validationError}</p>}
+          </div>
+        );
+      })}
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      <Button
+        type="button"
+        variant="outline"
+        size={nested ? 'sm' : 'default'}
+        className="rounded-xl"
+        onClick={() => onChange([...extensions, emptyExtensionFormValue])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        {nested ? 'Add Nested Extension' : 'Add Extension'}
+      </Button>
+    </div>
+  );
+};
+
+export default ExtensionEditor;
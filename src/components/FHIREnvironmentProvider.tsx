@@ -0,0 +1,131 @@
+import * as React from 'react';
+import { FHIREnvironmentContext } from '@/hooks/use-fhir-environment';
+import { toast } from '@/hooks/use-toast';
+import { createFHIRClient } from '@/lib/fhir/client';
+import {
+  FHIREnvironment,
+  loadActiveEnvironmentId,
+  loadEnvironments,
+  saveActiveEnvironmentId,
+  saveEnvironments,
+  toClientConfig,
+} from '@/lib/fhir/environments';
+import {
+  beginSmartAuthorization,
+  clearSmartSession,
+  completeSmartAuthorization,
+  loadSmartSession,
+  SmartSession,
+  subscribeToSmartSessions,
+} from '@/lib/fhir/smart-auth';
+
+export function FHIREnvironmentProvider({ children }: { children: React.ReactNode }) {
+  const [environments, setEnvironments] = React.useState<FHIREnvironment[]>(loadEnvironments);
+  const [activeId, setActiveId] = React.useState<string>(
+    () => loadActiveEnvironmentId() || environments[0].id
+  );
+
+  const activeEnvironment = environments.find(env => env.id === activeId) || environments[0];
+
+  const [smartSession, setSmartSession] = React.useState<SmartSession | null>(null);
+
+  React.useEffect(() => {
+    setSmartSession(loadSmartSession(activeEnvironment.id));
+  }, [activeEnvironment.id]);
+
+  // Token refreshes happen inside requests; keep the shown session (and its expiry) current.
+  React.useEffect(
+    () => subscribeToSmartSessions((environmentId, session) => {
+      if (environmentId === activeEnvironment.id) setSmartSession(session);
+    }),
+    [activeEnvironment.id]
+  );
+
+  // Finish a SMART launch when the authorization server redirects back here.
+  React.useEffect(() => {
+    const url = new URL(window.location.href);
+    completeSmartAuthorization(url)
+      .then(environmentId => {
+        if (!environmentId) return;
+        window.history.replaceState(null, '', url.pathname);
+        setActiveId(environmentId);
+        saveActiveEnvironmentId(environmentId);
+        setSmartSession(loadSmartSession(environmentId));
+        toast({ title: 'Signed In', description: 'SMART authorization completed.' });
+      })
+      .catch(error => {
+        window.history.replaceState(null, '', url.pathname);
+        toast({
+          title: 'Authorization Failed',
+          description: error instanceof Error ? error.message : 'SMART authorization failed.',
+          variant: 'destructive',
+        });
+      });
+  }, []);
+
+  const client = React.useMemo(
+    () => createFHIRClient(toClientConfig(activeEnvironment)),
+    [activeEnvironment]
+  );
+
+  const signIn = React.useCallback(async () => {
+    if (!activeEnvironment.smart?.enabled) {
+      throw new Error(`SMART authorization is not enabled for ${activeEnvironment.name}.`);
+    }
+    await beginSmartAuthorization(activeEnvironment.id, activeEnvironment.baseUrl, activeEnvironment.smart);
+  }, [activeEnvironment]);
+
+  const signOut = React.useCallback(() => {
+    clearSmartSession(activeEnvironment.id);
+    setSmartSession(null);
+  }, [activeEnvironment.id]);
+
+  const updateEnvironments = React.useCallback((next: FHIREnvironment[]) => {
+    setEnvironments(next);
+    saveEnvironments(next);
+  }, []);
+
+  const setActiveEnvironment = React.useCallback((id: string) => {
+    setActiveId(id);
+    saveActiveEnvironmentId(id);
+  }, []);
+
+  const saveEnvironment = React.useCallback(
+    (environment: FHIREnvironment) => {
+      const exists = environments.some(env => env.id === environment.id);
+      updateEnvironments(
+        exists
+          ? environments.map(env => (env.id === environment.id ? environment : env))
+          : [...environments, environment]
+      );
+    },
+    [environments, updateEnvironments]
+  );
+
+  const removeEnvironment = React.useCallback(
+    (id: string) => {
+      const remaining = environments.filter(env => env.id !== id);
+      if (remaining.length === 0) return;
+      updateEnvironments(remaining);
+      if (id === activeId) setActiveEnvironment(remaining[0].id);
+    },
+    [environments, activeId, updateEnvironments, setActiveEnvironment]
+  );
+
+  const value = React.useMemo(
+    () => ({
+      environments,
+      activeEnvironment,
+      client,
+      smartSession,
+      signIn,
+      signOut,
+      setActiveEnvironment,
+      saveEnvironment,
+      removeEnvironment,
+    }),
+    [environments, activeEnvironment, client, smartSession, signIn, signOut, setActiveEnvironment, saveEnvironment, removeEnvironment]
+  );
+
+  return <FHIREnvironmentContext.Provider value={value}>{children}</FHIREnvironmentContext.Provider>;
+}
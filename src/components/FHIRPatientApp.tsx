@@ -1,18 +1,68 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Heart, UserPlus, Search } from 'lucide-react';
+import { Heart, UserPlus, Search, ListFilter, FileCode, BookOpen } from 'lucide-react';
 import CreatePatientForm from './CreatePatientForm';
 import GetPatientForm from './GetPatientForm';
+import SearchPatientForm from './SearchPatientForm';
+import StructureDefinitionForm from './StructureDefinitionForm';
+import TerminologyExplorer from './TerminologyExplorer';
+import EnvironmentSwitcher from './EnvironmentSwitcher';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import type { CodingInsertion } from '@/lib/fhir/terminology';
+import type { Patient } from '@/lib/fhir/types';
 
-type Mode = 'create' | 'get';
+type Mode = 'create' | 'get' | 'search' | 'profile-form' | 'terminology';
+
+const modes: Array<{ mode: Mode; label: string; icon: typeof Search; indicator: string; dotClassName: string }> = [
+  { mode: 'create', label: 'Create Patient', icon: UserPlus, indicator: 'Creating New Patient', dotClassName: 'bg-medical-green' },
+  { mode: 'get', label: 'Get Patient', icon: Search, indicator: 'Retrieving Patient Data', dotClassName: 'bg-medical-cyan' },
+  { mode: 'search', label: 'Search Patients', icon: ListFilter, indicator: 'Searching Patients', dotClassName: 'bg-medical-blue' },
+  { mode: 'profile-form', label: 'Profile Form', icon: FileCode, indicator: 'Building Patient From StructureDefinition', dotClassName: 'bg-medical-green' },
+  { mode: 'terminology', label: 'Terminology', icon: BookOpen, indicator: 'Exploring Terminology', dotClassName: 'bg-medical-cyan' },
+];
+
+// The patient form stays mounted behind the terminology explorer, so a draft
+// survives a trip there to pick a code.
+const keepsPatientDraft = (from: Mode, to: Mode) =>
+  from !== to && ['create', 'terminology'].includes(from) && ['create', 'terminology'].includes(to);
 
 const FHIRPatientApp = () => {
   const [mode, setMode] = useState<Mode>('create');
+  const [selectedPatientId, setSelectedPatientId] = useState<string>();
+  const [editingPatient, setEditingPatient] = useState<Patient>();
+  const [codingInsertion, setCodingInsertion] = useState<CodingInsertion>();
+  const { activeEnvironment } = useFHIREnvironment();
+  const currentMode = modes.find(m => m.mode === mode);
+
+  const selectMode = (value: Mode) => {
+    if (!keepsPatientDraft(mode, value)) {
+      setSelectedPatientId(undefined);
+      setEditingPatient(undefined);
+    }
+    setMode(value);
+  };
+
+  const insertCoding = (insertion: CodingInsertion) => {
+    setCodingInsertion(insertion);
+    setMode('create');
+  };
+
+  const clearCodingInsertion = useCallback(() => setCodingInsertion(undefined), []);
+
+  const editPatient = (patient: Patient) => {
+    setEditingPatient(patient);
+    setMode('create');
+  };
+
+  const openPatient = (id: string) => {
+    setSelectedPatientId(id);
+    setMode('get');
+  };
 
   return (
     <div className="min-h-screen bg-gradient-hero relative overflow-hidden">
@@ -44,33 +94,25 @@ const FHIRPatientApp = () => {
         </div>
 
         {/* Mode Toggle */}
-        <div className="mb-12 flex justify-center">
+        <div className="mb-12 flex justify-center sticky top-4 z-20">
           <div className="p-2 rounded-2xl bg-white/80 backdrop-blur-xl shadow-xl border border-white/20">
-            <div className="flex gap-2">
-              <Button
-                variant={mode === 'create' ? 'default' : 'ghost'}
-                onClick={() => setMode('create')}
-                className={`flex items-center gap-3 px-8 py-4 rounded-xl font-semibold transition-all duration-300 ${
-                  mode === 'create' 
-                    ? 'bg-gradient-primary text-white shadow-medical hover:shadow-glow' 
-                    : 'text-foreground hover:bg-medical-light/50'
-                }`}
-              >
-                <UserPlus className="h-5 w-5" />
-                Create Patient
-              </Button>
-              <Button
-                variant={mode === 'get' ? 'default' : 'ghost'}
-                onClick={() => setMode('get')}
-                className={`flex items-center gap-3 px-8 py-4 rounded-xl font-semibold transition-all duration-300 ${
-                  mode === 'get' 
-                    ? 'bg-gradient-primary text-white shadow-medical hover:shadow-glow' 
-                    : 'text-foreground hover:bg-medical-light/50'
-                }`}
-              >
-                <Search className="h-5 w-5" />
-                Get Patient
-              </Button>
+            <div className="flex flex-wrap items-center gap-2">
+              {modes.map(({ mode: value, label, icon: Icon }) => (
+                <Button
+                  key={value}
+                  variant={mode === value ? 'default' : 'ghost'}
+                  onClick={() => selectMode(value)}
+                  className={`flex items-center gap-3 px-8 py-4 rounded-xl font-semibold transition-all duration-300 ${
+                    mode === value
+                      ? 'bg-gradient-primary text-white shadow-medical hover:shadow-glow'
+                      : 'text-foreground hover:bg-medical-light/50'
+                  }`}
+                >
+                  <Icon className="h-5 w-5" />
+                  {label}
+                </Button>
+              ))}
+              <EnvironmentSwitcher />
             </div>
           </div>
         </div>
@@ -79,17 +121,34 @@ const FHIRPatientApp = () => {
         <div className="flex justify-center mb-8">
           <div className="px-6 py-3 rounded-full bg-white/60 backdrop-blur-sm border border-white/30 shadow-lg">
             <div className="flex items-center gap-2">
-              <div className={`w-2 h-2 rounded-full ${mode === 'create' ? 'bg-medical-green' : 'bg-medical-cyan'} animate-pulse`}></div>
+              <div className={`w-2 h-2 rounded-full ${currentMode.dotClassName} animate-pulse`}></div>
               <span className="text-sm font-medium text-foreground">
-                {mode === 'create' ? 'Creating New Patient' : 'Retrieving Patient Data'}
+                {mode === 'create' && editingPatient ? `Editing Patient ${editingPatient.id}` : currentMode.indicator}
               </span>
+              <span className="text-muted-foreground">•</span>
+              <span className="text-sm font-medium text-foreground">{activeEnvironment.name}</span>
+              <span className="text-sm font-mono text-muted-foreground">{activeEnvironment.baseUrl}</span>
             </div>
           </div>
         </div>
 
         {/* Mode-specific Forms */}
         <div className="transition-all duration-500 ease-out transform">
-          {mode === 'create' ? <CreatePatientForm /> : <GetPatientForm />}
+          {(mode === 'create' || mode === 'terminology') && (
+            <div className={mode === 'create' ? undefined : 'hidden'}>
+              <CreatePatientForm
+                key={editingPatient ? `edit-${editingPatient.id}` : 'create'}
+                existingPatient={editingPatient}
+                onCancelEdit={() => setEditingPatient(undefined)}
+                codingInsertion={codingInsertion}
+                onCodingInserted={clearCodingInsertion}
+              />
+            </div>
+          )}
+          {mode === 'get' && <GetPatientForm initialPatientId={selectedPatientId} onEditPatient={editPatient} />}
+          {mode === 'search' && <SearchPatientForm onSelectPatient={openPatient} />}
+          {mode === 'profile-form' && <StructureDefinitionForm />}
+          {mode === 'terminology' && <TerminologyExplorer onInsertCoding={insertCoding} />}
         </div>
       </div>
     </div>
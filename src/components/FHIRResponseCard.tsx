@@ -0,0 +1,82 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Send } from 'lucide-react';
+import type { FHIRResponse } from '@/lib/fhir/client';
+import { isOperationOutcome } from '@/lib/fhir/operation-outcome';
+import OperationOutcomeIssues from './OperationOutcomeIssues';
+
+interface FHIRResponseCardProps {
+  response: FHIRResponse<unknown>;
+  title: string;
+  description: string;
+}
+
+const formatBody = (response: FHIRResponse<unknown>) => {
+  if (response.body !== null) return JSON.stringify(response.body, null, 2);
+  return response.rawBody || '(empty body)';
+};
+
+const FHIRResponseCard = ({ response, title, description }: FHIRResponseCardProps) => {
+  return (
+    <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
+      <div className={`bg-gradient-to-r ${response.ok ? 'from-medical-green/10' : 'from-error/10'} to-medical-cyan/10 p-6 border-b border-white/20`}>
+        <div className="flex items-center gap-3">
+          <div className={`p-3 rounded-2xl ${response.ok ? 'bg-medical-green' : 'bg-error'} shadow-md`}>
+            <Send className="h-6 w-6 text-white" />
+          </div>
+          <div className="flex-1">
+            <h3 className={`text-xl font-bold ${response.ok ? 'text-medical-green' : 'text-error'}`}>{title}</h3>
+            <p className="text-muted-foreground">{description}</p>
+          </div>
+          <Badge
+            variant={response.ok ? 'secondary' : 'destructive'}
+            className={response.ok ? 'bg-medical-green/15 text-medical-green border-medical-green/20' : ''}
+          >
+            {response.status} {response.statusText}
+          </Badge>
+        </div>
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <span className="font-mono font-semibold text-foreground">{response.method}</span>
+          <span className="font-mono break-all">{response.url}</span>
+          <span>•</span>
+          <span>{response.durationMs} ms</span>
+        </div>
+
+        {isOperationOutcome(response.body) && (
+          <div>
+            <h4 className="text-sm font-semibold text-foreground mb-2">OperationOutcome Issues</h4>
+            <OperationOutcomeIssues outcome={response.body} />
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-sm font-semibold text-foreground mb-2">Response Headers</h4>
+          <div className="rounded-2xl bg-muted/30 border border-muted/50 p-4 font-mono text-xs space-y-1 overflow-x-auto">
+            {Object.entries(response.headers).length === 0 ? (
+              <p className="text-muted-foreground">No headers exposed</p>
+            ) : (
+              Object.entries(response.headers).map(([name, value]) => (
+                <div key={name}>
+                  <span className="text-medical-blue">{name}</span>: {value}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-foreground mb-2">Response Body</h4>
+          <div className="rounded-2xl bg-muted/30 border border-muted/50 p-6 overflow-hidden">
+            <pre className="text-sm font-mono text-foreground overflow-x-auto whitespace-pre-wrap">
+              {formatBody(response)}
+            </pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FHIRResponseCard;
@@ -1,43 +1,101 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Search, User, Calendar, Phone, MapPin } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Search, User, Calendar, Phone, MapPin, Pencil, Trash2, CheckCircle2, XCircle, IdCard, Users } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import { FHIRResponse, FHIRResponseError } from '@/lib/fhir/client';
+import { formatAddress } from '@/lib/fhir/addresses';
+import { findChoiceVariants } from '@/lib/fhir/choice-types';
+import { getRelationshipLabel } from '@/lib/fhir/contacts';
+import { findIdentifierValidator, getIdentifierTypeLabel } from '@/lib/fhir/identifiers';
+import { isOperationOutcome, summarizeOutcome } from '@/lib/fhir/operation-outcome';
+import { formatHumanName, getDisplayName, getPreferredName } from '@/lib/fhir/patient';
+import { pickContactPoint } from '@/lib/fhir/telecom';
+import type { ContactPoint, Patient } from '@/lib/fhir/types';
+import FHIRResponseCard from './FHIRResponseCard';
+import PatchBuilder from './PatchBuilder';
+import PatientHistoryPanel from './PatientHistoryPanel';
 
-interface PatientResponse {
-  resourceType: string;
+interface DeletionResult {
   id: string;
-  meta?: {
-    versionId: string;
-    lastUpdated: string;
-  };
-  name?: Array<{
-    use: string;
-    family: string;
-    given: string[];
-  }>;
-  gender?: string;
-  birthDate?: string;
-  telecom?: Array<{
-    system: string;
-    value: string;
-    use: string;
-  }>;
-  address?: Array<{
-    use: string;
-    text: string;
-  }>;
+  response: FHIRResponse<unknown>;
+  verification: FHIRResponse<unknown> | null;
 }
 
-const GetPatientForm = () => {
+// After a successful DELETE a conformant server answers a read with 410 Gone,
+// or 404 if it does not keep track of deleted resources.
+const isGoneStatus = (status: number) => status === 410 || status === 404;
+
+interface GetPatientFormProps {
+  initialPatientId?: string;
+  onEditPatient?: (patient: Patient) => void;
+}
+
+const GetPatientForm = ({ initialPatientId, onEditPatient }: GetPatientFormProps) => {
   const { toast } = useToast();
-  const [patientId, setPatientId] = useState('');
-  const [response, setResponse] = useState<string>('');
-  const [patientData, setPatientData] = useState<PatientResponse | null>(null);
+  const { client, activeEnvironment } = useFHIREnvironment();
+  const [patientId, setPatientId] = useState(initialPatientId || '');
+  const [response, setResponse] = useState<FHIRResponse<unknown> | null>(null);
+  const [patientData, setPatientData] = useState<Patient | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deletion, setDeletion] = useState<DeletionResult | null>(null);
+
+  const fetchPatient = useCallback(async (id: string) => {
+    setIsLoading(true);
+    setResponse(null);
+    setPatientData(null);
+    setDeletion(null);
+
+    try {
+      const result = await client.read<Patient>('Patient', id);
+
+      setPatientData(result.body);
+      setResponse(result);
+
+      toast({
+        title: 'Patient Retrieved',
+        description: `Successfully retrieved patient data for ID: ${id}`,
+      });
+    } catch (error) {
+      const body = error instanceof FHIRResponseError ? error.response.body : null;
+      if (error instanceof FHIRResponseError) {
+        setResponse(error.response);
+      }
+      toast({
+        title: error instanceof FHIRResponseError ? `Error ${error.response.status}` : 'Error',
+        description: isOperationOutcome(body)
+          ? summarizeOutcome(body)
+          : error instanceof Error ? error.message : 'Failed to retrieve patient. Please check the ID and try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, toast]);
+
+  // Opened from search results: load the selected patient straight away.
+  useEffect(() => {
+    if (initialPatientId) {
+      setPatientId(initialPatientId);
+      fetchPatient(initialPatientId);
+    }
+  }, [initialPatientId, fetchPatient]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -51,66 +109,69 @@ const GetPatientForm = () => {
       return;
     }
 
-    setIsLoading(true);
-    setResponse('');
-    setPatientData(null);
+    await fetchPatient(patientId.trim());
+  };
 
+  const readAfterDelete = async (id: string) => {
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Mock patient data based on ID
-      const mockPatient: PatientResponse = {
-        resourceType: 'Patient',
-        id: patientId,
-        meta: {
-          versionId: '1',
-          lastUpdated: new Date().toISOString(),
-        },
-        name: [
-          {
-            use: 'official',
-            family: 'Doe',
-            given: ['John'],
-          },
-        ],
-        gender: 'male',
-        birthDate: '1980-01-15',
-        telecom: [
-          {
-            system: 'phone',
-            value: '+1-555-123-4567',
-            use: 'home',
-          },
-          {
-            system: 'email',
-            value: 'john.doe@email.com',
-            use: 'home',
-          },
-        ],
-        address: [
-          {
-            use: 'home',
-            text: '123 Main Street, Anytown, ST 12345',
-          },
-        ],
-      };
-
-      setPatientData(mockPatient);
-      setResponse(JSON.stringify(mockPatient, null, 2));
-      
+      return await client.read<Patient>('Patient', id);
+    } catch (error) {
+      if (error instanceof FHIRResponseError) return error.response;
+      throw error;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!patientData?.id) return;
+    const id = patientData.id;
+    setIsDeleting(true);
+
+    let deleteResponse: FHIRResponse<unknown>;
+    try {
+      deleteResponse = await client.delete('Patient', id);
+    } catch (error) {
+      const body = error instanceof FHIRResponseError ? error.response.body : null;
+      if (error instanceof FHIRResponseError) {
+        setDeletion({ id, response: error.response, verification: null });
+      }
       toast({
-        title: 'Patient Retrieved',
-        description: `Successfully retrieved patient data for ID: ${patientId}`,
+        title: error instanceof FHIRResponseError ? `Delete Failed (${error.response.status})` : 'Delete Failed',
+        description: isOperationOutcome(body)
+          ? summarizeOutcome(body)
+          : error instanceof Error ? error.message : 'Failed to delete patient.',
+        variant: 'destructive',
       });
+      setIsDeleting(false);
+      return;
+    }
+
+    try {
+      const verification = await readAfterDelete(id);
+      setDeletion({ id, response: deleteResponse, verification });
+      setPatientData(null);
+      setResponse(null);
+
+      toast(isGoneStatus(verification.status)
+        ? {
+            title: 'Patient Deleted',
+            description: `DELETE returned ${deleteResponse.status}; reading Patient/${id} now returns ${verification.status}.`,
+          }
+        : {
+            title: 'Deletion Not Confirmed',
+            description: `DELETE returned ${deleteResponse.status}, but reading Patient/${id} still returns ${verification.status}.`,
+            variant: 'destructive',
+          });
     } catch (error) {
+      setDeletion({ id, response: deleteResponse, verification: null });
+      setPatientData(null);
+      setResponse(null);
       toast({
-        title: 'Error',
-        description: 'Failed to retrieve patient. Please check the ID and try again.',
+        title: 'Verification Failed',
+        description: error instanceof Error ? error.message : `Could not re-read Patient/${id} after deleting it.`,
         variant: 'destructive',
       });
     } finally {
-      setIsLoading(false);
+      setIsDeleting(false);
     }
   };
 
@@ -122,14 +183,26 @@ const GetPatientForm = () => {
     });
   };
 
-  const getPhoneNumber = (telecom?: Array<{ system: string; value: string; use: string }>) => {
-    return telecom?.find(t => t.system === 'phone')?.value || 'Not provided';
+  const formatChoiceValue = (type: string, value: unknown) => {
+    if (type === 'boolean') return value ? 'Yes' : 'No';
+    if (type === 'dateTime' && typeof value === 'string') {
+      if (value.length === 10) return formatDate(value);
+      return value.length > 10 ? new Date(value).toLocaleString() : value;
+    }
+    return String(value);
   };
 
-  const getEmail = (telecom?: Array<{ system: string; value: string; use: string }>) => {
-    return telecom?.find(t => t.system === 'email')?.value || 'Not provided';
+  // Shows the preferred contact point by rank and use, not just the first listed.
+  const formatPreferredContactPoint = (telecom: ContactPoint[] | undefined, system: string) => {
+    const contactPoint = pickContactPoint(telecom, system);
+    if (!contactPoint) return 'Not provided';
+    return contactPoint.use ? `${contactPoint.value} (${contactPoint.use})` : contactPoint.value;
   };
 
+  const getPhoneNumber = (telecom?: ContactPoint[]) => formatPreferredContactPoint(telecom, 'phone');
+
+  const getEmail = (telecom?: ContactPoint[]) => formatPreferredContactPoint(telecom, 'email');
+
   return (
     <div className="space-y-8">
       <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
@@ -140,7 +213,9 @@ const GetPatientForm = () => {
             </div>
             <div>
               <h2 className="text-2xl font-bold text-foreground">Retrieve Patient</h2>
-              <p className="text-muted-foreground">Search for an existing FHIR Patient resource</p>
+              <p className="text-muted-foreground">
+                Search for an existing FHIR Patient resource on <span className="font-medium text-foreground">{activeEnvironment.name}</span>
+              </p>
             </div>
           </div>
         </div>
@@ -189,10 +264,53 @@ const GetPatientForm = () => {
               <div className="p-3 rounded-2xl bg-medical-green shadow-md">
                 <User className="h-6 w-6 text-white" />
               </div>
-              <div>
+              <div className="flex-1">
                 <h3 className="text-2xl font-bold text-medical-green">Patient Summary</h3>
                 <p className="text-muted-foreground">FHIR Patient resource details</p>
               </div>
+              {onEditPatient && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onEditPatient(patientData)}
+                  className="rounded-xl border-medical-green/30 text-medical-green hover:bg-medical-green/10"
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              )}
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={isDeleting}
+                    className="rounded-xl border-error/30 text-error hover:bg-error/10 hover:text-error"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    {isDeleting ? 'Deleting...' : 'Delete'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent className="rounded-3xl">
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete Patient/{patientData.id}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This sends <span className="font-mono">DELETE Patient/{patientData.id}</span> to{' '}
+                      <span className="font-medium text-foreground">{activeEnvironment.name}</span> and then reads the
+                      id again to check that the server reports it as gone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel className="rounded-xl">Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={handleDelete}
+                      className="rounded-xl bg-error text-white hover:bg-error/90"
+                    >
+                      Delete Patient
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
             </div>
           </div>
           <div className="p-8">
@@ -200,13 +318,60 @@ const GetPatientForm = () => {
               <div className="space-y-6">
                 <div className="bg-gradient-card p-6 rounded-2xl border border-muted/30">
                   <h4 className="font-bold text-xl text-foreground mb-1">
-                    {patientData.name?.[0]?.given?.[0]} {patientData.name?.[0]?.family}
+                    {getDisplayName(patientData)}
                   </h4>
+                  {patientData.name && patientData.name.length > 1 && (
+                    <div className="mb-2 space-y-1">
+                      {patientData.name
+                        .filter(name => name !== getPreferredName(patientData))
+                        .map((name, index) => (
+                          <div key={index} className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                            <span>{formatHumanName(name) || '—'}</span>
+                            {name.use && <Badge variant="outline" className="text-xs">{name.use}</Badge>}
+                            {name.period?.end && <span className="text-xs">until {name.period.end}</span>}
+                          </div>
+                        ))}
+                    </div>
+                  )}
                   <Badge variant="secondary" className="bg-medical-light/60 text-medical-blue border-medical-blue/20">
                     ID: {patientData.id}
                   </Badge>
                 </div>
 
+                {patientData.identifier && patientData.identifier.length > 0 && (
+                  <div className="p-4 rounded-xl bg-medical-light/30 border border-medical-blue/20 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <IdCard className="h-5 w-5 text-medical-blue" />
+                      <p className="text-sm text-muted-foreground">Identifiers</p>
+                    </div>
+                    {patientData.identifier.map((identifier, index) => {
+                      const validator = findIdentifierValidator(identifier.system);
+                      const error = validator && identifier.value ? validator.validate(identifier.value) : null;
+                      return (
+                        <div key={`${identifier.system}|${identifier.value}|${index}`} className="text-sm">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-mono font-medium text-foreground">{identifier.value || '—'}</span>
+                            {getIdentifierTypeLabel(identifier) && (
+                              <Badge variant="outline" className="text-xs">{getIdentifierTypeLabel(identifier)}</Badge>
+                            )}
+                            {identifier.use && <Badge variant="secondary" className="text-xs">{identifier.use}</Badge>}
+                            {validator && (
+                              <Badge
+                                variant={error ? 'destructive' : 'secondary'}
+                                className={error ? 'text-xs' : 'text-xs bg-medical-green/15 text-medical-green border-medical-green/20'}
+                                title={error || undefined}
+                              >
+                                {error ? `Fails ${validator.label}` : `Valid ${validator.label}`}
+                              </Badge>
+                            )}
+                          </div>
+                          {identifier.system && <p className="font-mono text-xs text-muted-foreground break-all">{identifier.system}</p>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
                 <div className="space-y-4">
                   <div className="flex items-center gap-3 p-4 rounded-xl bg-medical-light/30 border border-medical-blue/20">
                     <div className="p-2 rounded-lg bg-medical-blue/10">
@@ -227,6 +392,30 @@ const GetPatientForm = () => {
                       <p className="font-medium text-foreground">{patientData.birthDate ? formatDate(patientData.birthDate) : 'Not provided'}</p>
                     </div>
                   </div>
+
+                  {[
+                    { base: 'deceased', label: 'Deceased' },
+                    { base: 'multipleBirth', label: 'Multiple Birth' },
+                  ].map(({ base, label }) => {
+                    const variants = findChoiceVariants(patientData, base);
+                    if (variants.length === 0) return null;
+                    return (
+                      <div key={base} className="p-4 rounded-xl bg-medical-light/30 border border-medical-blue/20">
+                        <p className="text-sm text-muted-foreground">{label}</p>
+                        {variants.map(variant => (
+                          <div key={variant.key} className="flex flex-wrap items-center gap-2">
+                            <p className="font-medium text-foreground">{formatChoiceValue(variant.type, variant.value)}</p>
+                            <span className="font-mono text-xs text-muted-foreground">{variant.key}</span>
+                          </div>
+                        ))}
+                        {variants.length > 1 && (
+                          <Badge variant="destructive" className="mt-2 text-xs">
+                            Invalid: {variants.length} {base}[x] variants present
+                          </Badge>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -255,14 +444,72 @@ const GetPatientForm = () => {
                   <div className="p-2 rounded-lg bg-medical-cyan/10">
                     <MapPin className="h-5 w-5 text-medical-cyan" />
                   </div>
-                  <div>
-                    <p className="text-sm text-muted-foreground">Address</p>
-                    <p className="font-medium text-foreground">{patientData.address?.[0]?.text || 'Not provided'}</p>
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">{patientData.address && patientData.address.length > 1 ? 'Addresses' : 'Address'}</p>
+                    {patientData.address?.length ? (
+                      patientData.address.map((address, index) => (
+                        <div key={index}>
+                          <p className="font-medium text-foreground">{formatAddress(address) || '—'}</p>
+                          {(address.use || address.type || address.period) && (
+                            <div className="flex flex-wrap items-center gap-1 mt-1">
+                              {address.use && <Badge variant="secondary" className="text-xs">{address.use}</Badge>}
+                              {address.type && <Badge variant="outline" className="text-xs">{address.type}</Badge>}
+                              {address.period && (
+                                <span className="text-xs text-muted-foreground">
+                                  {address.period.start || '…'} – {address.period.end || 'present'}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      ))
+                    ) : (
+                      <p className="font-medium text-foreground">Not provided</p>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
 
+            {patientData.contact && patientData.contact.length > 0 && (
+              <div className="mt-6 p-4 rounded-xl bg-medical-light/30 border border-medical-blue/20 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Users className="h-5 w-5 text-medical-blue" />
+                  <p className="text-sm text-muted-foreground">Contacts</p>
+                </div>
+                {patientData.contact.map((contact, index) => {
+                  const phone = pickContactPoint(contact.telecom, 'phone');
+                  const email = pickContactPoint(contact.telecom, 'email');
+                  return (
+                    <div key={index} className="text-sm border-t border-muted/30 pt-3 first:border-0 first:pt-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-foreground">
+                          {(contact.name && formatHumanName(contact.name)) || contact.organization?.display || 'Unnamed contact'}
+                        </span>
+                        {contact.relationship?.map((relationship, relationshipIndex) => (
+                          <Badge key={relationshipIndex} variant="outline" className="text-xs">{getRelationshipLabel(relationship)}</Badge>
+                        ))}
+                        {contact.gender && <Badge variant="secondary" className="text-xs capitalize">{contact.gender}</Badge>}
+                      </div>
+                      <div className="mt-1 space-y-0.5 text-muted-foreground">
+                        {(phone || email) && <p>{[phone?.value, email?.value].filter(Boolean).join(' · ')}</p>}
+                        {contact.address && <p>{formatAddress(contact.address)}</p>}
+                        {contact.organization && (contact.name || contact.organization.reference) && (
+                          <p>
+                            {contact.organization.display}
+                            {contact.organization.reference && <span className="font-mono text-xs"> {contact.organization.reference}</span>}
+                          </p>
+                        )}
+                        {contact.period && (
+                          <p className="text-xs">{contact.period.start || '…'} – {contact.period.end || 'present'}</p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {patientData.meta && (
               <div className="mt-8 pt-6 border-t border-muted/30">
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -277,28 +524,61 @@ const GetPatientForm = () => {
         </div>
       )}
 
-      {/* Raw JSON Response */}
-      {response && (
-        <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
-          <div className="bg-gradient-to-r from-primary/10 to-medical-cyan/10 p-6 border-b border-white/20">
-            <div className="flex items-center gap-3">
-              <div className="p-3 rounded-2xl bg-primary shadow-md">
-                <Search className="h-6 w-6 text-white" />
-              </div>
+      {/* Partial Update */}
+      {patientData?.id && <PatchBuilder key={patientData.id} patient={patientData} onPatched={setPatientData} />}
+
+      {/* Version History: a new version (e.g. after a PATCH) reloads the list */}
+      {patientData?.id && <PatientHistoryPanel key={`${patientData.id}/${patientData.meta?.versionId}`} patientId={patientData.id} />}
+
+      {/* Delete Result */}
+      {deletion && (
+        <>
+          {deletion.verification && (
+            <div
+              className={`flex items-center gap-3 p-6 rounded-3xl border ${
+                isGoneStatus(deletion.verification.status)
+                  ? 'bg-medical-green/10 border-medical-green/20 text-medical-green'
+                  : 'bg-error/10 border-error/20 text-error'
+              }`}
+            >
+              {isGoneStatus(deletion.verification.status) ? (
+                <CheckCircle2 className="h-6 w-6 shrink-0" />
+              ) : (
+                <XCircle className="h-6 w-6 shrink-0" />
+              )}
               <div>
-                <h3 className="text-xl font-bold text-primary">FHIR JSON Response</h3>
-                <p className="text-muted-foreground">Raw patient data in FHIR format</p>
+                <p className="font-semibold">
+                  {isGoneStatus(deletion.verification.status) ? 'Deletion verified' : 'Deletion not verified'}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Reading Patient/{deletion.id} after the DELETE returned {deletion.verification.status}{' '}
+                  {deletion.verification.statusText}; expected 410 Gone or 404 Not Found.
+                </p>
               </div>
             </div>
-          </div>
-          <div className="p-6">
-            <div className="rounded-2xl bg-muted/30 border border-muted/50 p-6 overflow-hidden">
-              <pre className="text-sm font-mono text-foreground overflow-x-auto whitespace-pre-wrap">
-                {response}
-              </pre>
-            </div>
-          </div>
-        </div>
+          )}
+          <FHIRResponseCard
+            response={deletion.response}
+            title="Delete Response"
+            description={deletion.response.ok ? `The server accepted the DELETE of Patient/${deletion.id}` : 'The server refused the DELETE'}
+          />
+          {deletion.verification && (
+            <FHIRResponseCard
+              response={deletion.verification}
+              title="Verification Read"
+              description={`Re-read of Patient/${deletion.id} after the DELETE`}
+            />
+          )}
+        </>
+      )}
+
+      {/* Raw JSON Response */}
+      {response && (
+        <FHIRResponseCard
+          response={response}
+          title="FHIR JSON Response"
+          description={response.ok ? 'Raw patient data in FHIR format' : 'The server could not return the requested Patient'}
+        />
       )}
     </div>
   );
@@ -0,0 +1,174 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle2, Plus, X } from 'lucide-react';
+import {
+  emptyIdentifierFormValue,
+  findIdentifierValidator,
+  formValueToIdentifier,
+  getIdentifierValidators,
+  IDENTIFIER_TYPES,
+  IDENTIFIER_USES,
+  IdentifierFormValue,
+  validateIdentifier,
+} from '@/lib/fhir/identifiers';
+
+interface IdentifierEditorProps {
+  identifiers: IdentifierFormValue[];
+  onChange: (identifiers: IdentifierFormValue[]) => void;
+  /** Server-side error for the whole element, e.g. from an OperationOutcome. */
+  error?: string;
+}
+
+// Systems offered as suggestions; any URI can be typed.
+const KNOWN_SYSTEMS = [
+  'https://fhir.nhs.uk/Id/nhs-number',
+  'http://hl7.org/fhir/sid/us-ssn',
+  'http://hl7.org/fhir/sid/us-npi',
+  'http://ns.electronichealth.net.au/id/hi/ihi/1.0',
+  'http://hospital.example.org/mrn',
+];
+
+const inputClassName = 'mt-1 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+const errorInputClassName = 'mt-1 rounded-xl border-error bg-error/5 backdrop-blur-sm ring-1 ring-error/30 focus:border-error focus:ring-error/30';
+
+const IdentifierEditor = ({ identifiers, onChange, error }: IdentifierEditorProps) => {
+  const updateIdentifier = (index: number, field: keyof IdentifierFormValue, value: string) => {
+    onChange(identifiers.map((identifier, i) => (i === index ? { ...identifier, [field]: value } : identifier)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <datalist id="identifier-systems">
+        {KNOWN_SYSTEMS.map(system => (
+          <option key={system} value={system} />
+        ))}
+      </datalist>
+
+      {identifiers.map((identifier, index) => {
+        const validator = findIdentifierValidator(identifier.system, identifier.validator || undefined);
+        const validationError = identifier.value ? validateIdentifier(formValueToIdentifier(identifier), identifier.validator || undefined) : null;
+
+        return (
+          <div key={index} className="rounded-2xl border border-muted/40 p-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+              <div className="md:col-span-2">
+                <Label className="text-xs">Use</Label>
+                <Select value={identifier.use || 'none'} onValueChange={value => updateIdentifier(index, 'use', value === 'none' ? '' : value)}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">—</SelectItem>
+                    {IDENTIFIER_USES.map(use => (
+                      <SelectItem key={use} value={use}>{use}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-3">
+                <Label className="text-xs">Type</Label>
+                <Select value={identifier.typeCode || 'none'} onValueChange={value => updateIdentifier(index, 'typeCode', value === 'none' ? '' : value)}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">—</SelectItem>
+                    {IDENTIFIER_TYPES.map(type => (
+                      <SelectItem key={type.code} value={type.code}>{type.code} — {type.display}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-6">
+                <Label className="text-xs">System</Label>
+                <Input
+                  list="identifier-systems"
+                  value={identifier.system}
+                  onChange={e => updateIdentifier(index, 'system', e.target.value)}
+                  placeholder="http://hospital.example.org/mrn"
+                  className={`${inputClassName} font-mono text-sm`}
+                />
+              </div>
+              <div className="md:col-span-1 flex items-end justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onChange(identifiers.filter((_, i) => i !== index))}
+                  className="rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+                  aria-label="Remove identifier"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+              <div className="md:col-span-4">
+                <Label className="text-xs">Value <span className="text-error">*</span></Label>
+                <Input
+                  value={identifier.value}
+                  onChange={e => updateIdentifier(index, 'value', e.target.value)}
+                  placeholder="e.g. 943 476 5919"
+                  className={`${validationError ? errorInputClassName : inputClassName} font-mono text-sm`}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">Check</Label>
+                <Select value={identifier.validator || 'auto'} onValueChange={value => updateIdentifier(index, 'validator', value === 'auto' ? '' : value)}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">By system</SelectItem>
+                    {getIdentifierValidators().map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">Valid From</Label>
+                <Input type="date" value={identifier.periodStart} onChange={e => updateIdentifier(index, 'periodStart', e.target.value)} className={inputClassName} />
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">Valid To</Label>
+                <Input type="date" value={identifier.periodEnd} onChange={e => updateIdentifier(index, 'periodEnd', e.target.value)} className={inputClassName} />
+              </div>
+              <div className="md:col-span-2">
+                <Label className="text-xs">Assigner</Label>
+                <Input value={identifier.assigner} onChange={e => updateIdentifier(index, 'assigner', e.target.value)} placeholder="Organization" className={inputClassName} />
+              </div>
+            </div>
+
+            {validationError ? (
+              <p className="text-xs text-error">{validationError}</p>
+            ) : validator && identifier.value ? (
+              <p className="flex items-center gap-1 text-xs text-medical-green">
+                <CheckCircle2 className="h-3 w-3" />
+                Passes {validator.label}
+              </p>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="rounded-xl"
+        onClick={() => onChange([...identifiers, emptyIdentifierFormValue])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Identifier
+      </Button>
+    </div>
+  );
+};
+
+export default IdentifierEditor;
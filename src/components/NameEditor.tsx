@@ -0,0 +1,117 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { emptyNameFormValue, formValueToName, NAME_USES, NameFormValue } from '@/lib/fhir/names';
+import { formatHumanName } from '@/lib/fhir/patient';
+
+interface NameEditorProps {
+  names: NameFormValue[];
+  onChange: (names: NameFormValue[]) => void;
+  /** Server-side error for the whole element, e.g. from an OperationOutcome. */
+  error?: string;
+  /** Hides "Add" once reached, for single-valued elements such as Patient.contact.name. */
+  maxItems?: number;
+}
+
+const inputClassName = 'mt-1 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+
+const NameEditor = ({ names, onChange, error, maxItems }: NameEditorProps) => {
+  const updateName = (index: number, field: keyof NameFormValue, value: string) => {
+    onChange(names.map((name, i) => (i === index ? { ...name, [field]: value } : name)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {names.map((name, index) => (
+        <div key={index} className="rounded-2xl border border-muted/40 p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+            <div className="md:col-span-2">
+              <Label className="text-xs">Use</Label>
+              <Select value={name.use || 'none'} onValueChange={value => updateName(index, 'use', value === 'none' ? '' : value)}>
+                <SelectTrigger className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">—</SelectItem>
+                  {NAME_USES.map(use => (
+                    <SelectItem key={use} value={use}>{use}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-2">
+              <Label className="text-xs">Prefix</Label>
+              <Input value={name.prefix} onChange={e => updateName(index, 'prefix', e.target.value)} placeholder="Dr." className={inputClassName} />
+            </div>
+            <div className="md:col-span-3">
+              <Label className="text-xs">Given Names</Label>
+              <Input value={name.given} onChange={e => updateName(index, 'given', e.target.value)} placeholder="Jane Marie" className={inputClassName} />
+            </div>
+            <div className="md:col-span-2">
+              <Label className="text-xs">Family Name</Label>
+              <Input value={name.family} onChange={e => updateName(index, 'family', e.target.value)} placeholder="Smith" className={inputClassName} />
+            </div>
+            <div className="md:col-span-2">
+              <Label className="text-xs">Suffix</Label>
+              <Input value={name.suffix} onChange={e => updateName(index, 'suffix', e.target.value)} placeholder="PhD" className={inputClassName} />
+            </div>
+            <div className="md:col-span-1 flex items-end justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onChange(names.filter((_, i) => i !== index))}
+                disabled={names.length === 1}
+                className="rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+                aria-label="Remove name"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+            <div className="md:col-span-6">
+              <Label className="text-xs">Text</Label>
+              <Input
+                value={name.text}
+                onChange={e => updateName(index, 'text', e.target.value)}
+                placeholder={formatHumanName(formValueToName({ ...name, text: '' })) || 'Full name as displayed'}
+                className={inputClassName}
+              />
+            </div>
+            <div className="md:col-span-3">
+              <Label className="text-xs">Valid From</Label>
+              <Input type="date" value={name.periodStart} onChange={e => updateName(index, 'periodStart', e.target.value)} className={inputClassName} />
+            </div>
+            <div className="md:col-span-3">
+              <Label className="text-xs">Valid To</Label>
+              <Input type="date" value={name.periodEnd} onChange={e => updateName(index, 'periodEnd', e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">Separate multiple given names, prefixes or suffixes with spaces.</p>
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      {(maxItems === undefined || names.length < maxItems) && (
+        <Button
+          type="button"
+          variant="outline"
+          className="rounded-xl"
+          onClick={() => onChange([...names, { ...emptyNameFormValue, use: 'usual' }])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Name
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default NameEditor;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, AlertTriangle, Info, XOctagon } from 'lucide-react';
+import { describeIssue, SEVERITY_ORDER } from '@/lib/fhir/operation-outcome';
+import type { OperationOutcome, OperationOutcomeIssue } from '@/lib/fhir/types';
+
+const severityStyles: Record<OperationOutcomeIssue['severity'], { icon: typeof Info; className: string }> = {
+  fatal: { icon: XOctagon, className: 'bg-error/10 border-error/30 text-error' },
+  error: { icon: AlertCircle, className: 'bg-error/10 border-error/30 text-error' },
+  warning: { icon: AlertTriangle, className: 'bg-warning/10 border-warning/30 text-warning' },
+  information: { icon: Info, className: 'bg-medical-light/30 border-medical-blue/20 text-medical-blue' },
+};
+
+interface OperationOutcomeIssuesProps {
+  outcome: OperationOutcome;
+}
+
+const OperationOutcomeIssues = ({ outcome }: OperationOutcomeIssuesProps) => {
+  const issues = [...outcome.issue].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+
+  if (issues.length === 0) {
+    return <p className="text-sm text-muted-foreground">The OperationOutcome contains no issues.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {issues.map((issue, index) => {
+        const { icon: Icon, className } = severityStyles[issue.severity] || severityStyles.information;
+        const locations = [...(issue.expression || []), ...(issue.location || [])];
+        return (
+          <li key={index} className={`flex items-start gap-3 p-4 rounded-xl border ${className}`}>
+            <Icon className="h-5 w-5 mt-0.5 shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className="uppercase text-xs border-current">
+                  {issue.severity}
+                </Badge>
+                <span className="font-mono text-xs text-muted-foreground">{issue.code}</span>
+              </div>
+              <p className="text-sm text-foreground break-words">{describeIssue(issue)}</p>
+              {locations.length > 0 && (
+                <p className="text-xs font-mono text-muted-foreground break-all">{locations.join(', ')}</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default OperationOutcomeIssues;
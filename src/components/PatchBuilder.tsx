@@ -0,0 +1,442 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle2, Plus, Send, Trash2, Wand2, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import { FHIR_CONTENT_TYPE, FHIRResponse, FHIRResponseError, weakETag } from '@/lib/fhir/client';
+import { diffResourceVersions } from '@/lib/fhir/diff';
+import { isOperationOutcome, summarizeOutcome } from '@/lib/fhir/operation-outcome';
+import {
+  applyFHIRPathPatch,
+  applyJsonPatch,
+  buildFHIRPathPatchParameters,
+  FHIRPATH_PATCH_TYPES,
+  FHIRPathPatchOperation,
+  FHIRPathPatchType,
+  JSON_PATCH_CONTENT_TYPE,
+  JSON_PATCH_OPS,
+  JsonPatchOp,
+  JsonPatchOperation,
+} from '@/lib/fhir/patch';
+import type { Patient } from '@/lib/fhir/types';
+import FHIRResponseCard from './FHIRResponseCard';
+
+type PatchFormat = 'json-patch' | 'fhirpath-patch';
+
+interface JsonPatchRow {
+  op: JsonPatchOp;
+  path: string;
+  from: string;
+  value: string;
+}
+
+interface FHIRPathPatchRow {
+  type: FHIRPathPatchType;
+  path: string;
+  name: string;
+  valueType: string;
+  value: string;
+  index: string;
+  source: string;
+  destination: string;
+}
+
+interface PatchBuilderProps {
+  patient: Patient;
+  onPatched: (patient: Patient) => void;
+}
+
+// Value types offered for FHIRPath Patch `value[x]`; the first group is entered as plain text.
+const TEXT_VALUE_TYPES = ['String', 'Code', 'Date', 'DateTime', 'Uri'];
+const VALUE_TYPES = [
+  ...TEXT_VALUE_TYPES,
+  'Boolean',
+  'Integer',
+  'HumanName',
+  'ContactPoint',
+  'Identifier',
+  'Address',
+  'CodeableConcept',
+  'Coding',
+  'Reference',
+  'Extension',
+];
+
+const emptyJsonPatchRow: JsonPatchRow = { op: 'replace', path: '', from: '', value: '' };
+
+const emptyFHIRPathPatchRow: FHIRPathPatchRow = {
+  type: 'replace',
+  path: 'Patient.',
+  name: '',
+  valueType: 'String',
+  value: '',
+  index: '',
+  source: '',
+  destination: '',
+};
+
+const inputClassName = 'mt-1 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+
+// JSON Patch values are JSON; bare text that is not valid JSON is taken as a string.
+const parseJsonValue = (text: string) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const toJsonPatchOperations = (rows: JsonPatchRow[]): JsonPatchOperation[] =>
+  rows.map(row => ({
+    op: row.op,
+    path: row.path,
+    ...(row.op === 'move' || row.op === 'copy' ? { from: row.from } : {}),
+    ...(row.op === 'add' || row.op === 'replace' || row.op === 'test' ? { value: parseJsonValue(row.value) } : {}),
+  }));
+
+const toFHIRPathPatchOperations = (rows: FHIRPathPatchRow[]): FHIRPathPatchOperation[] =>
+  rows.map((row, index) => {
+    // A blank or non-numeric position would otherwise become 0 or NaN.
+    const position = (label: string, value: string) => {
+      if (!/^\d+$/.test(value.trim())) {
+        throw new Error(`Operation ${index + 1}: the ${label} must be a non-negative integer`);
+      }
+      return Number(value);
+    };
+    const operation: FHIRPathPatchOperation = { type: row.type, path: row.path };
+    if (row.type === 'add') operation.name = row.name;
+    if (row.type === 'insert') operation.index = position('index', row.index);
+    if (row.type === 'move') {
+      operation.source = position('source', row.source);
+      operation.destination = position('destination', row.destination);
+    }
+    if (row.type === 'add' || row.type === 'insert' || row.type === 'replace') {
+      operation.valueType = row.valueType;
+      if (TEXT_VALUE_TYPES.includes(row.valueType)) {
+        operation.value = row.value;
+      } else {
+        try {
+          operation.value = JSON.parse(row.value);
+        } catch {
+          throw new Error(`Operation ${index + 1}: the ${row.valueType} value must be valid JSON`);
+        }
+      }
+    }
+    return operation;
+  });
+
+const PatchBuilder = ({ patient, onPatched }: PatchBuilderProps) => {
+  const { toast } = useToast();
+  const { client } = useFHIREnvironment();
+  const [format, setFormat] = useState<PatchFormat>('json-patch');
+  const [jsonRows, setJsonRows] = useState<JsonPatchRow[]>([emptyJsonPatchRow]);
+  const [fhirPathRows, setFhirPathRows] = useState<FHIRPathPatchRow[]>([emptyFHIRPathPatchRow]);
+  const [useIfMatch, setUseIfMatch] = useState(true);
+  const [response, setResponse] = useState<FHIRResponse<unknown> | null>(null);
+  const [prediction, setPrediction] = useState<Patient | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Builds the request body and the locally predicted result in one go so the
+  // preview always reflects exactly what would be sent.
+  const buildPatch = (): { body: unknown; contentType: string; result: Patient } => {
+    if (format === 'json-patch') {
+      const operations = toJsonPatchOperations(jsonRows);
+      return { body: operations, contentType: JSON_PATCH_CONTENT_TYPE, result: applyJsonPatch(patient, operations) };
+    }
+    const operations = toFHIRPathPatchOperations(fhirPathRows);
+    return {
+      body: buildFHIRPathPatchParameters(operations),
+      contentType: FHIR_CONTENT_TYPE,
+      result: applyFHIRPathPatch(patient, operations),
+    };
+  };
+
+  let preview: { body: unknown; contentType: string; result: Patient } | null = null;
+  let previewError: string | null = null;
+  try {
+    preview = buildPatch();
+  } catch (error) {
+    previewError = error instanceof Error ? error.message : String(error);
+  }
+
+  const updateJsonRow = (index: number, field: keyof JsonPatchRow, value: string) => {
+    setJsonRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const updateFhirPathRow = (index: number, field: keyof FHIRPathPatchRow, value: string) => {
+    setFhirPathRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSend = async () => {
+    if (!patient.id || !preview) return;
+    setIsLoading(true);
+    setResponse(null);
+    setPrediction(preview.result);
+
+    const versionId = patient.meta?.versionId;
+    try {
+      const result = await client.patch<Patient>('Patient', patient.id, preview.body, preview.contentType, {
+        headers: useIfMatch && versionId ? { 'If-Match': weakETag(versionId) } : {},
+      });
+      setResponse(result);
+      if (result.body?.resourceType === 'Patient') onPatched(result.body);
+      toast({
+        title: 'Patient Patched',
+        description: `PATCH returned ${result.status}${result.body?.meta?.versionId ? `; now at version ${result.body.meta.versionId}` : ''}.`,
+      });
+    } catch (error) {
+      const body = error instanceof FHIRResponseError ? error.response.body : null;
+      if (error instanceof FHIRResponseError) {
+        setResponse(error.response);
+      }
+      toast({
+        title: error instanceof FHIRResponseError ? `Error ${error.response.status}` : 'Error',
+        description: isOperationOutcome(body)
+          ? summarizeOutcome(body)
+          : error instanceof Error ? error.message : 'Failed to patch patient.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Servers may answer with `Prefer: return=minimal`, in which case there is nothing to compare.
+  const serverResult = response?.ok && (response.body as Patient | null)?.resourceType === 'Patient' ? (response.body as Patient) : null;
+  const differences = prediction && serverResult ? diffResourceVersions(prediction, serverResult) : null;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
+      <div className="bg-gradient-to-r from-medical-cyan/10 to-medical-blue/10 p-6 border-b border-white/20">
+        <div className="flex items-center gap-3">
+          <div className="p-3 rounded-2xl bg-medical-cyan shadow-md">
+            <Wand2 className="h-6 w-6 text-white" />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-xl font-bold text-medical-cyan">Patch Builder</h3>
+            <p className="text-muted-foreground">
+              Compose a partial update for <span className="font-mono">PATCH Patient/{patient.id}</span> and preview it locally
+            </p>
+          </div>
+          <Tabs value={format} onValueChange={value => setFormat(value as PatchFormat)}>
+            <TabsList className="rounded-xl">
+              <TabsTrigger value="json-patch" className="rounded-lg">JSON Patch</TabsTrigger>
+              <TabsTrigger value="fhirpath-patch" className="rounded-lg">FHIRPath Patch</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {format === 'json-patch' ? (
+          <div className="space-y-3">
+            {jsonRows.map((row, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end rounded-2xl border border-muted/40 p-3">
+                <div className="md:col-span-2">
+                  <Label className="text-xs">op</Label>
+                  <Select value={row.op} onValueChange={value => updateJsonRow(index, 'op', value)}>
+                    <SelectTrigger className={inputClassName}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {JSON_PATCH_OPS.map(op => (
+                        <SelectItem key={op} value={op}>{op}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-3">
+                  <Label className="text-xs">path</Label>
+                  <Input value={row.path} onChange={e => updateJsonRow(index, 'path', e.target.value)} placeholder="/name/0/family" className={`${inputClassName} font-mono text-sm`} />
+                </div>
+                {row.op === 'move' || row.op === 'copy' ? (
+                  <div className="md:col-span-6">
+                    <Label className="text-xs">from</Label>
+                    <Input value={row.from} onChange={e => updateJsonRow(index, 'from', e.target.value)} placeholder="/telecom/1" className={`${inputClassName} font-mono text-sm`} />
+                  </div>
+                ) : row.op === 'remove' ? (
+                  <div className="md:col-span-6" />
+                ) : (
+                  <div className="md:col-span-6">
+                    <Label className="text-xs">value (JSON)</Label>
+                    <Textarea value={row.value} onChange={e => updateJsonRow(index, 'value', e.target.value)} placeholder={'"Smith" or {"system": "phone", "value": "555-0100"}'} rows={1} className={`${inputClassName} font-mono text-sm min-h-10`} />
+                  </div>
+                )}
+                <div className="md:col-span-1 flex justify-end">
+                  <Button type="button" variant="ghost" size="icon" onClick={() => setJsonRows(prev => prev.filter((_, i) => i !== index))} aria-label="Remove operation">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button type="button" variant="outline" className="rounded-xl" onClick={() => setJsonRows(prev => [...prev, emptyJsonPatchRow])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Operation
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {fhirPathRows.map((row, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end rounded-2xl border border-muted/40 p-3">
+                <div className="md:col-span-2">
+                  <Label className="text-xs">type</Label>
+                  <Select value={row.type} onValueChange={value => updateFhirPathRow(index, 'type', value)}>
+                    <SelectTrigger className={inputClassName}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FHIRPATH_PATCH_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-3">
+                  <Label className="text-xs">path</Label>
+                  <Input value={row.path} onChange={e => updateFhirPathRow(index, 'path', e.target.value)} placeholder="Patient.telecom.where(system='phone')" className={`${inputClassName} font-mono text-sm`} />
+                </div>
+                {row.type === 'add' && (
+                  <div className="md:col-span-2">
+                    <Label className="text-xs">name</Label>
+                    <Input value={row.name} onChange={e => updateFhirPathRow(index, 'name', e.target.value)} placeholder="birthDate" className={`${inputClassName} font-mono text-sm`} />
+                  </div>
+                )}
+                {row.type === 'insert' && (
+                  <div className="md:col-span-2">
+                    <Label className="text-xs">index</Label>
+                    <Input type="number" min={0} value={row.index} onChange={e => updateFhirPathRow(index, 'index', e.target.value)} className={inputClassName} />
+                  </div>
+                )}
+                {row.type === 'move' && (
+                  <>
+                    <div className="md:col-span-3">
+                      <Label className="text-xs">source</Label>
+                      <Input type="number" min={0} value={row.source} onChange={e => updateFhirPathRow(index, 'source', e.target.value)} className={inputClassName} />
+                    </div>
+                    <div className="md:col-span-3">
+                      <Label className="text-xs">destination</Label>
+                      <Input type="number" min={0} value={row.destination} onChange={e => updateFhirPathRow(index, 'destination', e.target.value)} className={inputClassName} />
+                    </div>
+                  </>
+                )}
+                {(row.type === 'add' || row.type === 'insert' || row.type === 'replace') && (
+                  <>
+                    <div className="md:col-span-2">
+                      <Label className="text-xs">value type</Label>
+                      <Select value={row.valueType} onValueChange={value => updateFhirPathRow(index, 'valueType', value)}>
+                        <SelectTrigger className={inputClassName}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {VALUE_TYPES.map(valueType => (
+                            <SelectItem key={valueType} value={valueType}>{valueType}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className={row.type === 'replace' ? 'md:col-span-4' : 'md:col-span-2'}>
+                      <Label className="text-xs">value{TEXT_VALUE_TYPES.includes(row.valueType) ? '' : ' (JSON)'}</Label>
+                      <Textarea value={row.value} onChange={e => updateFhirPathRow(index, 'value', e.target.value)} rows={1} className={`${inputClassName} font-mono text-sm min-h-10`} />
+                    </div>
+                  </>
+                )}
+                {row.type === 'delete' && <div className="md:col-span-6" />}
+                <div className="md:col-span-1 flex justify-end">
+                  <Button type="button" variant="ghost" size="icon" onClick={() => setFhirPathRows(prev => prev.filter((_, i) => i !== index))} aria-label="Remove operation">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button type="button" variant="outline" className="rounded-xl" onClick={() => setFhirPathRows(prev => [...prev, emptyFHIRPathPatchRow])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Operation
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-sm font-semibold text-foreground mb-2">
+              Request Body <span className="font-mono font-normal text-muted-foreground">({format === 'json-patch' ? JSON_PATCH_CONTENT_TYPE : FHIR_CONTENT_TYPE})</span>
+            </h4>
+            <pre className="rounded-2xl bg-muted/30 border border-muted/50 p-4 text-xs font-mono overflow-auto max-h-[40vh]">
+              {preview ? JSON.stringify(preview.body, null, 2) : '—'}
+            </pre>
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-foreground mb-2">Local Preview</h4>
+            {previewError ? (
+              <div className="rounded-2xl bg-error/10 border border-error/20 p-4 text-sm text-error">{previewError}</div>
+            ) : (
+              <pre className="rounded-2xl bg-muted/30 border border-muted/50 p-4 text-xs font-mono overflow-auto max-h-[40vh]">
+                {preview && JSON.stringify(preview.result, null, 2)}
+              </pre>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <label className="flex items-center gap-3 text-sm">
+            <Checkbox checked={useIfMatch} onCheckedChange={checked => setUseIfMatch(checked === true)} disabled={!patient.meta?.versionId} />
+            Send <span className="font-mono">If-Match: {patient.meta?.versionId ? weakETag(patient.meta.versionId) : '—'}</span>
+          </label>
+          <Button
+            type="button"
+            onClick={handleSend}
+            disabled={isLoading || !preview}
+            className="rounded-xl bg-gradient-primary text-white font-semibold shadow-medical hover:shadow-glow"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {isLoading ? 'Sending PATCH...' : 'Send PATCH'}
+          </Button>
+        </div>
+
+        {differences && (
+          <div
+            className={`flex items-start gap-3 p-4 rounded-2xl border ${
+              differences.length === 0
+                ? 'bg-medical-green/10 border-medical-green/20 text-medical-green'
+                : 'bg-error/10 border-error/20 text-error'
+            }`}
+          >
+            {differences.length === 0 ? <CheckCircle2 className="h-5 w-5 shrink-0" /> : <XCircle className="h-5 w-5 shrink-0" />}
+            <div className="space-y-2">
+              <p className="font-semibold">
+                {differences.length === 0
+                  ? 'The server result matches the local prediction'
+                  : `The server result differs from the local prediction in ${differences.length} ${differences.length === 1 ? 'place' : 'places'}`}
+              </p>
+              {differences.map(difference => (
+                <div key={difference.path} className="flex flex-wrap items-center gap-2 text-xs text-foreground">
+                  <Badge variant="outline" className="font-mono">{difference.path}</Badge>
+                  <span className="text-muted-foreground">predicted</span>
+                  <span className="font-mono">{difference.before === undefined ? '(absent)' : JSON.stringify(difference.before)}</span>
+                  <span className="text-muted-foreground">server</span>
+                  <span className="font-mono">{difference.after === undefined ? '(absent)' : JSON.stringify(difference.after)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {response && (
+          <FHIRResponseCard
+            response={response}
+            title="PATCH Response"
+            description={response.ok ? 'The patched resource as returned by the server' : 'The server rejected the patch'}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PatchBuilder;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { CONTACT_RELATIONSHIPS, emptyPatientContactFormValue, PatientContactFormValue } from '@/lib/fhir/contacts';
+import { ADMINISTRATIVE_GENDER_VALUE_SET } from '@/lib/fhir/terminology';
+import AddressEditor from './AddressEditor';
+import ContactPointEditor from './ContactPointEditor';
+import NameEditor from './NameEditor';
+
+interface PatientContactEditorProps {
+  contacts: PatientContactFormValue[];
+  onChange: (contacts: PatientContactFormValue[]) => void;
+  /** Server-side error for the whole element, e.g. from an OperationOutcome. */
+  error?: string;
+}
+
+const inputClassName = 'mt-1 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+
+const PatientContactEditor = ({ contacts, onChange, error }: PatientContactEditorProps) => {
+  const updateContact = <K extends keyof PatientContactFormValue>(index: number, field: K, value: PatientContactFormValue[K]) => {
+    onChange(contacts.map((contact, i) => (i === index ? { ...contact, [field]: value } : contact)));
+  };
+
+  const toggleRelationship = (index: number, code: string, checked: boolean) => {
+    const relationships = contacts[index].relationships;
+    updateContact(index, 'relationships', checked ? [...relationships, code] : relationships.filter(value => value !== code));
+  };
+
+  return (
+    <div className="space-y-4">
+      {contacts.map((contact, index) => (
+        <div key={index} className="rounded-2xl border border-muted/40 p-4 space-y-5">
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex-1">
+              <Label className="text-xs">Relationship</Label>
+              <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2">
+                {CONTACT_RELATIONSHIPS.map(relationship => (
+                  <label key={relationship.code} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={contact.relationships.includes(relationship.code)}
+                      onCheckedChange={checked => toggleRelationship(index, relationship.code, checked === true)}
+                    />
+                    {relationship.display}
+                    <span className="font-mono text-xs text-muted-foreground">{relationship.code}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange(contacts.filter((_, i) => i !== index))}
+              className="rounded-xl border-muted hover:bg-error/10 hover:border-error/30"
+              aria-label="Remove contact"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div>
+            <Label className="text-xs">Name</Label>
+            <div className="mt-1">
+              <NameEditor
+                names={[contact.name]}
+                onChange={names => updateContact(index, 'name', names[0] ?? emptyPatientContactFormValue.name)}
+                maxItems={1}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+            <div className="md:col-span-2">
+              <Label className="text-xs">Gender</Label>
+              <Select value={contact.gender || 'none'} onValueChange={value => updateContact(index, 'gender', value === 'none' ? '' : value)}>
+                <SelectTrigger className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">—</SelectItem>
+                  {ADMINISTRATIVE_GENDER_VALUE_SET.concepts.map(gender => (
+                    <SelectItem key={gender.code} value={gender.code}>{gender.display}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-3">
+              <Label className="text-xs">Organization Reference</Label>
+              <Input
+                value={contact.organizationReference}
+                onChange={e => updateContact(index, 'organizationReference', e.target.value)}
+                placeholder="Organization/123"
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+            <div className="md:col-span-3">
+              <Label className="text-xs">Organization Name</Label>
+              <Input
+                value={contact.organizationDisplay}
+                onChange={e => updateContact(index, 'organizationDisplay', e.target.value)}
+                placeholder="Acme Insurance"
+                className={inputClassName}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label className="text-xs">Valid From</Label>
+              <Input type="date" value={contact.periodStart} onChange={e => updateContact(index, 'periodStart', e.target.value)} className={inputClassName} />
+            </div>
+            <div className="md:col-span-2">
+              <Label className="text-xs">Valid To</Label>
+              <Input type="date" value={contact.periodEnd} onChange={e => updateContact(index, 'periodEnd', e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+
+          <div>
+            <Label className="text-xs">Telecom</Label>
+            <div className="mt-1">
+              <ContactPointEditor contactPoints={contact.telecom} onChange={telecom => updateContact(index, 'telecom', telecom)} />
+            </div>
+          </div>
+
+          <div>
+            <Label className="text-xs">Address</Label>
+            <div className="mt-1">
+              <AddressEditor
+                addresses={contact.address ? [contact.address] : []}
+                onChange={addresses => updateContact(index, 'address', addresses[0] ?? null)}
+                maxItems={1}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="rounded-xl"
+        onClick={() => onChange([...contacts, emptyPatientContactFormValue])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Contact
+      </Button>
+    </div>
+  );
+};
+
+export default PatientContactEditor;
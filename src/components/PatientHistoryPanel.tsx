@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Eye, GitCompare, History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import { FHIRResponse, FHIRResponseError, parseETagVersion } from '@/lib/fhir/client';
+import { diffResourceVersions, DiffKind } from '@/lib/fhir/diff';
+import { isOperationOutcome, summarizeOutcome } from '@/lib/fhir/operation-outcome';
+import { getBundleLink } from '@/lib/fhir/search';
+import type { BundleEntry, Patient } from '@/lib/fhir/types';
+import FHIRResponseCard from './FHIRResponseCard';
+
+interface PatientHistoryPanelProps {
+  patientId: string;
+}
+
+// Stop following `next` links after this many pages of history.
+const MAX_HISTORY_PAGES = 10;
+
+const diffKindClassName: Record<DiffKind, string> = {
+  added: 'bg-medical-green/15 text-medical-green border-medical-green/20',
+  removed: 'bg-error/15 text-error border-error/20',
+  changed: 'bg-medical-blue/15 text-medical-blue border-medical-blue/20',
+};
+
+const getEntryVersion = (entry: BundleEntry<Patient>) =>
+  entry.resource?.meta?.versionId || (entry.response?.etag ? parseETagVersion(entry.response.etag) : '');
+
+const getEntryTimestamp = (entry: BundleEntry<Patient>) =>
+  entry.resource?.meta?.lastUpdated || entry.response?.lastModified;
+
+const formatValue = (value: unknown) => (value === undefined ? '' : JSON.stringify(value));
+
+const PatientHistoryPanel = ({ patientId }: PatientHistoryPanelProps) => {
+  const { toast } = useToast();
+  const { client } = useFHIREnvironment();
+  const [entries, setEntries] = useState<BundleEntry<Patient>[] | null>(null);
+  const [historyResponse, setHistoryResponse] = useState<FHIRResponse<unknown> | null>(null);
+  const [versions, setVersions] = useState<Record<string, FHIRResponse<Patient>>>({});
+  const [viewedVersion, setViewedVersion] = useState<FHIRResponse<unknown> | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reportError = (error: unknown, fallback: string) => {
+    const body = error instanceof FHIRResponseError ? error.response.body : null;
+    toast({
+      title: error instanceof FHIRResponseError ? `Error ${error.response.status}` : 'Error',
+      description: isOperationOutcome(body)
+        ? summarizeOutcome(body)
+        : error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const loadHistory = async () => {
+    setIsLoading(true);
+    setHistoryResponse(null);
+    setViewedVersion(null);
+    setSelected([]);
+
+    try {
+      let page = await client.history<Patient>('Patient', patientId);
+      const firstPage = page;
+      const collected = [...(page.body.entry || [])];
+      for (let pages = 1; pages < MAX_HISTORY_PAGES; pages++) {
+        const next = getBundleLink(page.body, 'next');
+        if (!next) break;
+        page = await client.page<Patient>(next);
+        collected.push(...(page.body.entry || []));
+      }
+
+      setHistoryResponse(firstPage);
+      setEntries(collected);
+    } catch (error) {
+      if (error instanceof FHIRResponseError) {
+        setHistoryResponse(error.response);
+      }
+      setEntries(null);
+      reportError(error, 'Failed to load the version history.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const vread = async (versionId: string) => {
+    if (versions[versionId]) return versions[versionId];
+    try {
+      const result = await client.vread<Patient>('Patient', patientId, versionId);
+      setVersions(prev => ({ ...prev, [versionId]: result }));
+      return result;
+    } catch (error) {
+      if (error instanceof FHIRResponseError) {
+        setViewedVersion(error.response);
+      }
+      reportError(error, `Failed to read version ${versionId}.`);
+      return null;
+    }
+  };
+
+  const viewVersion = async (versionId: string) => {
+    setIsLoading(true);
+    const result = await vread(versionId);
+    if (result) setViewedVersion(result);
+    setIsLoading(false);
+  };
+
+  // Keeps at most two versions selected, dropping the oldest selection.
+  const toggleSelected = async (versionId: string, checked: boolean) => {
+    if (!checked) {
+      setSelected(prev => prev.filter(id => id !== versionId));
+      return;
+    }
+    setSelected(prev => [...prev.filter(id => id !== versionId), versionId].slice(-2));
+    setIsLoading(true);
+    await vread(versionId);
+    setIsLoading(false);
+  };
+
+  const [olderId, newerId] = [...selected].sort((a, b) => Number(a) - Number(b));
+  const older = olderId ? versions[olderId]?.body : undefined;
+  const newer = newerId ? versions[newerId]?.body : undefined;
+  const changes = older && newer ? diffResourceVersions(older, newer) : null;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
+      <div className="bg-gradient-to-r from-medical-blue/10 to-medical-cyan/10 p-6 border-b border-white/20">
+        <div className="flex items-center gap-3">
+          <div className="p-3 rounded-2xl bg-medical-blue shadow-md">
+            <History className="h-6 w-6 text-white" />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-xl font-bold text-medical-blue">Version History</h3>
+            <p className="text-muted-foreground">
+              <span className="font-mono">GET Patient/{patientId}/_history</span> — select two versions to compare them
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={loadHistory}
+            disabled={isLoading}
+            className="rounded-xl border-medical-blue/30 text-medical-blue hover:bg-medical-blue/10"
+          >
+            <History className="h-4 w-4 mr-2" />
+            {entries ? 'Reload History' : 'Load History'}
+          </Button>
+        </div>
+      </div>
+
+      {entries && (
+        <div className="p-6 space-y-6">
+          {entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">The server returned no history entries.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Last Updated</TableHead>
+                  <TableHead>Interaction</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry, index) => {
+                  const versionId = getEntryVersion(entry);
+                  const timestamp = getEntryTimestamp(entry);
+                  const isDeletion = !entry.resource || entry.request?.method === 'DELETE';
+                  return (
+                    <TableRow key={versionId || index}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(versionId)}
+                          disabled={!versionId || isDeletion}
+                          onCheckedChange={checked => toggleSelected(versionId, checked === true)}
+                          aria-label={`Compare version ${versionId}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono">{versionId || '—'}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {timestamp ? new Date(timestamp).toLocaleString() : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {entry.request?.method && (
+                            <Badge variant={isDeletion ? 'destructive' : 'secondary'} className="font-mono">
+                              {entry.request.method}
+                            </Badge>
+                          )}
+                          <span className="text-xs text-muted-foreground">{entry.response?.status}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs break-all">
+                        {entry.resource?.meta?.source || '—'}
+                        {entry.resource?.meta?.tag?.map(tag => (
+                          <Badge key={`${tag.system}|${tag.code}`} variant="outline" className="ml-2">
+                            {tag.display || tag.code}
+                          </Badge>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          disabled={!versionId || isLoading}
+                          onClick={() => viewVersion(versionId)}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          vread
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {older && newer && changes && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <GitCompare className="h-5 w-5 text-medical-blue" />
+                <h4 className="font-semibold text-foreground">
+                  Version {olderId} → Version {newerId}
+                </h4>
+                <Badge variant="secondary">
+                  {changes.length} {changes.length === 1 ? 'change' : 'changes'}
+                </Badge>
+              </div>
+
+              {changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  The versions are identical apart from <span className="font-mono">meta.versionId</span> and{' '}
+                  <span className="font-mono">meta.lastUpdated</span>.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Element</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Version {olderId}</TableHead>
+                      <TableHead>Version {newerId}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map(change => (
+                      <TableRow key={change.path}>
+                        <TableCell className="font-mono text-xs">{change.path}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={diffKindClassName[change.kind]}>
+                            {change.kind}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs break-all text-error">{formatValue(change.before)}</TableCell>
+                        <TableCell className="font-mono text-xs break-all text-medical-green">{formatValue(change.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                {[
+                  { versionId: olderId, resource: older },
+                  { versionId: newerId, resource: newer },
+                ].map(({ versionId, resource }) => (
+                  <div key={versionId}>
+                    <h4 className="text-sm font-semibold text-foreground mb-2">Version {versionId}</h4>
+                    <pre className="rounded-2xl bg-muted/30 border border-muted/50 p-4 text-xs font-mono overflow-auto max-h-[50vh]">
+                      {JSON.stringify(resource, null, 2)}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {(viewedVersion || historyResponse) && (
+        <div className="p-6 pt-0 space-y-6">
+          {viewedVersion && (
+            <FHIRResponseCard
+              response={viewedVersion}
+              title="vread Response"
+              description={viewedVersion.ok ? 'A single historical version of the Patient' : 'The server could not return that version'}
+            />
+          )}
+          {historyResponse && !historyResponse.ok && (
+            <FHIRResponseCard
+              response={historyResponse}
+              title="History Response"
+              description="The server could not return the version history"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatientHistoryPanel;
@@ -0,0 +1,333 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { ChevronRight, ListFilter, RotateCcw, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import { FHIRResponse, FHIRResponseError } from '@/lib/fhir/client';
+import { isOperationOutcome, summarizeOutcome } from '@/lib/fhir/operation-outcome';
+import { getDisplayName } from '@/lib/fhir/patient';
+import {
+  buildPatientSearchParams,
+  emptyPatientSearchCriteria,
+  getBundleLink,
+  PageRelation,
+  PatientSearchCriteria,
+} from '@/lib/fhir/search';
+import type { Bundle, Patient } from '@/lib/fhir/types';
+import FHIRResponseCard from './FHIRResponseCard';
+
+interface SearchPatientFormProps {
+  onSelectPatient: (id: string) => void;
+}
+
+const textCriteria: Array<{ key: keyof PatientSearchCriteria; label: string; placeholder: string; type?: string }> = [
+  { key: 'name', label: 'Name', placeholder: 'Any part of the name' },
+  { key: 'family', label: 'Family Name', placeholder: 'e.g. Smith' },
+  { key: 'given', label: 'Given Name', placeholder: 'e.g. Jane' },
+  { key: 'birthdateFrom', label: 'Born On or After', placeholder: '', type: 'date' },
+  { key: 'birthdateTo', label: 'Born On or Before', placeholder: '', type: 'date' },
+  { key: 'identifierSystem', label: 'Identifier System', placeholder: 'e.g. https://fhir.nhs.uk/Id/nhs-number' },
+  { key: 'identifierValue', label: 'Identifier Value', placeholder: 'e.g. 9434765919' },
+  { key: 'phone', label: 'Phone', placeholder: 'e.g. +15551234567' },
+  { key: 'email', label: 'Email', placeholder: 'e.g. jane@example.org' },
+  { key: 'postalCode', label: 'Postal Code', placeholder: 'e.g. 90210' },
+  { key: 'id', label: 'Resource ID (_id)', placeholder: 'e.g. 123' },
+  { key: 'lastUpdatedFrom', label: 'Updated On or After', placeholder: '', type: 'date' },
+  { key: 'lastUpdatedTo', label: 'Updated On or Before', placeholder: '', type: 'date' },
+  { key: 'count', label: 'Page Size (_count)', placeholder: 'Server default', type: 'number' },
+];
+
+const inputClassName = 'mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+
+const SearchPatientForm = ({ onSelectPatient }: SearchPatientFormProps) => {
+  const { toast } = useToast();
+  const { client, activeEnvironment } = useFHIREnvironment();
+  const [criteria, setCriteria] = useState<PatientSearchCriteria>(emptyPatientSearchCriteria);
+  const [response, setResponse] = useState<FHIRResponse<unknown> | null>(null);
+  const [bundle, setBundle] = useState<Bundle<Patient> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageSize, setPageSize] = useState(0);
+
+  const params = buildPatientSearchParams(criteria);
+  const query = params.toString();
+
+  const handleCriteriaChange = (field: keyof PatientSearchCriteria, value: string) => {
+    setCriteria(prev => ({ ...prev, [field]: value }));
+  };
+
+  const runSearch = async (request: () => Promise<FHIRResponse<Bundle<Patient>>>) => {
+    setIsLoading(true);
+    setResponse(null);
+
+    try {
+      const result = await request();
+      setResponse(result);
+      setBundle(result.body);
+      return result.body;
+    } catch (error) {
+      const body = error instanceof FHIRResponseError ? error.response.body : null;
+      if (error instanceof FHIRResponseError) {
+        setResponse(error.response);
+      }
+      toast({
+        title: error instanceof FHIRResponseError ? `Error ${error.response.status}` : 'Error',
+        description: isOperationOutcome(body)
+          ? summarizeOutcome(body)
+          : error instanceof Error ? error.message : 'Search failed. Please try again.',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setBundle(null);
+    const firstPage = await runSearch(() => client.search<Patient>('Patient', params));
+    if (firstPage) {
+      setPageIndex(0);
+      setPageSize(Number(criteria.count) || firstPage.entry?.filter(entry => entry.search?.mode !== 'outcome').length || 0);
+    }
+  };
+
+  const lastPageIndex = bundle?.total !== undefined && pageSize > 0 ? Math.max(0, Math.ceil(bundle.total / pageSize) - 1) : undefined;
+
+  const goToPage = async (relation: PageRelation) => {
+    const url = bundle && getBundleLink(bundle, relation);
+    if (!url || isLoading) return;
+
+    const page = await runSearch(() => client.page<Patient>(url));
+    if (!page) return;
+    setPageIndex(prev => {
+      switch (relation) {
+        case 'first':
+          return 0;
+        case 'previous':
+          return Math.max(0, prev - 1);
+        case 'next':
+          return prev + 1;
+        case 'last':
+          return lastPageIndex ?? prev;
+      }
+    });
+  };
+
+  const canGoTo = (relation: PageRelation) =>
+    !!bundle && !!getBundleLink(bundle, relation) &&
+    !(relation === 'first' && pageIndex === 0) &&
+    !(relation === 'last' && pageIndex === lastPageIndex);
+
+  const pageLinkClassName = (relation: PageRelation) =>
+    canGoTo(relation) ? 'cursor-pointer' : 'pointer-events-none opacity-50';
+
+  const patients = (bundle?.entry || [])
+    .filter(entry => entry.resource?.resourceType === 'Patient' && entry.search?.mode !== 'include')
+    .map(entry => entry.resource as Patient);
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
+        <div className="bg-gradient-card p-8 border-b border-white/20">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-gradient-primary shadow-glow">
+              <ListFilter className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">Search Patients</h2>
+              <p className="text-muted-foreground">
+                Find Patient resources on <span className="font-medium text-foreground">{activeEnvironment.name}</span> using FHIR search parameters
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="p-8">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {textCriteria.map(({ key, label, placeholder, type }) => (
+                <div key={key}>
+                  <Label htmlFor={`search-${key}`} className="text-sm font-medium text-foreground">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`search-${key}`}
+                    type={type || 'text'}
+                    value={criteria[key]}
+                    onChange={(e) => handleCriteriaChange(key, e.target.value)}
+                    placeholder={placeholder}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+              <div>
+                <Label htmlFor="search-gender" className="text-sm font-medium text-foreground">
+                  Gender
+                </Label>
+                <Select
+                  value={criteria.gender || 'any'}
+                  onValueChange={(value) => handleCriteriaChange('gender', value === 'any' ? '' : value)}
+                >
+                  <SelectTrigger id="search-gender" className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
+                    <SelectItem value="any">Any</SelectItem>
+                    <SelectItem value="male">Male</SelectItem>
+                    <SelectItem value="female">Female</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                    <SelectItem value="unknown">Unknown</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="rounded-xl bg-muted/30 border border-muted/50 px-4 py-3 font-mono text-sm text-foreground break-all">
+              GET [base]/Patient{query ? `?${decodeURIComponent(query)}` : ''}
+            </div>
+
+            <div className="flex gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setCriteria(emptyPatientSearchCriteria)}
+                className="py-4 rounded-xl border-muted"
+              >
+                <RotateCcw className="h-5 w-5 mr-2" />
+                Clear
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="flex-1 py-4 rounded-xl bg-gradient-primary text-white font-semibold shadow-medical hover:shadow-glow transition-all duration-300 hover:scale-[1.02] disabled:opacity-50 disabled:transform-none"
+              >
+                {isLoading ? (
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                    Searching...
+                  </div>
+                ) : (
+                  <>
+                    <Search className="h-5 w-5 mr-2" />
+                    Search Patients
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {/* Search Results */}
+      {bundle && (
+        <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
+          <div className="bg-gradient-to-r from-medical-green/10 to-medical-cyan/10 p-6 border-b border-white/20">
+            <div className="flex items-center gap-3">
+              <div className="p-3 rounded-2xl bg-medical-green shadow-md">
+                <ListFilter className="h-6 w-6 text-white" />
+              </div>
+              <div className="flex-1">
+                <h3 className="text-xl font-bold text-medical-green">Search Results</h3>
+                <p className="text-muted-foreground">Select a patient to open it in the Get view</p>
+              </div>
+              <Badge variant="secondary" className="bg-medical-light/60 text-medical-blue border-medical-blue/20">
+                {patients.length} shown{bundle.total !== undefined ? ` of ${bundle.total} total` : ''}
+              </Badge>
+            </div>
+          </div>
+          <div className="p-6">
+            {patients.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No patients matched the search criteria.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Gender</TableHead>
+                    <TableHead>Date of Birth</TableHead>
+                    <TableHead>ID</TableHead>
+                    <TableHead>Last Updated</TableHead>
+                    <TableHead className="w-8"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {patients.map(patient => (
+                    <TableRow
+                      key={patient.id}
+                      className="cursor-pointer"
+                      onClick={() => patient.id && onSelectPatient(patient.id)}
+                    >
+                      <TableCell className="font-medium">{getDisplayName(patient)}</TableCell>
+                      <TableCell className="capitalize">{patient.gender || '—'}</TableCell>
+                      <TableCell>{patient.birthDate || '—'}</TableCell>
+                      <TableCell className="font-mono text-xs">{patient.id}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {patient.meta?.lastUpdated ? new Date(patient.meta.lastUpdated).toLocaleString() : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {(['first', 'previous', 'next', 'last'] as PageRelation[]).some(relation => getBundleLink(bundle, relation)) && (
+              <Pagination className="mt-6">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationLink size="default" aria-disabled={!canGoTo('first')} className={pageLinkClassName('first')} onClick={() => goToPage('first')}>
+                      First
+                    </PaginationLink>
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationPrevious aria-disabled={!canGoTo('previous')} className={pageLinkClassName('previous')} onClick={() => goToPage('previous')} />
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationLink isActive size="default" className="pointer-events-none">
+                      Page {pageIndex + 1}{lastPageIndex !== undefined ? ` of ${lastPageIndex + 1}` : ''}
+                    </PaginationLink>
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationNext aria-disabled={!canGoTo('next')} className={pageLinkClassName('next')} onClick={() => goToPage('next')} />
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationLink size="default" aria-disabled={!canGoTo('last')} className={pageLinkClassName('last')} onClick={() => goToPage('last')}>
+                      Last
+                    </PaginationLink>
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Raw JSON Response */}
+      {response && (
+        <FHIRResponseCard
+          response={response}
+          title="FHIR JSON Response"
+          description={response.ok ? 'Raw searchset Bundle returned by the server' : 'The server rejected the search'}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SearchPatientForm;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck } from 'lucide-react';
+import { SEVERITY_ORDER } from '@/lib/fhir/operation-outcome';
+import type { OperationOutcome, OperationOutcomeIssue } from '@/lib/fhir/types';
+import OperationOutcomeIssues from './OperationOutcomeIssues';
+
+export interface ServerValidation {
+  url: string;
+  status: number;
+  profile: string;
+  outcome: OperationOutcome;
+  /** Result of the local schema check on the same resource, for comparison. */
+  localOutcome: OperationOutcome;
+}
+
+interface ServerValidationReportProps {
+  validation: ServerValidation;
+}
+
+const severityLabels: Record<OperationOutcomeIssue['severity'], string> = {
+  fatal: 'Fatal',
+  error: 'Errors',
+  warning: 'Warnings',
+  information: 'Information',
+};
+
+const countBySeverity = (outcome: OperationOutcome, severity: OperationOutcomeIssue['severity']) =>
+  outcome.issue.filter(issue => issue.severity === severity).length;
+
+const ServerValidationReport = ({ validation }: ServerValidationReportProps) => {
+  const { outcome, localOutcome } = validation;
+  const hasErrors = outcome.issue.some(issue => issue.severity === 'error' || issue.severity === 'fatal');
+
+  return (
+    <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
+      <div className="bg-gradient-to-r from-medical-blue/10 to-medical-cyan/10 p-6 border-b border-white/20">
+        <div className="flex items-center gap-3">
+          <div className="p-3 rounded-2xl bg-medical-blue shadow-md">
+            <ShieldCheck className="h-6 w-6 text-white" />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-xl font-bold text-medical-blue">Server Validation</h3>
+            <p className="text-muted-foreground break-all">
+              <span className="font-mono">POST {validation.url}</span> returned {validation.status}
+              {validation.profile && <> against <span className="font-mono">{validation.profile}</span></>}
+            </p>
+          </div>
+          <Badge
+            variant={hasErrors ? 'destructive' : 'secondary'}
+            className={hasErrors ? '' : 'bg-medical-green/15 text-medical-green border-medical-green/20'}
+          >
+            {hasErrors ? 'Not valid' : 'Valid'}
+          </Badge>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {SEVERITY_ORDER.map(severity => (
+            <div key={severity} className="rounded-xl border border-muted/40 p-3">
+              <p className="text-xs text-muted-foreground">{severityLabels[severity]}</p>
+              <p className="text-lg font-semibold text-foreground">{countBySeverity(outcome, severity)}</p>
+              <p className="text-xs text-muted-foreground">local: {countBySeverity(localOutcome, severity)}</p>
+            </div>
+          ))}
+        </div>
+
+        {SEVERITY_ORDER.map(severity => {
+          const issues = outcome.issue.filter(issue => issue.severity === severity);
+          if (issues.length === 0) return null;
+          return (
+            <div key={severity} className="space-y-3">
+              <h4 className="text-sm font-semibold text-foreground">
+                {severityLabels[severity]} <span className="text-muted-foreground">({issues.length})</span>
+              </h4>
+              <OperationOutcomeIssues outcome={{ ...outcome, issue: issues }} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ServerValidationReport;
@@ -0,0 +1,279 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { FileCode, RotateCcw, Send, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import { BASE_PATIENT_STRUCTURE_DEFINITION } from '@/lib/fhir/base-definitions';
+import { FHIRResponse, FHIRResponseError, parseLocationId } from '@/lib/fhir/client';
+import { isOperationOutcome, summarizeOutcome } from '@/lib/fhir/operation-outcome';
+import { validatePatientProfile } from '@/lib/fhir/profiles';
+import {
+  buildElementTree,
+  checkElementCardinality,
+  flattenElementTree,
+  getStructureDefinitionError,
+  mustSupportElements,
+  pruneEmpty,
+  pruneToElementTree,
+} from '@/lib/fhir/structure-definition';
+import type { OperationOutcome, Patient, StructureDefinition } from '@/lib/fhir/types';
+import ElementField from './ElementField';
+import FHIRResponseCard from './FHIRResponseCard';
+import OperationOutcomeIssues from './OperationOutcomeIssues';
+
+const inputClassName = 'mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+
+const StructureDefinitionForm = () => {
+  const { toast } = useToast();
+  const { client, activeEnvironment } = useFHIREnvironment();
+  const [definitions, setDefinitions] = useState<StructureDefinition[]>([BASE_PATIENT_STRUCTURE_DEFINITION]);
+  const [definitionUrl, setDefinitionUrl] = useState(BASE_PATIENT_STRUCTURE_DEFINITION.url);
+  const [values, setValues] = useState<Record<string, unknown>>({});
+  const [mustSupportOnly, setMustSupportOnly] = useState(false);
+  const [outcome, setOutcome] = useState<OperationOutcome | null>(null);
+  const [response, setResponse] = useState<FHIRResponse<unknown> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const definition = definitions.find(candidate => candidate.url === definitionUrl) || BASE_PATIENT_STRUCTURE_DEFINITION;
+  const tree = useMemo(() => buildElementTree(definition), [definition]);
+  const allNodes = flattenElementTree(tree);
+  const visibleNodes = mustSupportOnly ? mustSupportElements(tree) : tree;
+  const isProfile = definition.url !== BASE_PATIENT_STRUCTURE_DEFINITION.url;
+
+  const resource: Patient = {
+    resourceType: 'Patient',
+    ...(isProfile && { meta: { profile: [definition.url] } }),
+    ...(pruneEmpty(values) as object | undefined),
+  };
+
+  // Base R4 rules plus any bundled rules for the profile; cardinality issues the
+  // base check already reported for the same element are not repeated.
+  const validate = (): OperationOutcome => {
+    const profileOutcome = validatePatientProfile(resource, definition.url);
+    const reported = new Set(profileOutcome.issue.flatMap(issue => issue.expression || []));
+    const cardinality = checkElementCardinality(tree, resource)
+      .filter(issue => !issue.expression?.some(expression => reported.has(expression)));
+    return { resourceType: 'OperationOutcome', issue: [...cardinality, ...profileOutcome.issue] };
+  };
+
+  const errorCount = (result: OperationOutcome) =>
+    result.issue.filter(issue => issue.severity === 'error' || issue.severity === 'fatal').length;
+
+  // Values the new definition would hide are dropped so they do not end up in the created resource.
+  const selectDefinition = (next: StructureDefinition) => {
+    setDefinitionUrl(next.url);
+    setValues(prev => pruneToElementTree(buildElementTree(next), prev));
+    setOutcome(null);
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    let uploaded: unknown;
+    try {
+      uploaded = JSON.parse(await file.text());
+    } catch {
+      toast({ title: 'Invalid File', description: `${file.name} is not valid JSON.`, variant: 'destructive' });
+      return;
+    }
+    const error = getStructureDefinitionError(uploaded);
+    if (error) {
+      toast({ title: 'Unsupported StructureDefinition', description: error, variant: 'destructive' });
+      return;
+    }
+
+    const structureDefinition = uploaded as StructureDefinition;
+    setDefinitions(prev => [...prev.filter(existing => existing.url !== structureDefinition.url), structureDefinition]);
+    selectDefinition(structureDefinition);
+    toast({
+      title: 'Profile Loaded',
+      description: `${structureDefinition.title || structureDefinition.name || structureDefinition.url} has ${structureDefinition.snapshot.element.length} snapshot elements.`,
+    });
+  };
+
+  const handleValidate = () => {
+    const result = validate();
+    setOutcome(result);
+    const errors = errorCount(result);
+    toast({
+      title: errors > 0 ? 'Validation Failed' : 'Validation Passed',
+      description: errors > 0 ? `${errors} error${errors === 1 ? '' : 's'} against ${definition.title || definition.url}.` : `The patient conforms to ${definition.title || definition.url}.`,
+      variant: errors > 0 ? 'destructive' : undefined,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = validate();
+    setOutcome(result);
+    if (errorCount(result) > 0) {
+      toast({
+        title: 'Validation Error',
+        description: `Fix ${errorCount(result)} error${errorCount(result) === 1 ? '' : 's'} before creating the patient.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    setResponse(null);
+    try {
+      const created = await client.create(resource);
+      const id = created.body?.id || parseLocationId(created.headers.location, 'Patient');
+      setResponse(created);
+      toast({ title: 'Patient Created', description: `Patient created${id ? ` with ID ${id}` : ''}.` });
+    } catch (error) {
+      const body = error instanceof FHIRResponseError ? error.response.body : null;
+      if (error instanceof FHIRResponseError) {
+        setResponse(error.response);
+      }
+      toast({
+        title: error instanceof FHIRResponseError ? `Error ${error.response.status}` : 'Error',
+        description: isOperationOutcome(body)
+          ? summarizeOutcome(body)
+          : error instanceof Error ? error.message : 'Failed to create patient. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
+        <div className="bg-gradient-card p-8 border-b border-white/20">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-gradient-primary shadow-glow">
+              <FileCode className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">Profile-Driven Form</h2>
+              <p className="text-muted-foreground">
+                Generated from a StructureDefinition snapshot; creates on <span className="font-medium text-foreground">{activeEnvironment.name}</span>
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-8 space-y-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <Label className="text-sm font-medium text-foreground">StructureDefinition</Label>
+              <Select
+                value={definition.url}
+                onValueChange={url => {
+                  const selected = definitions.find(candidate => candidate.url === url);
+                  if (selected) selectDefinition(selected);
+                }}
+              >
+                <SelectTrigger className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
+                  {definitions.map(candidate => (
+                    <SelectItem key={candidate.url} value={candidate.url}>
+                      {candidate.title || candidate.name || candidate.url}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-xs text-muted-foreground font-mono break-all">{definition.url}</p>
+            </div>
+            <div>
+              <Label htmlFor="structure-definition-upload" className="text-sm font-medium text-foreground">
+                Upload Profile <span className="text-muted-foreground font-normal">(StructureDefinition JSON with a snapshot)</span>
+              </Label>
+              <Input
+                id="structure-definition-upload"
+                type="file"
+                accept=".json,application/json,application/fhir+json"
+                onChange={handleUpload}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4 rounded-xl border border-muted/40 p-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="bg-medical-light/50 text-medical-blue border-medical-blue/20">
+                {allNodes.length} elements
+              </Badge>
+              <Badge variant="secondary" className="bg-medical-light/50 text-medical-blue border-medical-blue/20">
+                {allNodes.filter(node => node.min > 0).length} required
+              </Badge>
+              <Badge variant="secondary" className="bg-medical-light/50 text-medical-blue border-medical-blue/20">
+                {allNodes.filter(node => node.mustSupport).length} must-support
+              </Badge>
+            </div>
+            <label className="flex items-center gap-3 text-sm">
+              <Switch checked={mustSupportOnly} onCheckedChange={setMustSupportOnly} aria-label="Must-support only" />
+              Must-support and required elements only
+            </label>
+          </div>
+
+          <div className="space-y-6">
+            {visibleNodes.map(node => (
+              <ElementField key={node.path} node={node} parent={values} onChange={setValues} mustSupportOnly={mustSupportOnly} />
+            ))}
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium text-foreground">Generated Resource</Label>
+            <pre className="mt-2 rounded-xl bg-muted/30 border border-muted/50 p-4 text-xs font-mono text-foreground overflow-auto max-h-80 whitespace-pre-wrap">
+              {JSON.stringify(resource, null, 2)}
+            </pre>
+          </div>
+
+          {outcome && (
+            <div className="space-y-3">
+              <Label className="text-sm font-medium text-foreground">Local Validation</Label>
+              <OperationOutcomeIssues outcome={outcome} />
+            </div>
+          )}
+
+          <div className="flex flex-col md:flex-row gap-3">
+            <Button type="button" variant="outline" onClick={() => { setValues({}); setOutcome(null); }} className="py-4 h-auto rounded-xl">
+              <RotateCcw className="h-5 w-5 mr-2" />
+              Clear
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleValidate}
+              className="py-4 h-auto rounded-xl border-medical-blue/30 text-medical-blue font-semibold hover:bg-medical-blue/10"
+            >
+              <ShieldCheck className="h-5 w-5 mr-2" />
+              Validate
+            </Button>
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="flex-1 py-4 rounded-xl bg-gradient-primary text-white font-semibold shadow-medical hover:shadow-glow transition-all duration-300 hover:scale-[1.02] disabled:opacity-50 disabled:transform-none"
+            >
+              <Send className="h-5 w-5 mr-2" />
+              {isLoading ? 'Creating...' : 'Create Patient'}
+            </Button>
+          </div>
+        </form>
+      </div>
+
+      {response && (
+        <FHIRResponseCard
+          response={response}
+          title={response.ok ? 'Patient Created Successfully' : 'Patient Creation Failed'}
+          description={response.ok ? 'FHIR Patient resource returned by the server' : 'The server rejected the Patient resource'}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StructureDefinitionForm;
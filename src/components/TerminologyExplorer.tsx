@@ -0,0 +1,430 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BookOpen, CheckCircle2, CornerDownLeft, Info, Search, ShieldCheck, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFHIREnvironment } from '@/hooks/use-fhir-environment';
+import { createFHIRClient, FHIR_CONTENT_TYPE, FHIRResponse, FHIRResponseError } from '@/lib/fhir/client';
+import { toClientConfig } from '@/lib/fhir/environments';
+import { isOperationOutcome, summarizeOutcome } from '@/lib/fhir/operation-outcome';
+import {
+  CODED_PATIENT_FIELDS,
+  CodedPatientField,
+  CodeValidation,
+  CodingInsertion,
+  flattenExpansion,
+  LOCAL_VALUE_SETS,
+  MARITAL_STATUS_VALUE_SET,
+  parameterRows,
+  readCodeValidation,
+} from '@/lib/fhir/terminology';
+import type { Coding, Parameters } from '@/lib/fhir/types';
+import FHIRResponseCard from './FHIRResponseCard';
+
+interface TerminologyExplorerProps {
+  onInsertCoding: (insertion: CodingInsertion) => void;
+}
+
+const inputClassName = 'mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20';
+
+const CUSTOM_SERVER = 'custom';
+
+interface SelectedCode {
+  system: string;
+  code: string;
+  display: string;
+}
+
+interface Expansion {
+  total?: number;
+  codings: Coding[];
+}
+
+// The operation whose Parameters are shown under the selected code.
+interface OperationResult {
+  operation: '$lookup' | '$validate-code';
+  parameters: Parameters | null;
+  validation?: CodeValidation;
+}
+
+const TerminologyExplorer = ({ onInsertCoding }: TerminologyExplorerProps) => {
+  const { toast } = useToast();
+  const { environments, activeEnvironment } = useFHIREnvironment();
+  const [serverId, setServerId] = useState(activeEnvironment.id);
+  const [customBaseUrl, setCustomBaseUrl] = useState('https://tx.fhir.org/r4');
+  const [valueSetUrl, setValueSetUrl] = useState(MARITAL_STATUS_VALUE_SET.url);
+  const [filter, setFilter] = useState('');
+  const [count, setCount] = useState('50');
+  const [expansion, setExpansion] = useState<Expansion | null>(null);
+  const [selected, setSelected] = useState<SelectedCode>({ system: '', code: '', display: '' });
+  const [result, setResult] = useState<OperationResult | null>(null);
+  const [target, setTarget] = useState<CodedPatientField>('maritalStatus');
+  const [response, setResponse] = useState<FHIRResponse<unknown> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const server = environments.find(environment => environment.id === serverId);
+  const serverName = server ? server.name : customBaseUrl;
+  const client = useMemo(
+    () => createFHIRClient(server
+      ? toClientConfig(server)
+      : { baseUrl: customBaseUrl.trim(), headers: { Accept: FHIR_CONTENT_TYPE } }),
+    [server, customBaseUrl]
+  );
+
+  const handleRequestError = (error: unknown, fallbackMessage: string) => {
+    const body = error instanceof FHIRResponseError ? error.response.body : null;
+    if (error instanceof FHIRResponseError) {
+      setResponse(error.response);
+    }
+    toast({
+      title: error instanceof FHIRResponseError ? `Error ${error.response.status}` : 'Error',
+      description: isOperationOutcome(body)
+        ? summarizeOutcome(body)
+        : error instanceof Error ? error.message : fallbackMessage,
+      variant: 'destructive',
+    });
+  };
+
+  const run = async (operation: () => Promise<void>, fallbackMessage: string) => {
+    setIsLoading(true);
+    setResponse(null);
+    try {
+      await operation();
+    } catch (error) {
+      handleRequestError(error, fallbackMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExpand = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valueSetUrl.trim()) {
+      toast({ title: 'Validation Error', description: 'Enter the canonical URL of a ValueSet to expand.', variant: 'destructive' });
+      return;
+    }
+    run(async () => {
+      const expanded = await client.expand({ url: valueSetUrl.trim(), filter: filter.trim() || undefined, count: Number(count) || undefined });
+      setResponse(expanded);
+      setExpansion({ total: expanded.body?.expansion?.total, codings: flattenExpansion(expanded.body?.expansion?.contains) });
+    }, 'Failed to expand the value set.');
+  };
+
+  const selectCoding = (coding: Coding) => {
+    setSelected({ system: coding.system || '', code: coding.code || '', display: coding.display || '' });
+    setResult(null);
+  };
+
+  const requireCode = () => {
+    if (selected.code.trim()) return true;
+    toast({ title: 'Validation Error', description: 'Select a code from the expansion or enter one.', variant: 'destructive' });
+    return false;
+  };
+
+  const handleLookup = () => {
+    if (!requireCode()) return;
+    if (!selected.system.trim()) {
+      toast({ title: 'Validation Error', description: 'CodeSystem/$lookup needs the code system.', variant: 'destructive' });
+      return;
+    }
+    run(async () => {
+      const lookedUp = await client.lookup({ system: selected.system.trim(), code: selected.code.trim() });
+      setResponse(lookedUp);
+      setResult({ operation: '$lookup', parameters: lookedUp.body });
+    }, 'Failed to look up the code.');
+  };
+
+  const handleValidateCode = () => {
+    if (!requireCode()) return;
+    run(async () => {
+      const validated = await client.validateCode({
+        url: valueSetUrl.trim(),
+        system: selected.system.trim() || undefined,
+        code: selected.code.trim(),
+        display: selected.display.trim() || undefined,
+      });
+      const validation = readCodeValidation(validated.body);
+      setResponse(validated);
+      setResult({ operation: '$validate-code', parameters: validated.body, validation });
+      toast({
+        title: validation.result ? 'Code Accepted' : 'Code Not Accepted',
+        description: validation.message || `${selected.code} ${validation.result ? 'is' : 'is not'} in ${valueSetUrl}.`,
+        variant: validation.result ? undefined : 'destructive',
+      });
+    }, 'Failed to validate the code.');
+  };
+
+  const handleInsert = () => {
+    if (!requireCode()) return;
+    onInsertCoding({
+      field: target,
+      coding: {
+        ...(selected.system.trim() && { system: selected.system.trim() }),
+        code: selected.code.trim(),
+        ...(selected.display.trim() && { display: selected.display.trim() }),
+      },
+    });
+  };
+
+  const rows = parameterRows(result?.parameters);
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
+        <div className="bg-gradient-card p-8 border-b border-white/20">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-gradient-primary shadow-glow">
+              <BookOpen className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">Terminology Explorer</h2>
+              <p className="text-muted-foreground">
+                Check which codes <span className="font-medium text-foreground">{serverName}</span> accepts before building test patients
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 space-y-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <Label className="text-sm font-medium text-foreground">Terminology Server</Label>
+              <Select value={serverId} onValueChange={value => { setServerId(value); setExpansion(null); setResult(null); }}>
+                <SelectTrigger className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
+                  {environments.map(environment => (
+                    <SelectItem key={environment.id} value={environment.id}>{environment.name}</SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_SERVER}>Other terminology server…</SelectItem>
+                </SelectContent>
+              </Select>
+              {server && <p className="mt-1 text-xs text-muted-foreground font-mono break-all">{server.baseUrl}</p>}
+            </div>
+            {!server && (
+              <div>
+                <Label htmlFor="terminology-base-url" className="text-sm font-medium text-foreground">Base URL</Label>
+                <Input
+                  id="terminology-base-url"
+                  value={customBaseUrl}
+                  onChange={e => setCustomBaseUrl(e.target.value)}
+                  placeholder="https://tx.fhir.org/r4"
+                  className={`${inputClassName} font-mono text-sm`}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* ValueSet/$expand */}
+          <form onSubmit={handleExpand} className="border-t border-muted/30 pt-8 space-y-4">
+            <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+              <span className="w-2 h-2 bg-medical-blue rounded-full"></span>
+              Expand a ValueSet
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
+              <div className="md:col-span-6">
+                <Label htmlFor="terminology-value-set" className="text-sm font-medium text-foreground">ValueSet URL</Label>
+                <Input
+                  id="terminology-value-set"
+                  value={valueSetUrl}
+                  onChange={e => setValueSetUrl(e.target.value)}
+                  list="terminology-value-sets"
+                  className={`${inputClassName} font-mono text-sm`}
+                />
+                <datalist id="terminology-value-sets">
+                  {LOCAL_VALUE_SETS.map(valueSet => (
+                    <option key={valueSet.url} value={valueSet.url}>{valueSet.title}</option>
+                  ))}
+                </datalist>
+              </div>
+              <div className="md:col-span-4">
+                <Label htmlFor="terminology-filter" className="text-sm font-medium text-foreground">Filter</Label>
+                <Input id="terminology-filter" value={filter} onChange={e => setFilter(e.target.value)} placeholder="e.g. married" className={inputClassName} />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="terminology-count" className="text-sm font-medium text-foreground">Count</Label>
+                <Input id="terminology-count" type="number" min={1} value={count} onChange={e => setCount(e.target.value)} className={inputClassName} />
+              </div>
+            </div>
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="rounded-xl bg-gradient-primary text-white font-semibold shadow-medical hover:shadow-glow disabled:opacity-50"
+            >
+              <Search className="h-4 w-4 mr-2" />
+              {isLoading ? 'Working...' : 'Expand'}
+            </Button>
+
+            {expansion && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-muted-foreground">Select a row to look it up, validate it or insert it into the patient form.</p>
+                  <Badge variant="secondary" className="bg-medical-light/60 text-medical-blue border-medical-blue/20">
+                    {expansion.codings.length} shown{expansion.total !== undefined ? ` of ${expansion.total} total` : ''}
+                  </Badge>
+                </div>
+                {expansion.codings.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">The expansion contains no codes.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Code</TableHead>
+                        <TableHead>Display</TableHead>
+                        <TableHead>System</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {expansion.codings.map(coding => (
+                        <TableRow
+                          key={`${coding.system}|${coding.code}`}
+                          className="cursor-pointer"
+                          data-state={coding.system === selected.system && coding.code === selected.code ? 'selected' : undefined}
+                          onClick={() => selectCoding(coding)}
+                        >
+                          <TableCell className="font-mono">{coding.code}</TableCell>
+                          <TableCell>{coding.display || '—'}</TableCell>
+                          <TableCell className="font-mono text-xs text-muted-foreground break-all">{coding.system}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+          </form>
+
+          {/* CodeSystem/$lookup and ValueSet/$validate-code */}
+          <div className="border-t border-muted/30 pt-8 space-y-4">
+            <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+              <span className="w-2 h-2 bg-medical-cyan rounded-full"></span>
+              Selected Code
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
+              <div className="md:col-span-5">
+                <Label className="text-sm font-medium text-foreground">System</Label>
+                <Input
+                  value={selected.system}
+                  onChange={e => setSelected({ ...selected, system: e.target.value })}
+                  placeholder="http://terminology.hl7.org/CodeSystem/v3-MaritalStatus"
+                  className={`${inputClassName} font-mono text-sm`}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <Label className="text-sm font-medium text-foreground">Code</Label>
+                <Input value={selected.code} onChange={e => setSelected({ ...selected, code: e.target.value })} className={`${inputClassName} font-mono`} />
+              </div>
+              <div className="md:col-span-4">
+                <Label className="text-sm font-medium text-foreground">Display</Label>
+                <Input value={selected.display} onChange={e => setSelected({ ...selected, display: e.target.value })} className={inputClassName} />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <Button type="button" variant="outline" disabled={isLoading} onClick={handleLookup} className="rounded-xl">
+                <Info className="h-4 w-4 mr-2" />
+                Look Up
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isLoading}
+                onClick={handleValidateCode}
+                className="rounded-xl border-medical-blue/30 text-medical-blue hover:bg-medical-blue/10"
+              >
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Validate Against ValueSet
+              </Button>
+            </div>
+
+            {result && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm text-foreground">{result.operation}</span>
+                  {result.validation && (
+                    <Badge
+                      variant="secondary"
+                      className={result.validation.result ? 'bg-medical-green/10 text-medical-green border-medical-green/20' : 'bg-error/10 text-error border-error/20'}
+                    >
+                      {result.validation.result
+                        ? <CheckCircle2 className="h-3 w-3 mr-1" />
+                        : <XCircle className="h-3 w-3 mr-1" />}
+                      {result.validation.result ? 'Valid' : 'Invalid'}
+                    </Badge>
+                  )}
+                </div>
+                {rows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">The server returned no output parameters.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-48">Parameter</TableHead>
+                        <TableHead>Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="font-mono text-xs">{row.name}</TableCell>
+                          <TableCell className="text-sm break-all">{row.value}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Insert into the patient form */}
+          <div className="border-t border-muted/30 pt-8 space-y-4">
+            <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+              <span className="w-2 h-2 bg-medical-green rounded-full"></span>
+              Use in Patient
+            </h3>
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="md:w-80">
+                <Label className="text-sm font-medium text-foreground">Patient Field</Label>
+                <Select value={target} onValueChange={value => setTarget(value as CodedPatientField)}>
+                  <SelectTrigger className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="rounded-xl border-muted bg-white/95 backdrop-blur-xl">
+                    {CODED_PATIENT_FIELDS.map(({ field, label, element }) => (
+                      <SelectItem key={field} value={field}>
+                        {label} <span className="ml-2 font-mono text-xs text-muted-foreground">{element}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                type="button"
+                onClick={handleInsert}
+                className="rounded-xl bg-gradient-primary text-white font-semibold shadow-medical hover:shadow-glow"
+              >
+                <CornerDownLeft className="h-4 w-4 mr-2" />
+                Insert Into Patient Form
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {response && (
+        <FHIRResponseCard
+          response={response}
+          title={response.ok ? 'Terminology Response' : 'Terminology Request Failed'}
+          description={`${response.method} ${response.url}`}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TerminologyExplorer;
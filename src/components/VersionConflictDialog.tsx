@@ -0,0 +1,93 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { FHIRResource } from '@/lib/fhir/types';
+
+interface VersionConflictDialogProps {
+  open: boolean;
+  ours: FHIRResource;
+  theirs: FHIRResource | null;
+  conflicts: string[];
+  isLoading: boolean;
+  onOverwrite: () => void;
+  onMerge: () => void;
+  onLoadServerVersion: () => void;
+  onCancel: () => void;
+}
+
+const VersionConflictDialog = ({
+  open,
+  ours,
+  theirs,
+  conflicts,
+  isLoading,
+  onOverwrite,
+  onMerge,
+  onLoadServerVersion,
+  onCancel,
+}: VersionConflictDialogProps) => (
+  <Dialog open={open} onOpenChange={isOpen => !isOpen && onCancel()}>
+    <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto rounded-3xl bg-white/95 backdrop-blur-xl">
+      <DialogHeader>
+        <DialogTitle>412 Precondition Failed — Version Conflict</DialogTitle>
+        <DialogDescription>
+          The resource changed on the server since it was loaded. Compare both versions, then overwrite the server
+          copy, merge your changes into it, or start again from the server version.
+        </DialogDescription>
+      </DialogHeader>
+
+      {conflicts.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Changed on both sides:</span>
+          {conflicts.map(element => (
+            <Badge key={element} variant="destructive" className="font-mono">
+              {element}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-sm font-semibold text-foreground mb-2">Your Version</h4>
+          <pre className="rounded-2xl bg-muted/30 border border-muted/50 p-4 text-xs font-mono overflow-auto max-h-[50vh]">
+            {JSON.stringify(ours, null, 2)}
+          </pre>
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-foreground mb-2">
+            Server Version {theirs?.meta?.versionId && <span className="font-mono">(v{theirs.meta.versionId})</span>}
+          </h4>
+          <pre className="rounded-2xl bg-muted/30 border border-muted/50 p-4 text-xs font-mono overflow-auto max-h-[50vh]">
+            {theirs ? JSON.stringify(theirs, null, 2) : 'The current server version could not be read.'}
+          </pre>
+        </div>
+      </div>
+
+      <DialogFooter className="gap-2">
+        <Button variant="outline" className="rounded-xl" onClick={onCancel} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button variant="outline" className="rounded-xl" onClick={onLoadServerVersion} disabled={isLoading || !theirs}>
+          Load Server Version
+        </Button>
+        <Button variant="outline" className="rounded-xl" onClick={onMerge} disabled={isLoading || !theirs}>
+          Merge and Retry
+        </Button>
+        <Button className="rounded-xl bg-gradient-primary text-white" onClick={onOverwrite} disabled={isLoading || !theirs}>
+          Overwrite Server Version
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
+
+export default VersionConflictDialog;
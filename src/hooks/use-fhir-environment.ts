@@ -0,0 +1,26 @@
+import * as React from 'react';
+import type { FHIRClient } from '@/lib/fhir/client';
+import type { FHIREnvironment } from '@/lib/fhir/environments';
+import type { SmartSession } from '@/lib/fhir/smart-auth';
+
+export interface FHIREnvironmentContextValue {
+  environments: FHIREnvironment[];
+  activeEnvironment: FHIREnvironment;
+  client: FHIRClient;
+  smartSession: SmartSession | null;
+  signIn: () => Promise<void>;
+  signOut: () => void;
+  setActiveEnvironment: (id: string) => void;
+  saveEnvironment: (environment: FHIREnvironment) => void;
+  removeEnvironment: (id: string) => void;
+}
+
+export const FHIREnvironmentContext = React.createContext<FHIREnvironmentContextValue | null>(null);
+
+export function useFHIREnvironment() {
+  const context = React.useContext(FHIREnvironmentContext);
+  if (!context) {
+    throw new Error('useFHIREnvironment must be used within a FHIREnvironmentProvider.');
+  }
+  return context;
+}
@@ -0,0 +1,147 @@
+import type { Address } from './types';
+
+// Structured Address editing: country-specific postal code formats and the
+// generated `text` line. Countries are matched by ISO 3166 alpha-2 code or
+// English name, as `Address.country` allows either.
+
+export const ADDRESS_USES = ['home', 'work', 'temp', 'old', 'billing'];
+
+export const ADDRESS_TYPES = ['postal', 'physical', 'both'];
+
+type AddressLayout = 'city-state-postal' | 'postal-city' | 'city-postal';
+
+export interface CountryAddressFormat {
+  code: string;
+  name: string;
+  stateLabel: string;
+  postalCodeLabel: string;
+  postalCodePattern: RegExp;
+  postalCodeExample: string;
+  layout: AddressLayout;
+}
+
+export const COUNTRY_ADDRESS_FORMATS: CountryAddressFormat[] = [
+  { code: 'US', name: 'United States', stateLabel: 'State', postalCodeLabel: 'ZIP Code', postalCodePattern: /^\d{5}(-\d{4})?$/, postalCodeExample: '12345 or 12345-6789', layout: 'city-state-postal' },
+  { code: 'CA', name: 'Canada', stateLabel: 'Province', postalCodeLabel: 'Postal Code', postalCodePattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i, postalCodeExample: 'K1A 0B1', layout: 'city-state-postal' },
+  { code: 'AU', name: 'Australia', stateLabel: 'State', postalCodeLabel: 'Postcode', postalCodePattern: /^\d{4}$/, postalCodeExample: '2000', layout: 'city-state-postal' },
+  { code: 'GB', name: 'United Kingdom', stateLabel: 'County', postalCodeLabel: 'Postcode', postalCodePattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, postalCodeExample: 'SW1A 1AA', layout: 'city-postal' },
+  { code: 'IE', name: 'Ireland', stateLabel: 'County', postalCodeLabel: 'Eircode', postalCodePattern: /^([AC-FHKNPRTV-Y]\d{2}|D6W) ?[0-9AC-FHKNPRTV-Y]{4}$/i, postalCodeExample: 'D02 X285', layout: 'city-postal' },
+  { code: 'DE', name: 'Germany', stateLabel: 'State', postalCodeLabel: 'Postleitzahl', postalCodePattern: /^\d{5}$/, postalCodeExample: '10115', layout: 'postal-city' },
+  { code: 'FR', name: 'France', stateLabel: 'Region', postalCodeLabel: 'Code postal', postalCodePattern: /^\d{5}$/, postalCodeExample: '75001', layout: 'postal-city' },
+  { code: 'NL', name: 'Netherlands', stateLabel: 'Province', postalCodeLabel: 'Postcode', postalCodePattern: /^\d{4} ?[A-Z]{2}$/i, postalCodeExample: '1012 AB', layout: 'postal-city' },
+  { code: 'IN', name: 'India', stateLabel: 'State', postalCodeLabel: 'PIN Code', postalCodePattern: /^\d{6}$/, postalCodeExample: '110001', layout: 'city-state-postal' },
+  { code: 'JP', name: 'Japan', stateLabel: 'Prefecture', postalCodeLabel: 'Postal Code', postalCodePattern: /^\d{3}-?\d{4}$/, postalCodeExample: '100-0001', layout: 'postal-city' },
+];
+
+export const findCountryFormat = (country?: string) => {
+  const normalized = country?.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return COUNTRY_ADDRESS_FORMATS.find(
+    format => format.code.toLowerCase() === normalized || format.name.toLowerCase() === normalized
+  );
+};
+
+/** Checks the postal code against the country's format; unknown countries are not checked. */
+export const validatePostalCode = (postalCode: string | undefined, country: string | undefined) => {
+  const format = findCountryFormat(country);
+  if (!format || !postalCode?.trim()) return null;
+  return format.postalCodePattern.test(postalCode.trim())
+    ? null
+    : `${format.postalCodeLabel} should look like ${format.postalCodeExample} for ${format.name}`;
+};
+
+/** Renders the structured parts of an address as a single line in the country's usual order. */
+export const formatAddressText = (address: Address) => {
+  const { city, state, postalCode, district } = address;
+  const layout = findCountryFormat(address.country)?.layout || 'city-state-postal';
+  const locality = {
+    'city-state-postal': [city, [state, postalCode].filter(Boolean).join(' ')],
+    'postal-city': [[postalCode, city].filter(Boolean).join(' '), state],
+    'city-postal': [city, state, postalCode],
+  }[layout];
+
+  return [...(address.line || []), district, ...locality, address.country]
+    .filter(part => part && part.trim())
+    .join(', ');
+};
+
+export const formatAddress = (address: Address) => address.text || formatAddressText(address);
+
+/** String-only shape of an Address as edited in the patient form. */
+export interface AddressFormValue {
+  use: string;
+  type: string;
+  /** One address line per text line. */
+  lines: string;
+  city: string;
+  district: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  periodStart: string;
+  periodEnd: string;
+  text: string;
+  /** When set, `text` is generated from the structured parts on save. */
+  autoText: boolean;
+}
+
+export const emptyAddressFormValue: AddressFormValue = {
+  use: 'home',
+  type: '',
+  lines: '',
+  city: '',
+  district: '',
+  state: '',
+  postalCode: '',
+  country: '',
+  periodStart: '',
+  periodEnd: '',
+  text: '',
+  autoText: true,
+};
+
+export const addressToFormValue = (address: Address): AddressFormValue => ({
+  use: address.use || '',
+  type: address.type || '',
+  lines: (address.line || []).join('\n'),
+  city: address.city || '',
+  district: address.district || '',
+  state: address.state || '',
+  postalCode: address.postalCode || '',
+  country: address.country || '',
+  periodStart: address.period?.start || '',
+  periodEnd: address.period?.end || '',
+  text: address.text || '',
+  // Keep hand-written text (e.g. from older free-text addresses) unless it matches what we would generate.
+  autoText: !address.text || address.text === formatAddressText(address),
+});
+
+export const formValueToAddress = (form: AddressFormValue): Address => {
+  const address: Address = {};
+  const set = (key: 'use' | 'type' | 'city' | 'district' | 'state' | 'postalCode' | 'country', value: string) => {
+    if (value.trim()) address[key] = value.trim();
+  };
+
+  set('use', form.use);
+  set('type', form.type);
+  const lines = form.lines.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length > 0) address.line = lines;
+  set('city', form.city);
+  set('district', form.district);
+  set('state', form.state);
+  set('postalCode', form.postalCode);
+  set('country', form.country);
+  if (form.periodStart || form.periodEnd) {
+    address.period = {
+      ...(form.periodStart ? { start: form.periodStart } : {}),
+      ...(form.periodEnd ? { end: form.periodEnd } : {}),
+    };
+  }
+
+  const text = form.autoText ? formatAddressText(address) : form.text.trim();
+  return text ? { ...address, text } : address;
+};
+
+export const isAddressEmpty = (form: AddressFormValue) =>
+  ![form.lines, form.city, form.district, form.state, form.postalCode, form.country, form.autoText ? '' : form.text]
+    .some(value => value.trim());
@@ -0,0 +1,206 @@
+import { ADMINISTRATIVE_GENDER_VALUE_SET } from './terminology';
+import type { Coding, ElementDefinition, StructureDefinition } from './types';
+
+// A trimmed copy of the R4 Patient snapshot and of the datatypes it uses:
+// paths, cardinalities, types, short descriptions and bindings, without the
+// constraints and mappings. Enough to generate a form for the base resource
+// and to expand datatype children that a profile's snapshot leaves out.
+// See https://hl7.org/fhir/R4/patient.profile.json.html
+
+const element = (
+  path: string,
+  min: number,
+  max: string,
+  types: string[],
+  short: string,
+  extra: Partial<ElementDefinition> = {}
+): ElementDefinition => ({ id: path, path, short, min, max, type: types.map(code => ({ code })), ...extra });
+
+const required = (valueSet: string) => ({ binding: { strength: 'required' as const, valueSet } });
+
+const ADMINISTRATIVE_GENDER = 'http://hl7.org/fhir/ValueSet/administrative-gender|4.0.1';
+
+export const BASE_PATIENT_STRUCTURE_DEFINITION: StructureDefinition = {
+  resourceType: 'StructureDefinition',
+  url: 'http://hl7.org/fhir/StructureDefinition/Patient',
+  name: 'Patient',
+  title: 'Patient (FHIR R4)',
+  type: 'Patient',
+  snapshot: {
+    element: [
+      { id: 'Patient', path: 'Patient', short: 'Information about an individual or animal receiving health care services', min: 0, max: '*' },
+      element('Patient.id', 0, '1', ['id'], 'Logical id of this artifact'),
+      element('Patient.meta', 0, '1', ['Meta'], 'Metadata about the resource'),
+      element('Patient.implicitRules', 0, '1', ['uri'], 'A set of rules under which this content was created'),
+      element('Patient.language', 0, '1', ['code'], 'Language of the resource content'),
+      element('Patient.text', 0, '1', ['Narrative'], 'Text summary of the resource, for human interpretation'),
+      element('Patient.contained', 0, '*', ['Resource'], 'Contained, inline Resources'),
+      element('Patient.extension', 0, '*', ['Extension'], 'Additional content defined by implementations'),
+      element('Patient.modifierExtension', 0, '*', ['Extension'], 'Extensions that cannot be ignored'),
+      element('Patient.identifier', 0, '*', ['Identifier'], 'An identifier for this patient'),
+      element('Patient.active', 0, '1', ['boolean'], "Whether this patient's record is in active use"),
+      element('Patient.name', 0, '*', ['HumanName'], 'A name associated with the patient'),
+      element('Patient.telecom', 0, '*', ['ContactPoint'], 'A contact detail for the individual'),
+      element('Patient.gender', 0, '1', ['code'], 'male | female | other | unknown', required(ADMINISTRATIVE_GENDER)),
+      element('Patient.birthDate', 0, '1', ['date'], 'The date of birth for the individual'),
+      element('Patient.deceased[x]', 0, '1', ['boolean', 'dateTime'], 'Indicates if the individual is deceased or not'),
+      element('Patient.address', 0, '*', ['Address'], 'An address for the individual'),
+      element('Patient.maritalStatus', 0, '1', ['CodeableConcept'], 'Marital (civil) status of a patient'),
+      element('Patient.multipleBirth[x]', 0, '1', ['boolean', 'integer'], 'Whether patient is part of a multiple birth'),
+      element('Patient.photo', 0, '*', ['Attachment'], 'Image of the patient'),
+      element('Patient.contact', 0, '*', ['BackboneElement'], 'A contact party (e.g. guardian, partner, friend) for the patient'),
+      element('Patient.contact.id', 0, '1', ['string'], 'Unique id for inter-element referencing'),
+      element('Patient.contact.extension', 0, '*', ['Extension'], 'Additional content defined by implementations'),
+      element('Patient.contact.modifierExtension', 0, '*', ['Extension'], 'Extensions that cannot be ignored even if unrecognized'),
+      element('Patient.contact.relationship', 0, '*', ['CodeableConcept'], 'The kind of relationship'),
+      element('Patient.contact.name', 0, '1', ['HumanName'], 'A name associated with the contact person'),
+      element('Patient.contact.telecom', 0, '*', ['ContactPoint'], 'A contact detail for the person'),
+      element('Patient.contact.address', 0, '1', ['Address'], 'Address for the contact person'),
+      element('Patient.contact.gender', 0, '1', ['code'], 'male | female | other | unknown', required(ADMINISTRATIVE_GENDER)),
+      element('Patient.contact.organization', 0, '1', ['Reference'], 'Organization that is associated with the contact'),
+      element('Patient.contact.period', 0, '1', ['Period'], 'The period during which this contact person or organization is valid to be contacted relating to this patient'),
+      element('Patient.communication', 0, '*', ['BackboneElement'], 'A language which may be used to communicate with the patient about his or her health'),
+      element('Patient.communication.id', 0, '1', ['string'], 'Unique id for inter-element referencing'),
+      element('Patient.communication.extension', 0, '*', ['Extension'], 'Additional content defined by implementations'),
+      element('Patient.communication.modifierExtension', 0, '*', ['Extension'], 'Extensions that cannot be ignored even if unrecognized'),
+      element('Patient.communication.language', 1, '1', ['CodeableConcept'], 'The language which can be used to communicate with the patient about his or her health'),
+      element('Patient.communication.preferred', 0, '1', ['boolean'], 'Language preference indicator'),
+      element('Patient.generalPractitioner', 0, '*', ['Reference'], "Patient's nominated primary care provider"),
+      element('Patient.managingOrganization', 0, '1', ['Reference'], 'Organization that is the custodian of the patient record'),
+      element('Patient.link', 0, '*', ['BackboneElement'], 'Link to another patient resource that concerns the same actual person'),
+      element('Patient.link.id', 0, '1', ['string'], 'Unique id for inter-element referencing'),
+      element('Patient.link.extension', 0, '*', ['Extension'], 'Additional content defined by implementations'),
+      element('Patient.link.modifierExtension', 0, '*', ['Extension'], 'Extensions that cannot be ignored even if unrecognized'),
+      element('Patient.link.other', 1, '1', ['Reference'], 'The other patient or related person resource that the link refers to'),
+      element('Patient.link.type', 1, '1', ['code'], 'replaced-by | replaces | refer | seealso', required('http://hl7.org/fhir/ValueSet/link-type|4.0.1')),
+    ],
+  },
+};
+
+/**
+ * Children of the complex datatypes Patient uses, keyed by type. `id` and
+ * `extension` are left out, and so is `Reference.identifier`, which would
+ * otherwise recurse through `Identifier.assigner`.
+ */
+export const DATATYPE_ELEMENTS: Record<string, ElementDefinition[]> = {
+  Identifier: [
+    element('Identifier.use', 0, '1', ['code'], 'usual | official | temp | secondary | old', required('http://hl7.org/fhir/ValueSet/identifier-use|4.0.1')),
+    element('Identifier.type', 0, '1', ['CodeableConcept'], 'Description of identifier'),
+    element('Identifier.system', 0, '1', ['uri'], 'The namespace for the identifier value'),
+    element('Identifier.value', 0, '1', ['string'], 'The value that is unique'),
+    element('Identifier.period', 0, '1', ['Period'], 'Time period when id is/was valid for use'),
+    element('Identifier.assigner', 0, '1', ['Reference'], 'Organization that issued id (may be just text)'),
+  ],
+  HumanName: [
+    element('HumanName.use', 0, '1', ['code'], 'usual | official | temp | nickname | anonymous | old | maiden', required('http://hl7.org/fhir/ValueSet/name-use|4.0.1')),
+    element('HumanName.text', 0, '1', ['string'], 'Text representation of the full name'),
+    element('HumanName.family', 0, '1', ['string'], 'Family name (often called \'Surname\')'),
+    element('HumanName.given', 0, '*', ['string'], 'Given names (not always \'first\'). Includes middle names'),
+    element('HumanName.prefix', 0, '*', ['string'], 'Parts that come before the name'),
+    element('HumanName.suffix', 0, '*', ['string'], 'Parts that come after the name'),
+    element('HumanName.period', 0, '1', ['Period'], 'Time period when name was/is in use'),
+  ],
+  ContactPoint: [
+    element('ContactPoint.system', 0, '1', ['code'], 'phone | fax | email | pager | url | sms | other', required('http://hl7.org/fhir/ValueSet/contact-point-system|4.0.1')),
+    element('ContactPoint.value', 0, '1', ['string'], 'The actual contact point details'),
+    element('ContactPoint.use', 0, '1', ['code'], 'home | work | temp | old | mobile - purpose of this contact point', required('http://hl7.org/fhir/ValueSet/contact-point-use|4.0.1')),
+    element('ContactPoint.rank', 0, '1', ['positiveInt'], 'Specify preferred order of use (1 = highest)'),
+    element('ContactPoint.period', 0, '1', ['Period'], 'Time period when the contact point was/is in use'),
+  ],
+  Address: [
+    element('Address.use', 0, '1', ['code'], 'home | work | temp | old | billing - purpose of this address', required('http://hl7.org/fhir/ValueSet/address-use|4.0.1')),
+    element('Address.type', 0, '1', ['code'], 'postal | physical | both', required('http://hl7.org/fhir/ValueSet/address-type|4.0.1')),
+    element('Address.text', 0, '1', ['string'], 'Text representation of the address'),
+    element('Address.line', 0, '*', ['string'], 'Street name, number, direction & P.O. Box etc.'),
+    element('Address.city', 0, '1', ['string'], 'Name of city, town etc.'),
+    element('Address.district', 0, '1', ['string'], 'District name (aka county)'),
+    element('Address.state', 0, '1', ['string'], 'Sub-unit of country (abbreviations ok)'),
+    element('Address.postalCode', 0, '1', ['string'], 'Postal code for area'),
+    element('Address.country', 0, '1', ['string'], 'Country (e.g. can be ISO 3166 2 or 3 letter code)'),
+    element('Address.period', 0, '1', ['Period'], 'Time period when address was/is in use'),
+  ],
+  CodeableConcept: [
+    element('CodeableConcept.coding', 0, '*', ['Coding'], 'Code defined by a terminology system'),
+    element('CodeableConcept.text', 0, '1', ['string'], 'Plain text representation of the concept'),
+  ],
+  Coding: [
+    element('Coding.system', 0, '1', ['uri'], 'Identity of the terminology system'),
+    element('Coding.version', 0, '1', ['string'], 'Version of the system - if relevant'),
+    element('Coding.code', 0, '1', ['code'], 'Symbol in syntax defined by the system'),
+    element('Coding.display', 0, '1', ['string'], 'Representation defined by the system'),
+    element('Coding.userSelected', 0, '1', ['boolean'], 'If this coding was chosen directly by the user'),
+  ],
+  Period: [
+    element('Period.start', 0, '1', ['dateTime'], 'Starting time with inclusive boundary'),
+    element('Period.end', 0, '1', ['dateTime'], 'End time with inclusive boundary, if not ongoing'),
+  ],
+  Reference: [
+    element('Reference.reference', 0, '1', ['string'], 'Literal reference, Relative, internal or absolute URL'),
+    element('Reference.type', 0, '1', ['uri'], 'Type the reference refers to (e.g. "Patient")'),
+    element('Reference.display', 0, '1', ['string'], 'Text alternative for the resource'),
+  ],
+  Attachment: [
+    element('Attachment.contentType', 0, '1', ['code'], 'Mime type of the content, with charset etc.'),
+    element('Attachment.language', 0, '1', ['code'], 'Human language of the content (BCP-47)'),
+    element('Attachment.data', 0, '1', ['base64Binary'], 'Data inline, base64ed'),
+    element('Attachment.url', 0, '1', ['url'], 'Uri where the data can be found'),
+    element('Attachment.size', 0, '1', ['unsignedInt'], 'Number of bytes of content (if url provided)'),
+    element('Attachment.title', 0, '1', ['string'], 'Label to display in place of the data'),
+    element('Attachment.creation', 0, '1', ['dateTime'], 'Date attachment was first created'),
+  ],
+};
+
+/** Codes of the value sets bound `required` above, keyed by canonical URL without version. */
+export const REQUIRED_BINDING_CODES: Record<string, Coding[]> = {
+  [ADMINISTRATIVE_GENDER_VALUE_SET.url]: ADMINISTRATIVE_GENDER_VALUE_SET.concepts,
+  'http://hl7.org/fhir/ValueSet/link-type': [
+    { code: 'replaced-by', display: 'Replaced-by' },
+    { code: 'replaces', display: 'Replaces' },
+    { code: 'refer', display: 'Refer' },
+    { code: 'seealso', display: 'See also' },
+  ],
+  'http://hl7.org/fhir/ValueSet/identifier-use': [
+    { code: 'usual', display: 'Usual' },
+    { code: 'official', display: 'Official' },
+    { code: 'temp', display: 'Temp' },
+    { code: 'secondary', display: 'Secondary' },
+    { code: 'old', display: 'Old' },
+  ],
+  'http://hl7.org/fhir/ValueSet/name-use': [
+    { code: 'usual', display: 'Usual' },
+    { code: 'official', display: 'Official' },
+    { code: 'temp', display: 'Temp' },
+    { code: 'nickname', display: 'Nickname' },
+    { code: 'anonymous', display: 'Anonymous' },
+    { code: 'old', display: 'Old' },
+    { code: 'maiden', display: 'Name changed for Marriage' },
+  ],
+  'http://hl7.org/fhir/ValueSet/contact-point-system': [
+    { code: 'phone', display: 'Phone' },
+    { code: 'fax', display: 'Fax' },
+    { code: 'email', display: 'Email' },
+    { code: 'pager', display: 'Pager' },
+    { code: 'url', display: 'URL' },
+    { code: 'sms', display: 'SMS' },
+    { code: 'other', display: 'Other' },
+  ],
+  'http://hl7.org/fhir/ValueSet/contact-point-use': [
+    { code: 'home', display: 'Home' },
+    { code: 'work', display: 'Work' },
+    { code: 'temp', display: 'Temp' },
+    { code: 'old', display: 'Old' },
+    { code: 'mobile', display: 'Mobile' },
+  ],
+  'http://hl7.org/fhir/ValueSet/address-use': [
+    { code: 'home', display: 'Home' },
+    { code: 'work', display: 'Work' },
+    { code: 'temp', display: 'Temporary' },
+    { code: 'old', display: 'Old / Incorrect' },
+    { code: 'billing', display: 'Billing' },
+  ],
+  'http://hl7.org/fhir/ValueSet/address-type': [
+    { code: 'postal', display: 'Postal' },
+    { code: 'physical', display: 'Physical' },
+    { code: 'both', display: 'Postal & Physical' },
+  ],
+};
@@ -0,0 +1,84 @@
+// Choice-type elements (`deceased[x]`, `multipleBirth[x]`, `value[x]`, ...)
+// are serialized as `<base><Type>`, e.g. `deceasedDateTime`. At most one
+// variant may be present, so setting one always clears the others.
+// See https://hl7.org/fhir/R4/formats.html#choice
+
+export type ChoiceType = 'boolean' | 'dateTime' | 'integer';
+
+export const CHOICE_TYPE_LABELS: Record<ChoiceType, string> = {
+  boolean: 'Yes / No',
+  dateTime: 'Date & time',
+  integer: 'Number',
+};
+
+const typeSuffix = (type: string) => type.charAt(0).toUpperCase() + type.slice(1);
+
+/** The property name a `<base>[x]` value of `type` is serialized under, e.g. `valueCodeableConcept`. */
+export const choiceKey = (base: string, type: string) => `${base}${typeSuffix(type)}`;
+
+const isChoiceKey = (key: string, base: string) =>
+  key.length > base.length && key.startsWith(base) && /[A-Z]/.test(key.charAt(base.length));
+
+/** Every `<base>[x]` variant present on the element, normally zero or one. */
+export const findChoiceVariants = (element: object, base: string) =>
+  Object.entries(element)
+    .filter(([key, value]) => isChoiceKey(key, base) && value !== undefined)
+    .map(([key, value]) => {
+      const suffix = key.slice(base.length);
+      return { key, type: suffix.charAt(0).toLowerCase() + suffix.slice(1), value };
+    });
+
+export const getChoiceValue = (element: object, base: string) => findChoiceVariants(element, base)[0];
+
+export const clearChoiceValue = <T extends object>(element: T, base: string): T =>
+  Object.fromEntries(Object.entries(element).filter(([key]) => !isChoiceKey(key, base))) as T;
+
+export const setChoiceValue = <T extends object>(element: T, base: string, type: string, value: unknown): T =>
+  ({ ...clearChoiceValue(element, base), [choiceKey(base, type)]: value });
+
+const DATE_TIME_PATTERN = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+
+/** FHIR dateTime: a year, year-month or date, or a full time with seconds and a timezone. */
+export const validateDateTime = (value: string) =>
+  DATE_TIME_PATTERN.test(value.trim()) ? null : 'Use YYYY, YYYY-MM, YYYY-MM-DD or YYYY-MM-DDThh:mm:ss with a timezone (Z or +hh:mm)';
+
+/** The current time as a FHIR dateTime in the local timezone. */
+export const nowAsDateTime = () => {
+  const now = new Date();
+  const pad = (n: number) => String(Math.abs(n)).padStart(2, '0');
+  const offset = -now.getTimezoneOffset();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}` +
+    `T${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}` +
+    `${offset >= 0 ? '+' : '-'}${pad(Math.trunc(offset / 60))}:${pad(offset % 60)}`;
+};
+
+/** String-only shape of a choice-type element as edited in the patient form; `type` '' means not set. */
+export interface ChoiceFormValue {
+  type: '' | ChoiceType;
+  value: string;
+}
+
+export const emptyChoiceFormValue: ChoiceFormValue = { type: '', value: '' };
+
+export const choiceToFormValue = (element: object, base: string): ChoiceFormValue => {
+  const variant = getChoiceValue(element, base);
+  if (!variant || !(variant.type in CHOICE_TYPE_LABELS)) return emptyChoiceFormValue;
+  return { type: variant.type as ChoiceType, value: String(variant.value) };
+};
+
+export const validateChoiceFormValue = (form: ChoiceFormValue) => {
+  if (!form.type) return null;
+  if (!form.value.trim()) return 'A value is required';
+  if (form.type === 'dateTime') return validateDateTime(form.value);
+  if (form.type === 'integer' && !/^-?\d+$/.test(form.value.trim())) return 'Must be a whole number';
+  return null;
+};
+
+/** Writes the form value onto `element` as its only `<base>[x]` variant, or removes them all when unset. */
+export const applyChoiceFormValue = <T extends object>(element: T, base: string, form: ChoiceFormValue): T => {
+  if (!form.type || !form.value.trim()) return clearChoiceValue(element, base);
+  const value = form.type === 'boolean' ? form.value === 'true'
+    : form.type === 'integer' ? Number(form.value.trim())
+    : form.value.trim();
+  return setChoiceValue(element, base, form.type, value);
+};
@@ -0,0 +1,210 @@
+import type { Bundle, FHIRResource, OperationOutcome, Parameters, ValueSet } from './types';
+
+export const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+export interface FHIRClientConfig {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  /** Resolves the bearer token to attach to each request, if any. */
+  getAccessToken?: () => Promise<string | null>;
+}
+
+export interface FHIRResponse<T = FHIRResource> {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: Record<string, string>;
+  body: T | null;
+  rawBody: string;
+  durationMs: number;
+}
+
+export interface FHIRRequestOptions {
+  headers?: Record<string, string>;
+  body?: unknown;
+  contentType?: string;
+}
+
+export interface FHIRValidateOptions {
+  /** Canonical URL of a profile to validate against instead of the base definition. */
+  profile?: string;
+  mode?: 'create' | 'update' | 'delete';
+}
+
+/**
+ * Thrown for any non-2xx response. The full response is kept so callers can
+ * show the status line, headers and body the server actually sent.
+ */
+export class FHIRResponseError extends Error {
+  response: FHIRResponse<unknown>;
+
+  constructor(response: FHIRResponse<unknown>) {
+    super(`${response.method} ${response.url} failed with ${response.status} ${response.statusText}`.trim());
+    this.name = 'FHIRResponseError';
+    this.response = response;
+  }
+}
+
+/** Builds the weak ETag FHIR servers use for a resource version, e.g. `W/"3"`. */
+export const weakETag = (versionId: string) => `W/"${versionId}"`;
+
+/** Extracts the version id from an ETag such as `W/"3"`. */
+export const parseETagVersion = (etag: string | null | undefined) =>
+  etag?.match(/^(?:W\/)?"?([^"]*)"?$/)?.[1] ?? null;
+
+/** Extracts the logical id from a `Location`/`Content-Location` header such as `.../Patient/123/_history/2`. */
+export const parseLocationId = (location: string | null | undefined, resourceType: string) =>
+  location?.match(new RegExp(`(?:^|/)${resourceType}/([^/?#]+)`))?.[1] ?? null;
+
+export const DEFAULT_FHIR_BASE_URL = import.meta.env.VITE_FHIR_BASE_URL || 'http://localhost:8080/fhir';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const joinUrl = (baseUrl: string, path: string) => {
+  if (/^https?:\/\//i.test(path)) return path;
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+};
+
+const parseBody = (rawBody: string) => {
+  if (!rawBody) return null;
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return null;
+  }
+};
+
+export const createFHIRClient = (config: FHIRClientConfig) => {
+  const request = async <T = FHIRResource>(
+    method: string,
+    path: string,
+    options: FHIRRequestOptions = {}
+  ): Promise<FHIRResponse<T>> => {
+    const url = joinUrl(config.baseUrl, path);
+    const headers: Record<string, string> = {
+      Accept: FHIR_CONTENT_TYPE,
+      ...config.headers,
+      ...options.headers,
+    };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = options.contentType || FHIR_CONTENT_TYPE;
+    }
+    const accessToken = await config.getAccessToken?.();
+    if (accessToken) {
+      headers.Authorization = `Bearer ${accessToken}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = config.timeout ?? DEFAULT_TIMEOUT_MS;
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const startedAt = performance.now();
+
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method,
+        headers,
+        body: options.body === undefined
+          ? undefined
+          : typeof options.body === 'string' ? options.body : JSON.stringify(options.body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`${method} ${url} timed out after ${timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const rawBody = await res.text();
+    const response: FHIRResponse<T> = {
+      method,
+      url,
+      status: res.status,
+      statusText: res.statusText,
+      ok: res.ok,
+      headers: Object.fromEntries(res.headers.entries()),
+      body: parseBody(rawBody),
+      rawBody,
+      durationMs: Math.round(performance.now() - startedAt),
+    };
+
+    if (!res.ok) {
+      throw new FHIRResponseError(response);
+    }
+    return response;
+  };
+
+  return {
+    config,
+    request,
+    create: <T extends FHIRResource>(resource: T, options: FHIRRequestOptions = {}) =>
+      request<T>('POST', resource.resourceType, { ...options, body: resource }),
+    read: <T extends FHIRResource>(resourceType: string, id: string, options: FHIRRequestOptions = {}) =>
+      request<T>('GET', `${resourceType}/${encodeURIComponent(id)}`, options),
+    update: <T extends FHIRResource>(resource: T, options: FHIRRequestOptions = {}) =>
+      request<T>('PUT', `${resource.resourceType}/${encodeURIComponent(resource.id)}`, { ...options, body: resource }),
+    vread: <T extends FHIRResource>(resourceType: string, id: string, versionId: string, options: FHIRRequestOptions = {}) =>
+      request<T>('GET', `${resourceType}/${encodeURIComponent(id)}/_history/${encodeURIComponent(versionId)}`, options),
+    history: <T extends FHIRResource>(resourceType: string, id: string, params = new URLSearchParams(), options: FHIRRequestOptions = {}) => {
+      const query = params.toString();
+      const path = `${resourceType}/${encodeURIComponent(id)}/_history`;
+      return request<Bundle<T>>('GET', query ? `${path}?${query}` : path, options);
+    },
+    /** `body` is a JSON Patch array or a FHIRPath Patch Parameters resource, matched by `contentType`. */
+    patch: <T extends FHIRResource>(resourceType: string, id: string, body: unknown, contentType: string, options: FHIRRequestOptions = {}) =>
+      request<T>('PATCH', `${resourceType}/${encodeURIComponent(id)}`, { ...options, body, contentType }),
+    /** Servers answer with 200 + OperationOutcome, 202 or an empty 204. */
+    delete: (resourceType: string, id: string, options: FHIRRequestOptions = {}) =>
+      request<OperationOutcome | null>('DELETE', `${resourceType}/${encodeURIComponent(id)}`, options),
+    /**
+     * `[type]/$validate` with the resource wrapped in Parameters. Servers answer
+     * with an OperationOutcome, some with a 4xx status when the resource has errors.
+     */
+    validate: (resource: FHIRResource, { profile, mode }: FHIRValidateOptions = {}, options: FHIRRequestOptions = {}) => {
+      const body: Parameters = {
+        resourceType: 'Parameters',
+        parameter: [
+          { name: 'resource', resource },
+          ...(mode ? [{ name: 'mode', valueCode: mode }] : []),
+          ...(profile ? [{ name: 'profile', valueUri: profile }] : []),
+        ],
+      };
+      return request<OperationOutcome>('POST', `${resource.resourceType}/$validate`, { ...options, body });
+    },
+    /** `ValueSet/$expand` by canonical URL; servers usually match `filter` against displays. */
+    expand: ({ url, filter, count }: { url: string; filter?: string; count?: number }, options: FHIRRequestOptions = {}) => {
+      const params = new URLSearchParams({ url });
+      if (filter) params.set('filter', filter);
+      if (count) params.set('count', String(count));
+      return request<ValueSet>('GET', `ValueSet/$expand?${params}`, options);
+    },
+    /** `CodeSystem/$lookup`; the display and properties come back as Parameters. */
+    lookup: ({ system, code }: { system: string; code: string }, options: FHIRRequestOptions = {}) =>
+      request<Parameters>('GET', `CodeSystem/$lookup?${new URLSearchParams({ system, code })}`, options),
+    /** `ValueSet/$validate-code`; `result`, `message` and the preferred `display` come back as Parameters. */
+    validateCode: (
+      { url, system, code, display }: { url: string; system?: string; code: string; display?: string },
+      options: FHIRRequestOptions = {}
+    ) => {
+      const params = new URLSearchParams({ url, code });
+      if (system) params.set('system', system);
+      if (display) params.set('display', display);
+      return request<Parameters>('GET', `ValueSet/$validate-code?${params}`, options);
+    },
+    search: <T extends FHIRResource>(resourceType: string, params: URLSearchParams, options: FHIRRequestOptions = {}) => {
+      const query = params.toString();
+      return request<Bundle<T>>('GET', query ? `${resourceType}?${query}` : resourceType, options);
+    },
+    /** Follows a Bundle paging link, which servers return as an absolute URL. */
+    page: <T extends FHIRResource>(url: string, options: FHIRRequestOptions = {}) =>
+      request<Bundle<T>>('GET', url, options),
+  };
+};
+
+export type FHIRClient = ReturnType<typeof createFHIRClient>;
@@ -0,0 +1,94 @@
+import { AddressFormValue, addressToFormValue, formValueToAddress, isAddressEmpty } from './addresses';
+import { emptyNameFormValue, formValueToName, isNameEmpty, nameToFormValue, NameFormValue } from './names';
+import { ContactPointFormValue, contactPointToFormValue, formValueToContactPoint } from './telecom';
+import { CONTACT_ROLE_VALUE_SET } from './terminology';
+import type { CodeableConcept, PatientContact } from './types';
+
+// Patient.contact (emergency contacts, next-of-kin and the like) as edited in
+// the patient form. Relationships are coded with HL7 v2 table 0131.
+
+export const CONTACT_RELATIONSHIP_SYSTEM = CONTACT_ROLE_VALUE_SET.system;
+
+export const CONTACT_RELATIONSHIPS = CONTACT_ROLE_VALUE_SET.concepts;
+
+/** Label for a relationship concept: its text, the v2-0131 display, or the raw code. */
+export const getRelationshipLabel = (relationship: CodeableConcept) => {
+  if (relationship.text) return relationship.text;
+  const coding = relationship.coding?.[0];
+  const known = coding?.system === CONTACT_RELATIONSHIP_SYSTEM
+    ? CONTACT_RELATIONSHIPS.find(option => option.code === coding.code)
+    : undefined;
+  return coding?.display || known?.display || coding?.code || 'Unknown';
+};
+
+/** String-only shape of a Patient.contact as edited in the patient form. */
+export interface PatientContactFormValue {
+  /** v2-0131 codes, one CodeableConcept each. */
+  relationships: string[];
+  name: NameFormValue;
+  telecom: ContactPointFormValue[];
+  address: AddressFormValue | null;
+  gender: string;
+  /** Literal reference such as `Organization/123`. */
+  organizationReference: string;
+  organizationDisplay: string;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export const emptyPatientContactFormValue: PatientContactFormValue = {
+  relationships: ['C'],
+  name: { ...emptyNameFormValue, use: '' },
+  telecom: [],
+  address: null,
+  gender: '',
+  organizationReference: '',
+  organizationDisplay: '',
+  periodStart: '',
+  periodEnd: '',
+};
+
+export const contactToFormValue = (contact: PatientContact): PatientContactFormValue => ({
+  relationships: (contact.relationship || [])
+    .map(relationship => relationship.coding?.find(coding => coding.system === CONTACT_RELATIONSHIP_SYSTEM)?.code)
+    .filter((code): code is string => Boolean(code)),
+  name: contact.name ? nameToFormValue(contact.name) : emptyPatientContactFormValue.name,
+  telecom: (contact.telecom || []).map(contactPointToFormValue),
+  address: contact.address ? addressToFormValue(contact.address) : null,
+  gender: contact.gender || '',
+  organizationReference: contact.organization?.reference || '',
+  organizationDisplay: contact.organization?.display || '',
+  periodStart: contact.period?.start || '',
+  periodEnd: contact.period?.end || '',
+});
+
+export const formValueToContact = (form: PatientContactFormValue): PatientContact => {
+  const contact: PatientContact = {};
+  if (form.relationships.length > 0) {
+    contact.relationship = form.relationships.map(code => ({
+      coding: [{
+        system: CONTACT_RELATIONSHIP_SYSTEM,
+        code,
+        display: CONTACT_RELATIONSHIPS.find(option => option.code === code)?.display,
+      }],
+    }));
+  }
+  if (!isNameEmpty(form.name)) contact.name = formValueToName(form.name);
+  const telecom = form.telecom.filter(contactPoint => contactPoint.value.trim()).map(formValueToContactPoint);
+  if (telecom.length > 0) contact.telecom = telecom;
+  if (form.address && !isAddressEmpty(form.address)) contact.address = formValueToAddress(form.address);
+  if (form.gender) contact.gender = form.gender;
+  if (form.organizationReference.trim() || form.organizationDisplay.trim()) {
+    contact.organization = {
+      ...(form.organizationReference.trim() ? { reference: form.organizationReference.trim() } : {}),
+      ...(form.organizationDisplay.trim() ? { display: form.organizationDisplay.trim() } : {}),
+    };
+  }
+  if (form.periodStart || form.periodEnd) {
+    contact.period = {
+      ...(form.periodStart ? { start: form.periodStart } : {}),
+      ...(form.periodEnd ? { end: form.periodEnd } : {}),
+    };
+  }
+  return contact;
+};
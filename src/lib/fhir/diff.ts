@@ -0,0 +1,41 @@
+import { isDeepEqual } from './merge';
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface DiffEntry {
+  path: string;
+  kind: DiffKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * Structural diff between two JSON values. Objects are compared key by key
+ * and arrays index by index, so each entry points at the smallest element
+ * that differs, using FHIRPath-style paths such as `name[0].given[1]`.
+ */
+export const diffJson = (before: unknown, after: unknown, path = ''): DiffEntry[] => {
+  if (isDeepEqual(before, after)) return [];
+  if (before === undefined) return [{ path, kind: 'added', after }];
+  if (after === undefined) return [{ path, kind: 'removed', before }];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) => diffJson(before[index], after[index], childPath(path, index))).flat();
+  }
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap(key => diffJson(before[key], after[key], childPath(path, key)));
+  }
+  return [{ path, kind: 'changed', before, after }];
+};
+
+/** Diffs two versions of a resource, ignoring `meta.versionId`/`lastUpdated` which always change. */
+export const diffResourceVersions = (before: object, after: object) =>
+  diffJson(before, after).filter(entry => entry.path !== 'meta.versionId' && entry.path !== 'meta.lastUpdated');
@@ -0,0 +1,111 @@
+import { DEFAULT_FHIR_BASE_URL, FHIR_CONTENT_TYPE, FHIRClientConfig } from './client';
+import { isMockFHIRUrl, MOCK_FHIR_BASE_URL } from './mock-server';
+import { getSmartAccessToken, SmartSettings } from './smart-auth';
+
+export type FHIRVersion = 'STU3' | 'R4' | 'R4B' | 'R5';
+
+export interface FHIREnvironment {
+  id: string;
+  name: string;
+  baseUrl: string;
+  headers: Record<string, string>;
+  timeout: number;
+  fhirVersion: FHIRVersion;
+  smart?: SmartSettings;
+}
+
+export const FHIR_VERSIONS: Record<FHIRVersion, string> = {
+  STU3: '3.0',
+  R4: '4.0',
+  R4B: '4.3',
+  R5: '5.0',
+};
+
+const STORAGE_KEY = 'fhir-testing.environments';
+const ACTIVE_STORAGE_KEY = 'fhir-testing.active-environment';
+
+export const DEFAULT_ENVIRONMENTS: FHIREnvironment[] = [
+  {
+    id: 'local-hapi',
+    name: 'Local HAPI',
+    baseUrl: DEFAULT_FHIR_BASE_URL,
+    headers: {},
+    timeout: 30000,
+    fhirVersion: 'R4',
+  },
+  {
+    id: 'mock',
+    name: 'In-Browser Mock',
+    baseUrl: MOCK_FHIR_BASE_URL,
+    headers: {},
+    timeout: 5000,
+    fhirVersion: 'R4',
+  },
+  {
+    id: 'hapi-public',
+    name: 'HAPI Public Test Server',
+    baseUrl: 'https://hapi.fhir.org/baseR4',
+    headers: {},
+    timeout: 30000,
+    fhirVersion: 'R4',
+  },
+];
+
+export const isMockEnvironment = (environment: FHIREnvironment) =>
+  isMockFHIRUrl(environment.baseUrl);
+
+export const createEnvironmentId = () =>
+  `env-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Built-in environments added since the list was saved are appended, so older
+// saved lists still get e.g. the in-browser mock.
+export const loadEnvironments = (): FHIREnvironment[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_ENVIRONMENTS;
+    const parsed: FHIREnvironment[] = JSON.parse(stored);
+    if (!Array.isArray(parsed) || parsed.length === 0) return DEFAULT_ENVIRONMENTS;
+    return [...parsed, ...DEFAULT_ENVIRONMENTS.filter(builtIn => !parsed.some(environment => environment.id === builtIn.id))];
+  } catch {
+    return DEFAULT_ENVIRONMENTS;
+  }
+};
+
+export const saveEnvironments = (environments: FHIREnvironment[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(environments));
+};
+
+export const loadActiveEnvironmentId = () => localStorage.getItem(ACTIVE_STORAGE_KEY);
+
+export const saveActiveEnvironmentId = (id: string) => {
+  localStorage.setItem(ACTIVE_STORAGE_KEY, id);
+};
+
+/** Parses `Name: value` lines, as typed into the settings panel, into a header map. */
+export const parseHeaderLines = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.includes(':'))
+      .map(line => {
+        const separator = line.indexOf(':');
+        return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+      })
+      .filter(([name]) => name.length > 0)
+  );
+
+export const formatHeaderLines = (headers: Record<string, string>) =>
+  Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+
+export const toClientConfig = (environment: FHIREnvironment): FHIRClientConfig => ({
+  baseUrl: environment.baseUrl,
+  timeout: environment.timeout,
+  headers: {
+    Accept: `${FHIR_CONTENT_TYPE}; fhirVersion=${FHIR_VERSIONS[environment.fhirVersion]}`,
+    ...environment.headers,
+  },
+  getAccessToken: environment.smart?.enabled ? () => getSmartAccessToken(environment.id) : undefined,
+});
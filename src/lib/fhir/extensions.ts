@@ -0,0 +1,198 @@
+import { addressToFormValue, AddressFormValue, emptyAddressFormValue, formValueToAddress, isAddressEmpty } from './addresses';
+import { findChoiceVariants } from './choice-types';
+import type { Address, CodeableConcept, Coding, Extension, Reference } from './types';
+
+// Arbitrary extensions as edited in the patient form: a URL plus either one
+// `value[x]` of a supported type or nested extensions (a complex extension).
+// Extensions the form cannot represent are left out of the editor and kept
+// as they are. See https://hl7.org/fhir/R4/extensibility.html
+
+export type ExtensionValueType = 'string' | 'code' | 'Coding' | 'CodeableConcept' | 'Address' | 'date' | 'boolean' | 'Reference';
+
+export const EXTENSION_VALUE_TYPES: Array<{ type: ExtensionValueType; label: string }> = [
+  { type: 'string', label: 'String' },
+  { type: 'code', label: 'Code' },
+  { type: 'Coding', label: 'Coding' },
+  { type: 'CodeableConcept', label: 'CodeableConcept' },
+  { type: 'Address', label: 'Address' },
+  { type: 'date', label: 'Date' },
+  { type: 'boolean', label: 'Boolean' },
+  { type: 'Reference', label: 'Reference' },
+];
+
+/** Well-known Patient extensions offered as URL suggestions; any URL can be typed. */
+export const KNOWN_PATIENT_EXTENSIONS: Array<{ url: string; label: string; type: '' | ExtensionValueType }> = [
+  { url: 'http://hl7.org/fhir/StructureDefinition/patient-mothersMaidenName', label: "Mother's maiden name", type: 'string' },
+  { url: 'http://hl7.org/fhir/StructureDefinition/patient-religion', label: 'Religion', type: 'CodeableConcept' },
+  { url: 'http://hl7.org/fhir/StructureDefinition/patient-genderIdentity', label: 'Gender identity', type: 'CodeableConcept' },
+  { url: 'http://hl7.org/fhir/StructureDefinition/patient-nationality', label: 'Nationality (complex)', type: '' },
+  { url: 'http://hl7.org/fhir/StructureDefinition/patient-disability', label: 'Disability', type: 'CodeableConcept' },
+  { url: 'http://hl7.org/fhir/StructureDefinition/patient-interpreterRequired', label: 'Interpreter required', type: 'boolean' },
+];
+
+export const BIRTH_PLACE_EXTENSION_URL = 'http://hl7.org/fhir/StructureDefinition/patient-birthPlace';
+
+const valueKey = (type: ExtensionValueType) => `value${type.charAt(0).toUpperCase()}${type.slice(1)}` as const;
+
+/** Flat, string-only shape of an Extension as edited in the patient form. */
+export interface ExtensionFormValue {
+  url: string;
+  /** '' for a complex extension, which carries `extensions` instead of a value. */
+  type: '' | ExtensionValueType;
+  /** string, code, date, or 'true'/'false' for boolean. */
+  value: string;
+  /** Coding and CodeableConcept. */
+  system: string;
+  code: string;
+  /** Coding, CodeableConcept and Reference display. */
+  display: string;
+  /** CodeableConcept.text. */
+  text: string;
+  reference: string;
+  address: AddressFormValue;
+  extensions: ExtensionFormValue[];
+}
+
+export const emptyExtensionFormValue: ExtensionFormValue = {
+  url: '',
+  type: 'string',
+  value: '',
+  system: '',
+  code: '',
+  display: '',
+  text: '',
+  reference: '',
+  address: emptyAddressFormValue,
+  extensions: [],
+};
+
+const hasOnlyKeys = (value: unknown, keys: string[]) =>
+  !!value && typeof value === 'object' && Object.keys(value).every(key => keys.includes(key));
+
+const CODING_KEYS = ['system', 'code', 'display'];
+
+/** Whether the editor can show the extension without dropping anything. */
+export const isEditableExtension = (extension: Extension): boolean => {
+  if (!hasOnlyKeys(extension, ['url', 'extension', ...EXTENSION_VALUE_TYPES.map(({ type }) => valueKey(type))])) return false;
+  const variants = findChoiceVariants(extension, 'value');
+  if (variants.length === 0) return !!extension.extension?.length && extension.extension.every(isEditableExtension);
+  if (variants.length > 1 || extension.extension?.length) return false;
+
+  const [{ type, value }] = variants;
+  switch (type) {
+    case 'coding':
+      return hasOnlyKeys(value, CODING_KEYS);
+    case 'codeableConcept': {
+      const concept = value as CodeableConcept;
+      return hasOnlyKeys(concept, ['coding', 'text']) && (concept.coding || []).length <= 1 && (concept.coding || []).every(coding => hasOnlyKeys(coding, CODING_KEYS));
+    }
+    case 'reference':
+      return hasOnlyKeys(value, ['reference', 'display']);
+    case 'address':
+      return hasOnlyKeys(value, ['use', 'type', 'text', 'line', 'city', 'district', 'state', 'postalCode', 'country', 'period']);
+    default:
+      return typeof value === 'string' || typeof value === 'boolean';
+  }
+};
+
+export const extensionToFormValue = (extension: Extension): ExtensionFormValue => {
+  const variant = findChoiceVariants(extension, 'value')[0];
+  const form: ExtensionFormValue = {
+    ...emptyExtensionFormValue,
+    url: extension.url,
+    type: '',
+    extensions: (extension.extension || []).map(extensionToFormValue),
+  };
+  if (!variant) return form;
+
+  const type = EXTENSION_VALUE_TYPES.find(({ type: candidate }) => valueKey(candidate) === variant.key)?.type || 'string';
+  const coding = type === 'Coding'
+    ? variant.value as Coding
+    : type === 'CodeableConcept' ? (variant.value as CodeableConcept).coding?.[0] : undefined;
+  return {
+    ...form,
+    type,
+    value: typeof variant.value === 'string' || typeof variant.value === 'boolean' ? String(variant.value) : '',
+    system: coding?.system || '',
+    code: coding?.code || '',
+    display: coding?.display || (type === 'Reference' ? (variant.value as Reference).display || '' : ''),
+    text: type === 'CodeableConcept' ? (variant.value as CodeableConcept).text || '' : '',
+    reference: type === 'Reference' ? (variant.value as Reference).reference || '' : '',
+    address: type === 'Address' ? addressToFormValue(variant.value as Address) : emptyAddressFormValue,
+  };
+};
+
+const formValueToCoding = (form: ExtensionFormValue): Coding => ({
+  ...(form.system.trim() ? { system: form.system.trim() } : {}),
+  ...(form.code.trim() ? { code: form.code.trim() } : {}),
+  ...(form.display.trim() ? { display: form.display.trim() } : {}),
+});
+
+const formValueToValue = (form: ExtensionFormValue): unknown => {
+  switch (form.type) {
+    case 'boolean':
+      return form.value === 'true';
+    case 'Coding':
+      return formValueToCoding(form);
+    case 'CodeableConcept': {
+      const coding = formValueToCoding(form);
+      return {
+        ...(Object.keys(coding).length > 0 ? { coding: [coding] } : {}),
+        ...(form.text.trim() ? { text: form.text.trim() } : {}),
+      };
+    }
+    case 'Address':
+      return formValueToAddress(form.address);
+    case 'Reference':
+      return {
+        ...(form.reference.trim() ? { reference: form.reference.trim() } : {}),
+        ...(form.display.trim() ? { display: form.display.trim() } : {}),
+      };
+    default:
+      return form.value.trim();
+  }
+};
+
+export const formValueToExtension = (form: ExtensionFormValue): Extension =>
+  form.type
+    ? { url: form.url.trim(), [valueKey(form.type)]: formValueToValue(form) }
+    : { url: form.url.trim(), extension: form.extensions.map(formValueToExtension) };
+
+/** Returns the first problem with the extension or its nested extensions, or null. */
+export const validateExtensionFormValue = (form: ExtensionFormValue): string | null => {
+  const url = form.url.trim();
+  if (!url) return 'A URL is required';
+  if (/\s/.test(url)) return 'The URL must not contain spaces';
+
+  switch (form.type) {
+    case '': {
+      if (form.extensions.length === 0) return `${url}: A complex extension needs at least one nested extension`;
+      const nested = form.extensions.map(validateExtensionFormValue).find(error => error);
+      return nested ? `${url} › ${nested}` : null;
+    }
+    case 'Coding':
+      return form.code.trim() ? null : `${url}: A code is required`;
+    case 'CodeableConcept':
+      return form.code.trim() || form.text.trim() ? null : `${url}: A code or text is required`;
+    case 'Address':
+      return isAddressEmpty(form.address) ? `${url}: The address is empty` : null;
+    case 'Reference':
+      return form.reference.trim() || form.display.trim() ? null : `${url}: A reference or display is required`;
+    case 'date': {
+      if (!form.value.trim()) return `${url}: A value is required`;
+      return /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/.test(form.value.trim()) ? null : `${url}: Use YYYY, YYYY-MM or YYYY-MM-DD`;
+    }
+    default:
+      return form.value.trim() ? null : `${url}: A value is required`;
+  }
+};
+
+/**
+ * Adds `extension`, replacing any existing extensions with the same URL. Used
+ * for extensions the form manages itself (birth place, profile extensions),
+ * which appear at most once.
+ */
+export const upsertExtension = (extensions: Extension[] | undefined, extension: Extension): Extension[] => [
+  ...(extensions || []).filter(existing => existing.url !== extension.url),
+  extension,
+];
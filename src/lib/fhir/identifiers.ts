@@ -0,0 +1,173 @@
+import type { Identifier } from './types';
+
+// Identifier types and format/check-digit validation for well-known
+// identifier systems. Validators are looked up by system URI; more can be
+// added with `registerIdentifierValidator`.
+
+export const IDENTIFIER_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0203';
+
+export const IDENTIFIER_TYPES = [
+  { code: 'MR', display: 'Medical record number' },
+  { code: 'SS', display: 'Social Security number' },
+  { code: 'NI', display: 'National unique individual identifier' },
+  { code: 'NH', display: 'National Health Plan Identifier' },
+  { code: 'DL', display: "Driver's license number" },
+  { code: 'PPN', display: 'Passport number' },
+  { code: 'PI', display: 'Patient internal identifier' },
+];
+
+export const IDENTIFIER_USES = ['usual', 'official', 'temp', 'secondary', 'old'];
+
+export interface IdentifierValidator {
+  id: string;
+  label: string;
+  /** Identifier systems this validator applies to automatically. */
+  systems: string[];
+  /** Returns an error message, or null when the value is valid. */
+  validate: (value: string) => string | null;
+}
+
+const digitsOf = (value: string) => value.replace(/[\s-]/g, '');
+
+/** NHS number: 10 digits, the last a modulus 11 check digit over weights 10..2. */
+export const validateNhsNumber = (value: string) => {
+  const digits = digitsOf(value);
+  if (!/^\d{10}$/.test(digits)) return 'An NHS number has 10 digits';
+  const sum = [...digits.slice(0, 9)].reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = 11 - (sum % 11);
+  if (check === 10) return 'Not a valid NHS number (check digit would be 10)';
+  if ((check === 11 ? 0 : check) !== Number(digits[9])) return 'NHS number check digit does not match';
+  return null;
+};
+
+/** US SSN: AAA-GG-SSSS, excluding the area, group and serial numbers the SSA never issues. */
+export const validateUsSsn = (value: string) => {
+  const match = value.trim().match(/^(\d{3})-?(\d{2})-?(\d{4})$/);
+  if (!match) return 'An SSN has the format 123-45-6789';
+  const [, area, group, serial] = match;
+  if (area === '000' || area === '666' || area.startsWith('9')) return `SSN area number ${area} is never issued`;
+  if (group === '00') return 'SSN group number 00 is never issued';
+  if (serial === '0000') return 'SSN serial number 0000 is never issued';
+  return null;
+};
+
+export const passesLuhn = (digits: string) => {
+  const sum = [...digits].reverse().reduce((total, char, index) => {
+    let digit = Number(char);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    return total + digit;
+  }, 0);
+  return sum % 10 === 0;
+};
+
+export const validateLuhn = (value: string) => {
+  const digits = digitsOf(value);
+  if (!/^\d{2,}$/.test(digits)) return 'A Luhn-checked number contains only digits';
+  return passesLuhn(digits) ? null : 'Luhn check digit does not match';
+};
+
+/** US NPI: 10 digits, Luhn-checked with the 80840 card issuer prefix. */
+export const validateNpi = (value: string) => {
+  const digits = digitsOf(value);
+  if (!/^\d{10}$/.test(digits)) return 'An NPI has 10 digits';
+  return passesLuhn(`80840${digits}`) ? null : 'NPI check digit does not match';
+};
+
+/** Australian IHI: 16 digits starting 800360, Luhn-checked. */
+export const validateIhi = (value: string) => {
+  const digits = digitsOf(value);
+  if (!/^800360\d{10}$/.test(digits)) return 'An IHI has 16 digits and starts with 800360';
+  return passesLuhn(digits) ? null : 'IHI check digit does not match';
+};
+
+const validators: IdentifierValidator[] = [
+  { id: 'nhs-number', label: 'NHS number (mod 11)', systems: ['https://fhir.nhs.uk/Id/nhs-number'], validate: validateNhsNumber },
+  { id: 'us-ssn', label: 'US SSN', systems: ['http://hl7.org/fhir/sid/us-ssn'], validate: validateUsSsn },
+  { id: 'us-npi', label: 'US NPI (Luhn)', systems: ['http://hl7.org/fhir/sid/us-npi'], validate: validateNpi },
+  { id: 'au-ihi', label: 'Australian IHI (Luhn)', systems: ['http://ns.electronichealth.net.au/id/hi/ihi/1.0'], validate: validateIhi },
+  { id: 'luhn', label: 'Luhn check digit', systems: [], validate: validateLuhn },
+];
+
+export const getIdentifierValidators = () => [...validators];
+
+export const registerIdentifierValidator = (validator: IdentifierValidator) => {
+  const index = validators.findIndex(existing => existing.id === validator.id);
+  if (index >= 0) {
+    validators[index] = validator;
+  } else {
+    validators.push(validator);
+  }
+};
+
+/** Finds the validator to use: an explicitly chosen one, or the one registered for the system. */
+export const findIdentifierValidator = (system?: string, validatorId?: string) =>
+  validatorId
+    ? validators.find(validator => validator.id === validatorId)
+    : validators.find(validator => !!system && validator.systems.includes(system.trim()));
+
+export const validateIdentifier = (identifier: Identifier, validatorId?: string) => {
+  if (!identifier.value?.trim()) return 'Identifier value is required';
+  return findIdentifierValidator(identifier.system, validatorId)?.validate(identifier.value) ?? null;
+};
+
+export const getIdentifierTypeLabel = (identifier: Identifier) => {
+  const coding = identifier.type?.coding?.[0];
+  return identifier.type?.text || coding?.display || IDENTIFIER_TYPES.find(type => type.code === coding?.code)?.display || coding?.code;
+};
+
+/** Flat, string-only shape of an Identifier as edited in the patient form. */
+export interface IdentifierFormValue {
+  use: string;
+  typeCode: string;
+  system: string;
+  value: string;
+  periodStart: string;
+  periodEnd: string;
+  assigner: string;
+  /** Validator id, or '' to pick one from the system. Not sent to the server. */
+  validator: string;
+}
+
+export const emptyIdentifierFormValue: IdentifierFormValue = {
+  use: '',
+  typeCode: '',
+  system: '',
+  value: '',
+  periodStart: '',
+  periodEnd: '',
+  assigner: '',
+  validator: '',
+};
+
+export const identifierToFormValue = (identifier: Identifier): IdentifierFormValue => ({
+  use: identifier.use || '',
+  typeCode: identifier.type?.coding?.find(coding => coding.system === IDENTIFIER_TYPE_SYSTEM)?.code || '',
+  system: identifier.system || '',
+  value: identifier.value || '',
+  periodStart: identifier.period?.start || '',
+  periodEnd: identifier.period?.end || '',
+  assigner: identifier.assigner?.display || '',
+  validator: '',
+});
+
+export const formValueToIdentifier = (form: IdentifierFormValue): Identifier => {
+  const identifier: Identifier = {};
+  if (form.use) identifier.use = form.use;
+  if (form.typeCode) {
+    const type = IDENTIFIER_TYPES.find(option => option.code === form.typeCode);
+    identifier.type = { coding: [{ system: IDENTIFIER_TYPE_SYSTEM, code: form.typeCode, display: type?.display }] };
+  }
+  if (form.system.trim()) identifier.system = form.system.trim();
+  identifier.value = form.value.trim();
+  if (form.periodStart || form.periodEnd) {
+    identifier.period = {
+      ...(form.periodStart ? { start: form.periodStart } : {}),
+      ...(form.periodEnd ? { end: form.periodEnd } : {}),
+    };
+  }
+  if (form.assigner.trim()) identifier.assigner = { display: form.assigner.trim() };
+  return identifier;
+};
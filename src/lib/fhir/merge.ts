@@ -0,0 +1,89 @@
+import type { FHIRResource } from './types';
+
+export const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every(key =>
+    isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+};
+
+export interface MergeResult<T extends FHIRResource> {
+  merged: T;
+  conflicts: string[];
+}
+
+/**
+ * Three-way merge at the level of top-level elements. Elements we changed
+ * relative to `base` win; everything else is taken from `theirs`, the
+ * server's current version. Elements both sides changed differently are
+ * reported as conflicts (our value is kept).
+ */
+export const mergeResourceVersions = <T extends FHIRResource>(base: T, ours: T, theirs: T): MergeResult<T> => {
+  const merged: Record<string, unknown> = { ...theirs };
+  const conflicts: string[] = [];
+  const keys = new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)]);
+
+  keys.forEach(key => {
+    if (key === 'id' || key === 'meta') return;
+    const oursChanged = !isDeepEqual(base[key], ours[key]);
+    if (!oursChanged) return;
+
+    const theirsChanged = !isDeepEqual(base[key], theirs[key]);
+    if (theirsChanged && !isDeepEqual(ours[key], theirs[key])) conflicts.push(key);
+    if (ours[key] === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = ours[key];
+    }
+  });
+
+  return { merged: merged as T, conflicts };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Puts back what an editor that cannot represent every element would lose.
+ * `roundTrip` is `base` after loading it into the editor and reading it back
+ * unchanged; `edited` is what the editor produces now. Wherever `edited`
+ * still equals the round trip, `base` is taken verbatim, and keys of `base`
+ * that the round trip dropped are kept. Array items are paired with an
+ * identical round-tripped item, else by position; arrays whose length the
+ * round trip changed belong to the editor as a whole.
+ */
+export const keepUnrepresented = (base: unknown, roundTrip: unknown, edited: unknown): unknown => {
+  if (isDeepEqual(roundTrip, edited)) return base;
+
+  if (Array.isArray(base) && Array.isArray(roundTrip) && Array.isArray(edited)) {
+    if (base.length !== roundTrip.length) return edited;
+    const unmatched = new Set(roundTrip.keys());
+    const matches = edited.map(item => {
+      const index = [...unmatched].find(candidate => isDeepEqual(roundTrip[candidate], item));
+      if (index !== undefined) unmatched.delete(index);
+      return index;
+    });
+    return edited.map((item, index) => {
+      const match = matches[index];
+      if (match !== undefined) return base[match];
+      return unmatched.has(index) ? keepUnrepresented(base[index], roundTrip[index], item) : item;
+    });
+  }
+
+  if (isObject(base) && isObject(roundTrip) && isObject(edited)) {
+    const keys = [...new Set([...Object.keys(base), ...Object.keys(edited)])];
+    return Object.fromEntries(
+      keys
+        .map(key => [key, keepUnrepresented(base[key], roundTrip[key], edited[key])])
+        .filter(([, value]) => value !== undefined)
+    );
+  }
+
+  return edited;
+};
@@ -0,0 +1,119 @@
+import { createCodeChallenge, SMART_SCOPE_OPTIONS, SmartConfiguration } from './smart-auth';
+
+// A minimal SMART authorization server for the in-browser mock environment.
+// The authorize step is an in-app page (see pages/MockAuthorize) and the token
+// endpoint is answered by the mock FHIR server's fetch interceptor. Issued
+// codes and refresh tokens live in localStorage so they survive the redirect.
+
+export const MOCK_AUTHORIZE_PATH = '/mock-auth/authorize';
+export const MOCK_TOKEN_PATH = 'auth/token';
+
+const STORAGE_KEY = 'fhir-testing.mock-auth';
+const ACCESS_TOKEN_LIFETIME_SECONDS = 3600;
+
+interface IssuedGrant {
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  patient?: string;
+  codeChallenge?: string;
+}
+
+interface MockAuthState {
+  codes: Record<string, IssuedGrant>;
+  refreshTokens: Record<string, IssuedGrant>;
+}
+
+export interface MockTokenResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+const loadState = (): MockAuthState => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : { codes: {}, refreshTokens: {} };
+  } catch {
+    return { codes: {}, refreshTokens: {} };
+  }
+};
+
+const saveState = (state: MockAuthState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+const randomToken = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const getMockSmartConfiguration = (fhirBaseUrl: string): SmartConfiguration => ({
+  authorization_endpoint: `${window.location.origin}${MOCK_AUTHORIZE_PATH}`,
+  token_endpoint: `${fhirBaseUrl}/${MOCK_TOKEN_PATH}`,
+  capabilities: ['launch-standalone', 'client-public', 'context-standalone-patient', 'permission-offline', 'permission-v2'],
+  code_challenge_methods_supported: ['S256'],
+  scopes_supported: SMART_SCOPE_OPTIONS.flatMap(option => option.scope.split(' ')),
+});
+
+export const issueMockAuthorizationCode = (grant: IssuedGrant) => {
+  const state = loadState();
+  const code = randomToken('code');
+  state.codes[code] = grant;
+  saveState(state);
+  return code;
+};
+
+const tokenError = (error: string, description: string): MockTokenResult => ({
+  status: 400,
+  body: { error, error_description: description },
+});
+
+const issueTokens = (state: MockAuthState, grant: IssuedGrant): MockTokenResult => {
+  const body: Record<string, unknown> = {
+    access_token: randomToken('access'),
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_LIFETIME_SECONDS,
+    scope: grant.scope,
+  };
+  if (grant.scope.split(' ').includes('offline_access')) {
+    const refreshToken = randomToken('refresh');
+    state.refreshTokens[refreshToken] = grant;
+    body.refresh_token = refreshToken;
+  }
+  if (grant.patient) body.patient = grant.patient;
+  saveState(state);
+  return { status: 200, body };
+};
+
+export const handleMockTokenRequest = async (requestBody: string): Promise<MockTokenResult> => {
+  const params = new URLSearchParams(requestBody);
+  const state = loadState();
+
+  switch (params.get('grant_type')) {
+    case 'authorization_code': {
+      const code = params.get('code') || '';
+      const grant = state.codes[code];
+      if (!grant) return tokenError('invalid_grant', 'Unknown or already used authorization code');
+      delete state.codes[code];
+      saveState(state);
+
+      if (grant.clientId !== params.get('client_id') || grant.redirectUri !== params.get('redirect_uri')) {
+        return tokenError('invalid_grant', 'client_id or redirect_uri does not match the authorization request');
+      }
+      if (grant.codeChallenge) {
+        const verifier = params.get('code_verifier') || '';
+        if (!verifier || (await createCodeChallenge(verifier)) !== grant.codeChallenge) {
+          return tokenError('invalid_grant', 'PKCE code_verifier does not match the code_challenge');
+        }
+      }
+      return issueTokens(state, grant);
+    }
+    case 'refresh_token': {
+      const refreshToken = params.get('refresh_token') || '';
+      const grant = state.refreshTokens[refreshToken];
+      if (!grant) return tokenError('invalid_grant', 'Unknown refresh token');
+      delete state.refreshTokens[refreshToken];
+      return issueTokens(state, grant);
+    }
+    default:
+      return tokenError('unsupported_grant_type', `grant_type ${params.get('grant_type')} is not supported`);
+  }
+};
@@ -0,0 +1,101 @@
+import { parseSearchPrefix } from './search';
+import type { ContactPoint, FHIRResource, Patient } from './types';
+
+// Search support for the mock server, covering the Patient parameters the
+// search screen uses. Comma-separated values are ORed, repeated parameters
+// are ANDed, and unknown parameters are ignored (lenient handling).
+
+type Matcher = (resource: Patient, value: string, modifier?: string) => boolean;
+
+const RESULT_PARAMETERS = new Set(['_count', '_sort', '_total', '_summary', '_elements', '_format', '_pretty', '_getpagesoffset']);
+
+const matchesString = (candidate: string | undefined, value: string, modifier?: string) => {
+  if (!candidate) return false;
+  if (modifier === 'exact') return candidate === value;
+  const normalizedCandidate = candidate.toLowerCase();
+  const normalizedValue = value.toLowerCase();
+  return modifier === 'contains'
+    ? normalizedCandidate.includes(normalizedValue)
+    : normalizedCandidate.startsWith(normalizedValue);
+};
+
+export const matchesDate = (candidate: string | undefined, search: string) => {
+  if (!candidate) return false;
+  const { prefix, value } = parseSearchPrefix(search);
+  const overlaps = candidate.startsWith(value) || value.startsWith(candidate);
+  switch (prefix) {
+    case 'ne':
+      return !overlaps;
+    case 'gt':
+    case 'sa':
+      return candidate > value && !overlaps;
+    case 'lt':
+    case 'eb':
+      return candidate < value && !overlaps;
+    case 'ge':
+      return candidate >= value || overlaps;
+    case 'le':
+      return candidate <= value || overlaps;
+    default:
+      return overlaps;
+  }
+};
+
+const matchesTelecom = (system: string): Matcher => (resource, value) =>
+  (resource.telecom || []).some(
+    (telecom: ContactPoint) =>
+      telecom.system === system &&
+      !!telecom.value &&
+      (system === 'phone'
+        ? telecom.value.replace(/[^\d+]/g, '') === value.replace(/[^\d+]/g, '')
+        : telecom.value.toLowerCase() === value.toLowerCase())
+  );
+
+const nameParts = (resource: Patient) =>
+  (resource.name || []).flatMap(name => [
+    name.text,
+    name.family,
+    ...(name.given || []),
+    ...(name.prefix || []),
+    ...(name.suffix || []),
+  ]);
+
+const matchers: Record<string, Matcher> = {
+  _id: (resource, value) => resource.id === value,
+  _lastUpdated: (resource, value) => matchesDate(resource.meta?.lastUpdated, value),
+  name: (resource, value, modifier) => nameParts(resource).some(part => matchesString(part, value, modifier)),
+  family: (resource, value, modifier) => (resource.name || []).some(name => matchesString(name.family, value, modifier)),
+  given: (resource, value, modifier) =>
+    (resource.name || []).some(name => (name.given || []).some(given => matchesString(given, value, modifier))),
+  birthdate: (resource, value) => matchesDate(resource.birthDate, value),
+  gender: (resource, value) => resource.gender === value,
+  identifier: (resource, value) => {
+    const separator = value.indexOf('|');
+    const system = separator >= 0 ? value.slice(0, separator) : null;
+    const code = separator >= 0 ? value.slice(separator + 1) : value;
+    return (resource.identifier || []).some(
+      identifier =>
+        (system === null || (system === '' ? !identifier.system : identifier.system === system)) &&
+        (code === '' || identifier.value === code)
+    );
+  },
+  phone: matchesTelecom('phone'),
+  email: matchesTelecom('email'),
+  'address-postalcode': (resource, value, modifier) =>
+    (resource.address || []).some(address => matchesString(address.postalCode, value, modifier)),
+};
+
+/** Returns the search parameters the mock server does not understand. */
+export const unsupportedSearchParameters = (params: URLSearchParams) =>
+  [...new Set(params.keys())].filter(key => {
+    const [name] = key.split(':');
+    return !RESULT_PARAMETERS.has(name) && !matchers[name];
+  });
+
+export const matchesSearch = (resource: FHIRResource, params: URLSearchParams) =>
+  [...params.entries()].every(([key, rawValue]) => {
+    const [name, modifier] = key.split(':');
+    const matcher = matchers[name];
+    if (!matcher) return true;
+    return rawValue.split(',').some(value => matcher(resource as Patient, value, modifier));
+  });
@@ -0,0 +1,572 @@
+import { FHIR_CONTENT_TYPE, parseETagVersion } from './client';
+import { getMockSmartConfiguration, handleMockTokenRequest, MOCK_TOKEN_PATH } from './mock-auth-server';
+import { matchesSearch, unsupportedSearchParameters } from './mock-search';
+import {
+  clearMockStore,
+  getCurrentVersion,
+  getVersion,
+  listCurrentVersions,
+  listVersions,
+  StoredVersion,
+  writeVersion,
+} from './mock-store';
+import {
+  applyFHIRPathPatch,
+  applyJsonPatch,
+  JSON_PATCH_CONTENT_TYPE,
+  parseFHIRPathPatchParameters,
+  PatchError,
+} from './patch';
+import { findPatientProfile, validatePatientProfile } from './profiles';
+import { expandLocalValueSet, findLocalValueSet, LOCAL_VALUE_SETS, lookupLocalCode } from './terminology';
+import type {
+  Bundle,
+  BundleEntry,
+  BundleLink,
+  FHIRResource,
+  OperationOutcome,
+  OperationOutcomeIssue,
+  Parameters,
+  Patient,
+  ValueSet,
+} from './types';
+
+/**
+ * Requests to this base URL never leave the browser: the fetch interceptor
+ * installed by `installMockFHIRServer` answers them from IndexedDB.
+ */
+export const MOCK_FHIR_BASE_URL = 'http://mock.fhir.local/fhir';
+
+/** Whether `url` is the mock base URL or beneath it; `.../fhir2` is not. */
+export const isMockFHIRUrl = (url: string) =>
+  url.startsWith(MOCK_FHIR_BASE_URL) && /^([/?#]|$)/.test(url.slice(MOCK_FHIR_BASE_URL.length));
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  410: 'Gone',
+  412: 'Precondition Failed',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Entity',
+  500: 'Internal Server Error',
+};
+
+interface MockRequest {
+  method: string;
+  url: URL;
+  segments: string[];
+  headers: Headers;
+  body: string;
+}
+
+interface MockResponse {
+  status: number;
+  body?: object;
+  headers?: Record<string, string>;
+  contentType?: string;
+}
+
+const outcome = (
+  status: number,
+  code: string,
+  diagnostics: string,
+  extra: Partial<OperationOutcomeIssue> = {}
+): MockResponse => ({
+  status,
+  body: {
+    resourceType: 'OperationOutcome',
+    issue: [{ severity: status >= 500 ? 'fatal' : 'error', code, diagnostics, ...extra }],
+  } as OperationOutcome,
+});
+
+const generateId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const versionHeaders = (stored: StoredVersion) => ({
+  ETag: `W/"${stored.versionId}"`,
+  'Last-Modified': new Date(stored.lastUpdated).toUTCString(),
+  Location: `${MOCK_FHIR_BASE_URL}/${stored.resourceType}/${stored.id}/_history/${stored.versionId}`,
+});
+
+const parseResource = (request: MockRequest, resourceType: string): FHIRResource | MockResponse => {
+  let resource: FHIRResource;
+  try {
+    resource = JSON.parse(request.body);
+  } catch {
+    return outcome(400, 'structure', 'Request body is not valid JSON');
+  }
+  if (!resource || typeof resource !== 'object' || resource.resourceType !== resourceType) {
+    return outcome(400, 'invalid', `Expected a ${resourceType} resource in the request body`, {
+      expression: ['resourceType'],
+    });
+  }
+  return resource;
+};
+
+const isResponse = (value: FHIRResource | MockResponse): value is MockResponse =>
+  !('resourceType' in value);
+
+const storeNewVersion = async (resource: FHIRResource, id: string, previous?: StoredVersion) => {
+  const versionId = String(previous ? Number(previous.versionId) + 1 : 1);
+  const lastUpdated = new Date().toISOString();
+  const { resourceType, meta, ...content } = resource;
+  return writeVersion({
+    resourceType,
+    id,
+    versionId,
+    lastUpdated,
+    deleted: false,
+    resource: { resourceType, id, meta: { ...meta, versionId, lastUpdated }, ...content },
+  });
+};
+
+const handleCreate = async (request: MockRequest, resourceType: string): Promise<MockResponse> => {
+  const parsed = parseResource(request, resourceType);
+  if (isResponse(parsed)) return parsed;
+
+  const ifNoneExist = request.headers.get('If-None-Exist');
+  if (ifNoneExist !== null) {
+    const params = new URLSearchParams(ifNoneExist.replace(/^[^?]*\?/, ''));
+    const unsupported = unsupportedSearchParameters(params);
+    if ([...params.keys()].length === 0 || unsupported.length > 0) {
+      return outcome(400, 'not-supported', unsupported.length > 0
+        ? `If-None-Exist uses unsupported search parameters: ${unsupported.join(', ')}`
+        : 'If-None-Exist must contain at least one search parameter');
+    }
+
+    const matches = (await listCurrentVersions(resourceType))
+      .filter(stored => !stored.deleted && stored.resource && matchesSearch(stored.resource, params));
+    if (matches.length > 1) {
+      return outcome(412, 'duplicate', `If-None-Exist "${ifNoneExist}" matched ${matches.length} resources`);
+    }
+    if (matches.length === 1) {
+      return { status: 200, body: matches[0].resource, headers: versionHeaders(matches[0]) };
+    }
+  }
+
+  const stored = await storeNewVersion(parsed, generateId());
+  return { status: 201, body: stored.resource, headers: versionHeaders(stored) };
+};
+
+const checkIfMatch = (
+  request: MockRequest,
+  resourceType: string,
+  id: string,
+  previous: StoredVersion | undefined
+): MockResponse | null => {
+  const ifMatch = request.headers.get('If-Match');
+  if (ifMatch === null) return null;
+  const expected = parseETagVersion(ifMatch);
+  if (previous && previous.versionId === expected) return null;
+  return outcome(412, 'conflict', previous
+    ? `Version conflict: If-Match ${ifMatch} but the current version is ${previous.versionId}`
+    : `Version conflict: If-Match ${ifMatch} but ${resourceType}/${id} does not exist`);
+};
+
+const handleUpdate = async (request: MockRequest, resourceType: string, id: string): Promise<MockResponse> => {
+  const parsed = parseResource(request, resourceType);
+  if (isResponse(parsed)) return parsed;
+  if (parsed.id !== id) {
+    return outcome(400, 'invalid', `Resource id "${parsed.id ?? ''}" does not match the URL id "${id}"`, {
+      expression: [`${resourceType}.id`],
+    });
+  }
+
+  const previous = await getCurrentVersion(resourceType, id);
+  const conflict = checkIfMatch(request, resourceType, id, previous);
+  if (conflict) return conflict;
+
+  const stored = await storeNewVersion(parsed, id, previous);
+  return {
+    status: previous && !previous.deleted ? 200 : 201,
+    body: stored.resource,
+    headers: versionHeaders(stored),
+  };
+};
+
+const handlePatch = async (request: MockRequest, resourceType: string, id: string): Promise<MockResponse> => {
+  const previous = await getCurrentVersion(resourceType, id);
+  if (!previous?.resource) {
+    return previous
+      ? outcome(410, 'deleted', `Resource ${resourceType}/${id} has been deleted`)
+      : outcome(404, 'not-found', `Resource ${resourceType}/${id} is not known`);
+  }
+  const conflict = checkIfMatch(request, resourceType, id, previous);
+  if (conflict) return conflict;
+
+  const contentType = (request.headers.get('Content-Type') || '').split(';')[0].trim();
+  let body: unknown;
+  try {
+    body = JSON.parse(request.body);
+  } catch {
+    return outcome(400, 'structure', 'Request body is not valid JSON');
+  }
+
+  let patched: FHIRResource;
+  try {
+    if (contentType === JSON_PATCH_CONTENT_TYPE) {
+      if (!Array.isArray(body)) return outcome(400, 'structure', 'A JSON Patch body must be an array of operations');
+      patched = applyJsonPatch(previous.resource, body);
+    } else if (contentType === FHIR_CONTENT_TYPE && (body as FHIRResource)?.resourceType === 'Parameters') {
+      patched = applyFHIRPathPatch(previous.resource, parseFHIRPathPatchParameters(body as Parameters));
+    } else {
+      return outcome(415, 'not-supported', `PATCH requires ${JSON_PATCH_CONTENT_TYPE} or a FHIRPath Patch Parameters resource as ${FHIR_CONTENT_TYPE}`);
+    }
+  } catch (error) {
+    if (error instanceof PatchError) return outcome(422, 'processing', error.message);
+    throw error;
+  }
+
+  if (patched.resourceType !== resourceType || patched.id !== id) {
+    return outcome(422, 'processing', 'A patch may not change the resourceType or id');
+  }
+  const stored = await storeNewVersion(patched, id, previous);
+  return { status: 200, body: stored.resource, headers: versionHeaders(stored) };
+};
+
+const handleRead = async (resourceType: string, id: string): Promise<MockResponse> => {
+  const stored = await getCurrentVersion(resourceType, id);
+  if (!stored) {
+    return outcome(404, 'not-found', `Resource ${resourceType}/${id} is not known`);
+  }
+  if (stored.deleted) {
+    return { ...outcome(410, 'deleted', `Resource ${resourceType}/${id} has been deleted`), headers: versionHeaders(stored) };
+  }
+  return { status: 200, body: stored.resource, headers: versionHeaders(stored) };
+};
+
+const handleDelete = async (resourceType: string, id: string): Promise<MockResponse> => {
+  const previous = await getCurrentVersion(resourceType, id);
+  if (!previous) {
+    return outcome(404, 'not-found', `Resource ${resourceType}/${id} is not known`);
+  }
+  // Deleting again is a no-op, as the spec requires DELETE to be idempotent.
+  if (previous.deleted) {
+    return { status: 204, headers: { ETag: `W/"${previous.versionId}"` } };
+  }
+
+  const stored = await writeVersion({
+    resourceType,
+    id,
+    versionId: String(Number(previous.versionId) + 1),
+    lastUpdated: new Date().toISOString(),
+    deleted: true,
+    resource: null,
+  });
+  return {
+    status: 200,
+    body: {
+      resourceType: 'OperationOutcome',
+      issue: [{ severity: 'information', code: 'informational', diagnostics: `Successfully deleted ${resourceType}/${id}` }],
+    } as OperationOutcome,
+    headers: { ETag: `W/"${stored.versionId}"` },
+  };
+};
+
+const pagingLinks = (url: URL, total: number, offset: number, count: number): BundleLink[] => {
+  const pageUrl = (pageOffset: number) => {
+    const next = new URL(url);
+    next.searchParams.set('_getpagesoffset', String(pageOffset));
+    next.searchParams.set('_count', String(count));
+    return next.toString();
+  };
+
+  const links: BundleLink[] = [{ relation: 'self', url: url.toString() }];
+  if (count === 0) return links;
+
+  const lastOffset = total > 0 ? Math.floor((total - 1) / count) * count : 0;
+  links.push({ relation: 'first', url: pageUrl(0) });
+  if (offset > 0) links.push({ relation: 'previous', url: pageUrl(Math.max(0, offset - count)) });
+  if (offset + count < total) links.push({ relation: 'next', url: pageUrl(offset + count) });
+  links.push({ relation: 'last', url: pageUrl(lastOffset) });
+  return links;
+};
+
+const handleSearch = async (request: MockRequest, resourceType: string): Promise<MockResponse> => {
+  const params = request.url.searchParams;
+  const matches = (await listCurrentVersions(resourceType))
+    .filter(stored => !stored.deleted && stored.resource && matchesSearch(stored.resource, params))
+    .sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+
+  const count = Math.max(0, Number(params.get('_count') ?? DEFAULT_PAGE_SIZE) || 0);
+  const offset = Math.max(0, Number(params.get('_getpagesoffset')) || 0);
+  const page = matches.slice(offset, offset + count);
+
+  const entry: BundleEntry[] = page.map(stored => ({
+    fullUrl: `${MOCK_FHIR_BASE_URL}/${resourceType}/${stored.id}`,
+    resource: stored.resource,
+    search: { mode: 'match' },
+  }));
+
+  const ignored = unsupportedSearchParameters(params);
+  if (ignored.length > 0) {
+    entry.push({
+      resource: {
+        resourceType: 'OperationOutcome',
+        issue: [{ severity: 'warning', code: 'not-supported', diagnostics: `Ignored unsupported search parameters: ${ignored.join(', ')}` }],
+      } as OperationOutcome,
+      search: { mode: 'outcome' },
+    });
+  }
+
+  const bundle: Bundle = {
+    resourceType: 'Bundle',
+    id: generateId(),
+    meta: { lastUpdated: new Date().toISOString() },
+    type: 'searchset',
+    total: matches.length,
+    link: pagingLinks(request.url, matches.length, offset, count),
+    entry,
+  };
+  return { status: 200, body: bundle };
+};
+
+const handleVread = async (resourceType: string, id: string, versionId: string): Promise<MockResponse> => {
+  const stored = await getVersion(resourceType, id, versionId);
+  if (!stored) {
+    return outcome(404, 'not-found', `Version ${versionId} of ${resourceType}/${id} is not known`);
+  }
+  if (stored.deleted) {
+    return { ...outcome(410, 'deleted', `Version ${versionId} of ${resourceType}/${id} is a deletion`), headers: versionHeaders(stored) };
+  }
+  return { status: 200, body: stored.resource, headers: versionHeaders(stored) };
+};
+
+// The store does not record the interaction that produced a version, so it is
+// inferred: the first version was a create and later ones were updates.
+const historyRequest = (stored: StoredVersion) => {
+  const url = `${stored.resourceType}/${stored.id}`;
+  if (stored.deleted) return { method: 'DELETE', url };
+  return stored.versionId === '1' ? { method: 'POST', url: stored.resourceType } : { method: 'PUT', url };
+};
+
+const handleHistory = async (request: MockRequest, resourceType: string, id: string): Promise<MockResponse> => {
+  const versions = await listVersions(resourceType, id);
+  if (versions.length === 0) {
+    return outcome(404, 'not-found', `Resource ${resourceType}/${id} is not known`);
+  }
+
+  const params = request.url.searchParams;
+  const count = Math.max(0, Number(params.get('_count') ?? DEFAULT_PAGE_SIZE) || 0);
+  const offset = Math.max(0, Number(params.get('_getpagesoffset')) || 0);
+
+  const entry: BundleEntry[] = versions.slice(offset, offset + count).map(stored => ({
+    fullUrl: `${MOCK_FHIR_BASE_URL}/${resourceType}/${id}`,
+    ...(stored.resource ? { resource: stored.resource } : {}),
+    request: historyRequest(stored),
+    response: {
+      status: stored.deleted ? '200 OK' : stored.versionId === '1' ? '201 Created' : '200 OK',
+      etag: `W/"${stored.versionId}"`,
+      lastModified: stored.lastUpdated,
+    },
+  }));
+
+  const bundle: Bundle = {
+    resourceType: 'Bundle',
+    id: generateId(),
+    meta: { lastUpdated: new Date().toISOString() },
+    type: 'history',
+    total: versions.length,
+    link: pagingLinks(request.url, versions.length, offset, count),
+    entry,
+  };
+  return { status: 200, body: bundle };
+};
+
+// $validate accepts the resource directly or wrapped in Parameters. Only
+// Patient has a local definition; other types are checked for JSON shape only.
+const handleValidate = (request: MockRequest, resourceType: string): MockResponse => {
+  let body: FHIRResource;
+  try {
+    body = JSON.parse(request.body);
+  } catch {
+    return outcome(400, 'structure', 'Request body is not valid JSON');
+  }
+
+  const parameters = body?.resourceType === 'Parameters' ? (body as Parameters).parameter || [] : null;
+  const resource = parameters ? parameters.find(parameter => parameter.name === 'resource')?.resource : body;
+  const profileParameter = parameters?.find(parameter => parameter.name === 'profile');
+  const profile = (profileParameter?.valueUri || profileParameter?.valueCanonical || request.url.searchParams.get('profile')) as
+    string | null | undefined;
+
+  if (!resource || resource.resourceType !== resourceType) {
+    return outcome(400, 'invalid', `Expected a ${resourceType} resource to validate`);
+  }
+
+  const knownProfile = resourceType === 'Patient' && !!findPatientProfile(profile || undefined);
+  const issue: OperationOutcomeIssue[] = resourceType === 'Patient'
+    ? validatePatientProfile(resource as Patient, profile || undefined).issue
+    : [{ severity: 'information', code: 'informational', diagnostics: `The mock server has no definition for ${resourceType}; only JSON shape was checked` }];
+  if (profile && !knownProfile) {
+    issue.push({
+      severity: 'warning',
+      code: 'not-supported',
+      diagnostics: `Profile ${profile} is not known to the mock server; validated against the base specification`,
+    });
+  }
+  if (issue.length === 0) {
+    issue.push({ severity: 'information', code: 'informational', diagnostics: 'Validation successful, no issues found' });
+  }
+  return { status: 200, body: { resourceType: 'OperationOutcome', issue } as OperationOutcome };
+};
+
+// Terminology operations answer from the bundled value sets in terminology.ts.
+const handleExpand = (request: MockRequest): MockResponse => {
+  const url = request.url.searchParams.get('url');
+  if (!url) return outcome(400, 'required', 'ValueSet/$expand needs a url parameter');
+  const valueSet = findLocalValueSet(url);
+  if (!valueSet) return outcome(404, 'not-found', `ValueSet ${url} is not known to the mock server`);
+
+  const concepts = expandLocalValueSet(url, request.url.searchParams.get('filter') || '');
+  const count = Number(request.url.searchParams.get('count')) || concepts.length;
+  const expansion: ValueSet = {
+    resourceType: 'ValueSet',
+    url: valueSet.url,
+    title: valueSet.title,
+    expansion: { total: concepts.length, contains: concepts.slice(0, count) },
+  };
+  return { status: 200, body: expansion };
+};
+
+const handleLookup = (request: MockRequest): MockResponse => {
+  const system = request.url.searchParams.get('system');
+  const code = request.url.searchParams.get('code');
+  if (!system || !code) return outcome(400, 'required', 'CodeSystem/$lookup needs system and code parameters');
+  const concept = lookupLocalCode(system, code);
+  if (!concept) return outcome(404, 'not-found', `Code ${code} is not known in ${system}`);
+
+  const parameters: Parameters = {
+    resourceType: 'Parameters',
+    parameter: [
+      { name: 'name', valueString: LOCAL_VALUE_SETS.find(valueSet => valueSet.concepts.includes(concept))?.title },
+      { name: 'display', valueString: concept.display },
+    ],
+  };
+  return { status: 200, body: parameters };
+};
+
+const handleValidateCode = (request: MockRequest): MockResponse => {
+  const url = request.url.searchParams.get('url');
+  const code = request.url.searchParams.get('code');
+  if (!url || !code) return outcome(400, 'required', 'ValueSet/$validate-code needs url and code parameters');
+  const valueSet = findLocalValueSet(url);
+  if (!valueSet) return outcome(404, 'not-found', `ValueSet ${url} is not known to the mock server`);
+
+  const system = request.url.searchParams.get('system');
+  const display = request.url.searchParams.get('display');
+  const concept = valueSet.concepts.find(candidate => candidate.code === code && (!system || candidate.system === system));
+  const message = !concept
+    ? `Code ${system ? `${system}|` : ''}${code} is not in ${valueSet.url}`
+    : display && display !== concept.display ? `Display "${display}" does not match "${concept.display}"` : undefined;
+  const parameters: Parameters = {
+    resourceType: 'Parameters',
+    parameter: [
+      { name: 'result', valueBoolean: !!concept && !message },
+      ...(message ? [{ name: 'message', valueString: message }] : []),
+      ...(concept ? [{ name: 'display', valueString: concept.display }] : []),
+    ],
+  };
+  return { status: 200, body: parameters };
+};
+
+const route = async (request: MockRequest): Promise<MockResponse> => {
+  const { method, segments } = request;
+  const [resourceType, id] = segments;
+  const path = segments.join('/');
+
+  if (path === '.well-known/smart-configuration' && method === 'GET') {
+    return { status: 200, body: getMockSmartConfiguration(MOCK_FHIR_BASE_URL), contentType: 'application/json' };
+  }
+  if (path === MOCK_TOKEN_PATH && method === 'POST') {
+    return { ...(await handleMockTokenRequest(request.body)), contentType: 'application/json' };
+  }
+
+  if (!resourceType || !/^[A-Z][A-Za-z]+$/.test(resourceType)) {
+    return outcome(400, 'not-supported', `Unsupported path /${segments.join('/')}`);
+  }
+
+  if (segments.length === 1 && method === 'POST') return handleCreate(request, resourceType);
+  if (segments.length === 2 && id === '$validate' && method === 'POST') return handleValidate(request, resourceType);
+  if (path === 'ValueSet/$expand' && method === 'GET') return handleExpand(request);
+  if (path === 'CodeSystem/$lookup' && method === 'GET') return handleLookup(request);
+  if (path === 'ValueSet/$validate-code' && method === 'GET') return handleValidateCode(request);
+  if (segments.length === 1 && method === 'GET') return handleSearch(request, resourceType);
+  if (segments.length === 2 && method === 'GET') return handleRead(resourceType, id);
+  if (segments.length === 2 && method === 'PUT') return handleUpdate(request, resourceType, id);
+  if (segments.length === 2 && method === 'PATCH') return handlePatch(request, resourceType, id);
+  if (segments.length === 2 && method === 'DELETE') return handleDelete(resourceType, id);
+  if (segments.length === 3 && segments[2] === '_history' && method === 'GET') {
+    return handleHistory(request, resourceType, id);
+  }
+  if (segments.length === 4 && segments[2] === '_history' && method === 'GET') {
+    return handleVread(resourceType, id, segments[3]);
+  }
+
+  return outcome(405, 'not-supported', `${method} /${segments.join('/')} is not supported by the mock server`);
+};
+
+const toFetchResponse = ({ status, body, headers, contentType = FHIR_CONTENT_TYPE }: MockResponse) => {
+  const responseHeaders = new Headers(headers);
+  if (body) responseHeaders.set('Content-Type', `${contentType}; charset=utf-8`);
+  return new Response(body && status !== 204 ? JSON.stringify(body, null, 2) : null, {
+    status,
+    statusText: STATUS_TEXT[status] || '',
+    headers: responseHeaders,
+  });
+};
+
+export const handleMockRequest = async (request: Request) => {
+  const url = new URL(request.url);
+  const basePath = new URL(MOCK_FHIR_BASE_URL).pathname;
+
+  let segments: string[];
+  try {
+    segments = url.pathname
+      .slice(basePath.length)
+      .split('/')
+      .filter(Boolean)
+      .map(decodeURIComponent);
+  } catch {
+    return toFetchResponse(outcome(400, 'invalid', `Malformed percent-encoding in path: ${url.pathname}`));
+  }
+
+  try {
+    return toFetchResponse(
+      await route({
+        method: request.method.toUpperCase(),
+        url,
+        segments,
+        headers: request.headers,
+        body: await request.text(),
+      })
+    );
+  } catch (error) {
+    return toFetchResponse(
+      outcome(500, 'exception', error instanceof Error ? error.message : 'Mock server failure')
+    );
+  }
+};
+
+let installed = false;
+
+export const installMockFHIRServer = () => {
+  if (installed) return;
+  installed = true;
+
+  const realFetch = window.fetch.bind(window);
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (!isMockFHIRUrl(url)) {
+      return realFetch(input, init);
+    }
+    return handleMockRequest(new Request(input, init));
+  };
+};
+
+export const resetMockFHIRServer = clearMockStore;
@@ -0,0 +1,99 @@
+import type { FHIRResource } from './types';
+
+// IndexedDB persistence for the in-browser mock server. `current` holds the
+// latest version of every resource (including deletion tombstones) and
+// `history` holds every version ever written, keyed by type/id/versionId.
+
+const DB_NAME = 'fhir-testing-mock-server';
+const DB_VERSION = 1;
+const CURRENT_STORE = 'current';
+const HISTORY_STORE = 'history';
+
+export interface StoredVersion {
+  key: string;
+  resourceKey: string;
+  resourceType: string;
+  id: string;
+  versionId: string;
+  lastUpdated: string;
+  deleted: boolean;
+  resource: FHIRResource | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(CURRENT_STORE, { keyPath: 'key' }).createIndex('byType', 'resourceType');
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'key' }).createIndex('byResource', 'resourceKey');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const resourceKey = (resourceType: string, id: string) => `${resourceType}/${id}`;
+
+export const getCurrentVersion = async (resourceType: string, id: string) => {
+  const db = await openDatabase();
+  const store = db.transaction(CURRENT_STORE).objectStore(CURRENT_STORE);
+  return (await promisify(store.get(resourceKey(resourceType, id)))) as StoredVersion | undefined;
+};
+
+export const getVersion = async (resourceType: string, id: string, versionId: string) => {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE);
+  return (await promisify(store.get(`${resourceKey(resourceType, id)}/${versionId}`))) as StoredVersion | undefined;
+};
+
+export const listCurrentVersions = async (resourceType: string) => {
+  const db = await openDatabase();
+  const index = db.transaction(CURRENT_STORE).objectStore(CURRENT_STORE).index('byType');
+  return (await promisify(index.getAll(resourceType))) as StoredVersion[];
+};
+
+export const listVersions = async (resourceType: string, id: string) => {
+  const db = await openDatabase();
+  const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('byResource');
+  const versions = (await promisify(index.getAll(resourceKey(resourceType, id)))) as StoredVersion[];
+  return versions.sort((a, b) => Number(b.versionId) - Number(a.versionId));
+};
+
+/** Writes a new version to both stores atomically. */
+export const writeVersion = async (version: Omit<StoredVersion, 'key' | 'resourceKey'>) => {
+  const key = resourceKey(version.resourceType, version.id);
+  const stored: StoredVersion = { ...version, key, resourceKey: key };
+  const db = await openDatabase();
+  const transaction = db.transaction([CURRENT_STORE, HISTORY_STORE], 'readwrite');
+  transaction.objectStore(CURRENT_STORE).put(stored);
+  transaction.objectStore(HISTORY_STORE).put({ ...stored, key: `${key}/${version.versionId}` });
+  await transactionDone(transaction);
+  return stored;
+};
+
+export const clearMockStore = async () => {
+  const db = await openDatabase();
+  const transaction = db.transaction([CURRENT_STORE, HISTORY_STORE], 'readwrite');
+  transaction.objectStore(CURRENT_STORE).clear();
+  transaction.objectStore(HISTORY_STORE).clear();
+  await transactionDone(transaction);
+};
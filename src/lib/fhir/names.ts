@@ -0,0 +1,62 @@
+import type { HumanName } from './types';
+
+export const NAME_USES = ['official', 'usual', 'temp', 'nickname', 'anonymous', 'old', 'maiden'];
+
+/** String-only shape of a HumanName as edited in the patient form. */
+export interface NameFormValue {
+  use: string;
+  prefix: string;
+  /** Given names separated by spaces, in order. */
+  given: string;
+  family: string;
+  suffix: string;
+  text: string;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export const emptyNameFormValue: NameFormValue = {
+  use: 'official',
+  prefix: '',
+  given: '',
+  family: '',
+  suffix: '',
+  text: '',
+  periodStart: '',
+  periodEnd: '',
+};
+
+const splitParts = (value: string) => value.split(/\s+/).filter(Boolean);
+
+export const nameToFormValue = (name: HumanName): NameFormValue => ({
+  use: name.use || '',
+  prefix: (name.prefix || []).join(' '),
+  given: (name.given || []).join(' '),
+  family: name.family || '',
+  suffix: (name.suffix || []).join(' '),
+  text: name.text || '',
+  periodStart: name.period?.start || '',
+  periodEnd: name.period?.end || '',
+});
+
+export const formValueToName = (form: NameFormValue): HumanName => {
+  const name: HumanName = {};
+  if (form.use) name.use = form.use;
+  if (form.text.trim()) name.text = form.text.trim();
+  if (form.family.trim()) name.family = form.family.trim();
+  const given = splitParts(form.given);
+  if (given.length > 0) name.given = given;
+  const prefix = splitParts(form.prefix);
+  if (prefix.length > 0) name.prefix = prefix;
+  const suffix = splitParts(form.suffix);
+  if (suffix.length > 0) name.suffix = suffix;
+  if (form.periodStart || form.periodEnd) {
+    name.period = {
+      ...(form.periodStart ? { start: form.periodStart } : {}),
+      ...(form.periodEnd ? { end: form.periodEnd } : {}),
+    };
+  }
+  return name;
+};
+
+export const isNameEmpty = (form: NameFormValue) => ![form.given, form.family, form.text].some(value => value.trim());
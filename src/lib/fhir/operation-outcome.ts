@@ -0,0 +1,70 @@
+import type { OperationOutcome, OperationOutcomeIssue } from './types';
+
+export const SEVERITY_ORDER: OperationOutcomeIssue['severity'][] = ['fatal', 'error', 'warning', 'information'];
+
+export const isOperationOutcome = (value: unknown): value is OperationOutcome =>
+  !!value &&
+  typeof value === 'object' &&
+  (value as { resourceType?: unknown }).resourceType === 'OperationOutcome' &&
+  Array.isArray((value as { issue?: unknown }).issue);
+
+// XPath locations such as `/f:Patient/f:name` use `/` as the separator; in
+// FHIRPath a `/` only appears inside quoted arguments, e.g. extension URLs.
+const isXPathLocation = (path: string) => path.startsWith('/') || /(^|\/)f:/.test(path);
+
+/**
+ * Normalises an issue's `expression` and legacy `location` entries to plain
+ * dotted paths without indices, e.g. `/f:Patient/f:name[1]/f:given` and
+ * `Patient.name[1].given[0]` both become `Patient.name.given`. Quoted
+ * arguments such as `extension('http://...')` are kept as they are.
+ */
+export const getIssuePaths = (issue: OperationOutcomeIssue) =>
+  [...(issue.expression || []), ...(issue.location || [])].map(path => {
+    const dotted = isXPathLocation(path)
+      ? path.replace(/^\/+/, '').replace(/\/?f:/g, '.').replace(/\//g, '.')
+      : path;
+    return dotted.replace(/\[[^\]]*\]/g, '').replace(/^\.+/, '');
+  });
+
+const stripResourceType = (path: string) => path.replace(/^[A-Z][A-Za-z]+\./, '');
+
+/** Human-readable text for an issue, preferring diagnostics over details. */
+export const describeIssue = (issue: OperationOutcomeIssue) =>
+  issue.diagnostics || issue.details?.text || issue.details?.coding?.[0]?.display || issue.code;
+
+/**
+ * Maps issues onto form fields. `fieldPaths` lists, per field key, the
+ * element paths that field produces; an issue matches a field when one of its
+ * paths equals or sits beneath one of those element paths. Paths are compared
+ * with the leading resource type removed, so `birthDate` and
+ * `Patient.birthDate` are treated alike.
+ */
+export const mapIssuesToFields = <K extends string>(
+  outcome: OperationOutcome,
+  fieldPaths: Record<K, string[]>
+): Partial<Record<K, string>> => {
+  const errors: Partial<Record<K, string>> = {};
+  outcome.issue
+    .filter(issue => issue.severity === 'error' || issue.severity === 'fatal')
+    .forEach(issue => {
+      getIssuePaths(issue).forEach(path => {
+        (Object.keys(fieldPaths) as K[]).forEach(field => {
+          const relative = stripResourceType(path);
+          const matches = fieldPaths[field].map(stripResourceType).some(
+            fieldPath => relative === fieldPath || relative.startsWith(`${fieldPath}.`)
+          );
+          if (matches && !errors[field]) errors[field] = describeIssue(issue);
+        });
+      });
+    });
+  return errors;
+};
+
+/** A one-line summary suitable for a toast description. */
+export const summarizeOutcome = (outcome: OperationOutcome) => {
+  const [first, ...rest] = [...outcome.issue].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+  if (!first) return 'The server returned an empty OperationOutcome.';
+  return rest.length > 0 ? `${describeIssue(first)} (+${rest.length} more)` : describeIssue(first);
+};
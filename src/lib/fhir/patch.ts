@@ -0,0 +1,407 @@
+import { isDeepEqual } from './merge';
+import type { FHIRResource, Parameters, ParametersParameter } from './types';
+
+// Local implementations of the two PATCH formats FHIR servers accept, used
+// to predict the result of a PATCH before it is sent and by the mock server.
+// See https://hl7.org/fhir/R4/http.html#patch
+
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+type Container = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is Container => typeof value === 'object' && value !== null;
+
+// ---------------------------------------------------------------------------
+// RFC 6902 JSON Patch
+// ---------------------------------------------------------------------------
+
+export const JSON_PATCH_OPS = ['add', 'remove', 'replace', 'move', 'copy', 'test'] as const;
+
+export type JsonPatchOp = (typeof JSON_PATCH_OPS)[number];
+
+export interface JsonPatchOperation {
+  op: JsonPatchOp;
+  path: string;
+  value?: unknown;
+  from?: string;
+}
+
+/** Splits an RFC 6901 JSON Pointer into its unescaped reference tokens. */
+const parsePointer = (pointer: string) => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new PatchError(`Invalid JSON Pointer "${pointer}": must start with "/"`);
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const arrayIndex = (array: unknown[], token: string, pointer: string, allowEnd: boolean) => {
+  if (allowEnd && token === '-') return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) throw new PatchError(`Invalid array index "${token}" in "${pointer}"`);
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new PatchError(`Array index ${index} is out of bounds in "${pointer}"`);
+  }
+  return index;
+};
+
+/** Resolves everything but the last token, returning the parent container and that token. */
+const resolveParent = (document: unknown, pointer: string) => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) throw new PatchError('Replacing the whole document is not supported');
+  let current = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, pointer, false)];
+    } else if (isContainer(current) && token in current) {
+      current = current[token];
+    } else {
+      throw new PatchError(`Path "${pointer}" does not exist`);
+    }
+  }
+  if (!isContainer(current)) throw new PatchError(`Path "${pointer}" does not exist`);
+  return { parent: current, token: tokens[tokens.length - 1] };
+};
+
+const getPointer = (document: unknown, pointer: string) => {
+  const { parent, token } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) return parent[arrayIndex(parent, token, pointer, false)];
+  if (!(token in parent)) throw new PatchError(`Path "${pointer}" does not exist`);
+  return parent[token];
+};
+
+const addAtPointer = (document: unknown, pointer: string, value: unknown) => {
+  const { parent, token } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, token, pointer, true), 0, value);
+  } else {
+    parent[token] = value;
+  }
+};
+
+const removeAtPointer = (document: unknown, pointer: string) => {
+  const { parent, token } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    return parent.splice(arrayIndex(parent, token, pointer, false), 1)[0];
+  }
+  if (!(token in parent)) throw new PatchError(`Path "${pointer}" does not exist`);
+  const removed = parent[token];
+  delete parent[token];
+  return removed;
+};
+
+export const applyJsonPatch = <T extends object>(document: T, operations: JsonPatchOperation[]): T => {
+  const result = clone(document);
+  operations.forEach((operation, index) => {
+    const requireValue = () => {
+      if (!('value' in operation) || operation.value === undefined) {
+        throw new PatchError(`Operation ${index + 1} (${operation.op}) requires a value`);
+      }
+      return clone(operation.value);
+    };
+    const requireFrom = () => {
+      if (typeof operation.from !== 'string') throw new PatchError(`Operation ${index + 1} (${operation.op}) requires "from"`);
+      return operation.from;
+    };
+
+    switch (operation.op) {
+      case 'add':
+        addAtPointer(result, operation.path, requireValue());
+        break;
+      case 'remove':
+        removeAtPointer(result, operation.path);
+        break;
+      case 'replace':
+        getPointer(result, operation.path);
+        removeAtPointer(result, operation.path);
+        addAtPointer(result, operation.path, requireValue());
+        break;
+      case 'move': {
+        const from = requireFrom();
+        if (operation.path.startsWith(`${from}/`)) {
+          throw new PatchError(`Operation ${index + 1} (move) cannot move "${from}" into its own child`);
+        }
+        addAtPointer(result, operation.path, removeAtPointer(result, from));
+        break;
+      }
+      case 'copy':
+        addAtPointer(result, operation.path, clone(getPointer(result, requireFrom())));
+        break;
+      case 'test':
+        if (!isDeepEqual(getPointer(result, operation.path), requireValue())) {
+          throw new PatchError(`Operation ${index + 1} (test) failed: "${operation.path}" does not have the expected value`);
+        }
+        break;
+      default:
+        throw new PatchError(`Operation ${index + 1} has unknown op "${(operation as { op: unknown }).op}"`);
+    }
+  });
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// FHIRPath Patch (a Parameters resource of `operation` parameters)
+// ---------------------------------------------------------------------------
+
+export const FHIRPATH_PATCH_TYPES = ['add', 'insert', 'delete', 'replace', 'move'] as const;
+
+export type FHIRPathPatchType = (typeof FHIRPATH_PATCH_TYPES)[number];
+
+export interface FHIRPathPatchOperation {
+  type: FHIRPathPatchType;
+  path: string;
+  name?: string;
+  /** FHIR datatype of `value`, e.g. `String`, `Date` or `HumanName`; becomes `value[x]`. */
+  valueType?: string;
+  value?: unknown;
+  index?: number;
+  source?: number;
+  destination?: number;
+}
+
+export const buildFHIRPathPatchParameters = (operations: FHIRPathPatchOperation[]): Parameters => ({
+  resourceType: 'Parameters',
+  parameter: operations.map(operation => {
+    const part: ParametersParameter[] = [
+      { name: 'type', valueCode: operation.type },
+      { name: 'path', valueString: operation.path },
+    ];
+    if (operation.name !== undefined) part.push({ name: 'name', valueString: operation.name });
+    if (operation.index !== undefined) part.push({ name: 'index', valueInteger: operation.index });
+    if (operation.source !== undefined) part.push({ name: 'source', valueInteger: operation.source });
+    if (operation.destination !== undefined) part.push({ name: 'destination', valueInteger: operation.destination });
+    if (operation.value !== undefined) part.push({ name: 'value', [`value${operation.valueType || 'String'}`]: operation.value });
+    return { name: 'operation', part };
+  }),
+});
+
+const getValueEntry = (parameter: ParametersParameter) =>
+  Object.entries(parameter).find(([key]) => key.startsWith('value'));
+
+export const parseFHIRPathPatchParameters = (parameters: Parameters): FHIRPathPatchOperation[] =>
+  (parameters.parameter || []).map((parameter, index) => {
+    if (parameter.name !== 'operation') {
+      throw new PatchError(`Parameter ${index + 1} must be named "operation", not "${parameter.name}"`);
+    }
+    const parts = parameter.part || [];
+    const partValue = (name: string) => {
+      const part = parts.find(p => p.name === name);
+      return part ? getValueEntry(part)?.[1] : undefined;
+    };
+    const valuePart = parts.find(p => p.name === 'value');
+    if (valuePart?.part) {
+      throw new PatchError(`Operation ${index + 1}: values given as nested parts are not supported, use a typed value[x]`);
+    }
+    const valueEntry = valuePart && getValueEntry(valuePart);
+
+    const type = partValue('type');
+    if (!FHIRPATH_PATCH_TYPES.includes(type as FHIRPathPatchType)) {
+      throw new PatchError(`Operation ${index + 1} has unknown type "${String(type)}"`);
+    }
+    const path = partValue('path');
+    if (typeof path !== 'string' || !path) throw new PatchError(`Operation ${index + 1} is missing its path`);
+
+    const optionalNumber = (name: string) => {
+      const value = partValue(name);
+      return value === undefined ? undefined : Number(value);
+    };
+    return {
+      type: type as FHIRPathPatchType,
+      path,
+      name: partValue('name') as string | undefined,
+      valueType: valueEntry?.[0].slice('value'.length),
+      value: valueEntry?.[1],
+      index: optionalNumber('index'),
+      source: optionalNumber('source'),
+      destination: optionalNumber('destination'),
+    };
+  });
+
+// Without the StructureDefinitions we cannot tell whether an absent element
+// repeats, so `add` uses this list of common repeating elements to decide
+// whether to create a list or a single value.
+const REPEATING_ELEMENTS = new Set([
+  'identifier', 'name', 'telecom', 'address', 'contact', 'communication', 'link', 'generalPractitioner',
+  'photo', 'extension', 'modifierExtension', 'given', 'prefix', 'suffix', 'line', 'coding', 'profile',
+  'tag', 'security', 'relationship',
+]);
+
+/** A location in the resource: `holder[key]`, or `holder[key][index]` for list items. */
+interface PathNode {
+  holder: Record<string, unknown>;
+  key: string;
+  index: number | null;
+}
+
+const nodeValue = ({ holder, key, index }: PathNode) => {
+  const value = holder[key];
+  return index === null ? value : (value as unknown[])[index];
+};
+
+/** Splits a FHIRPath expression on top-level dots, leaving function arguments intact. */
+const splitPath = (path: string) => {
+  const segments: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of path) {
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (char === '.' && depth === 0 && !quoted) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments.map(segment => segment.trim());
+};
+
+/**
+ * Evaluates the subset of FHIRPath that patch paths normally use: element
+ * names, `[n]` indexers, `where(element = 'value')`, `first()` and `last()`.
+ */
+const evaluatePath = (resource: FHIRResource, path: string): PathNode[] => {
+  const segments = splitPath(path);
+  const root = { resource };
+  let nodes: PathNode[] = [{ holder: root, key: 'resource', index: null }];
+  if (segments[0] === resource.resourceType) segments.shift();
+
+  for (const segment of segments) {
+    const where = segment.match(/^where\(\s*([A-Za-z]+)\s*=\s*'([^']*)'\s*\)$/);
+    if (where) {
+      const [, element, expected] = where;
+      nodes = nodes.filter(node => {
+        const value = nodeValue(node);
+        return isContainer(value) && !Array.isArray(value) && String(value[element]) === expected;
+      });
+      continue;
+    }
+    if (segment === 'first()') {
+      nodes = nodes.slice(0, 1);
+      continue;
+    }
+    if (segment === 'last()') {
+      nodes = nodes.slice(-1);
+      continue;
+    }
+
+    const element = segment.match(/^([A-Za-z][A-Za-z0-9]*)(?:\[(\d+)\])?$/);
+    if (!element) throw new PatchError(`Unsupported FHIRPath expression "${segment}" in "${path}"`);
+    const [, name, indexer] = element;
+
+    nodes = nodes.flatMap(node => {
+      const parent = nodeValue(node);
+      if (!isContainer(parent) || Array.isArray(parent)) return [];
+      const value = parent[name];
+      if (value === undefined) return [];
+      if (Array.isArray(value)) return value.map((_, index) => ({ holder: parent, key: name, index }));
+      return [{ holder: parent, key: name, index: null }];
+    });
+    if (indexer !== undefined) {
+      nodes = nodes[Number(indexer)] ? [nodes[Number(indexer)]] : [];
+    }
+  }
+  return nodes;
+};
+
+const singleNode = (resource: FHIRResource, path: string, type: string) => {
+  const nodes = evaluatePath(resource, path);
+  if (nodes.length !== 1) {
+    throw new PatchError(`${type}: path "${path}" must match exactly one element but matched ${nodes.length}`);
+  }
+  return nodes[0];
+};
+
+/** The list a path points into; every matched node must be an item of the same list. */
+const listNodes = (resource: FHIRResource, path: string, type: string) => {
+  const nodes = evaluatePath(resource, path);
+  if (nodes.length === 0) throw new PatchError(`${type}: path "${path}" does not match any element`);
+  const [{ holder, key }] = nodes;
+  if (nodes.some(node => node.index === null || node.holder !== holder || node.key !== key)) {
+    throw new PatchError(`${type}: path "${path}" must point at a single list`);
+  }
+  return holder[key] as unknown[];
+};
+
+const checkListIndex = (list: unknown[], index: number | undefined, max: number, label: string, type: string) => {
+  if (index === undefined || !Number.isInteger(index) || index < 0 || index > max) {
+    throw new PatchError(`${type}: ${label} ${index ?? '(missing)'} is out of range 0..${max}`);
+  }
+  return index;
+};
+
+export const applyFHIRPathPatch = <T extends FHIRResource>(resource: T, operations: FHIRPathPatchOperation[]): T => {
+  const result = clone(resource);
+  operations.forEach(operation => {
+    const { type, path } = operation;
+    const value = operation.value === undefined ? undefined : clone(operation.value);
+    if ((type === 'add' || type === 'insert' || type === 'replace') && value === undefined) {
+      throw new PatchError(`${type}: a value is required`);
+    }
+
+    switch (type) {
+      case 'add': {
+        if (!operation.name) throw new PatchError('add: a name is required');
+        const parent = nodeValue(singleNode(result, path, type));
+        if (!isContainer(parent) || Array.isArray(parent)) {
+          throw new PatchError(`add: path "${path}" does not point at an element that can have children`);
+        }
+        const existing = parent[operation.name];
+        if (Array.isArray(existing)) {
+          existing.push(value);
+        } else if (existing !== undefined) {
+          throw new PatchError(`add: "${path}.${operation.name}" already has a value; use replace`);
+        } else {
+          parent[operation.name] = REPEATING_ELEMENTS.has(operation.name) ? [value] : value;
+        }
+        break;
+      }
+      case 'insert': {
+        const list = listNodes(result, path, type);
+        list.splice(checkListIndex(list, operation.index, list.length, 'index', type), 0, value);
+        break;
+      }
+      case 'delete': {
+        const nodes = evaluatePath(result, path);
+        if (nodes.length > 1) throw new PatchError(`delete: path "${path}" matched ${nodes.length} elements`);
+        if (nodes.length === 0) break;
+        const [{ holder, key, index }] = nodes;
+        if (index === null) {
+          delete holder[key];
+        } else {
+          const list = holder[key] as unknown[];
+          list.splice(index, 1);
+          if (list.length === 0) delete holder[key];
+        }
+        break;
+      }
+      case 'replace': {
+        const { holder, key, index } = singleNode(result, path, type);
+        if (index === null) {
+          holder[key] = value;
+        } else {
+          (holder[key] as unknown[])[index] = value;
+        }
+        break;
+      }
+      case 'move': {
+        const list = listNodes(result, path, type);
+        const source = checkListIndex(list, operation.source, list.length - 1, 'source', type);
+        const destination = checkListIndex(list, operation.destination, list.length - 1, 'destination', type);
+        list.splice(destination, 0, list.splice(source, 1)[0]);
+        break;
+      }
+    }
+  });
+  return result;
+};
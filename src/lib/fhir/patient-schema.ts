@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import { findChoiceVariants } from './choice-types';
+import type { OperationOutcome, OperationOutcomeIssue } from './types';
+
+// Client-side validation of a Patient against the FHIR R4 definition:
+// primitive formats, value sets bound `required`, cardinalities, the ele-1
+// rule that elements carry a value or children, and the invariants ext-1,
+// per-1, cpt-2 and pat-1. Results are an OperationOutcome so they can be shown
+// and mapped onto form fields like a server's response.
+// See https://hl7.org/fhir/R4/patient.html and https://hl7.org/fhir/R4/datatypes.html
+
+// Primitive regexes from the R4 specification.
+const primitive = {
+  string: z.string().regex(/^[ \r\n\t\S]+$/, 'Must not be empty'),
+  code: z.string().regex(/^[^\s]+( [^\s]+)*$/, 'Not a valid code (no leading, trailing or repeated whitespace)'),
+  uri: z.string().regex(/^\S+$/, 'Not a valid URI (must not be empty or contain whitespace)'),
+  id: z.string().regex(/^[A-Za-z0-9\-.]{1,64}$/, 'Not a valid id (1-64 letters, digits, "-" or ".")'),
+  date: z.string().regex(
+    /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1]))?)?$/,
+    'Not a valid date (YYYY, YYYY-MM or YYYY-MM-DD)'
+  ),
+  dateTime: z.string().regex(
+    /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1])(T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]{1,9})?(Z|(\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00)))?)?)?$/,
+    'Not a valid dateTime (a time needs seconds and a timezone)'
+  ),
+  boolean: z.boolean({ invalid_type_error: 'Must be true or false' }),
+  integer: z.number().int('Must be a whole number').min(-2147483648).max(2147483647),
+  positiveInt: z.number().int('Must be a whole number').min(1, 'Must be 1 or more').max(2147483647),
+};
+
+const codeIn = (codes: readonly [string, ...string[]]) =>
+  z.enum(codes, { errorMap: () => ({ message: `Must be one of: ${codes.join(', ')}` }) });
+
+/** Repeating elements: JSON arrays must not be empty. */
+const list = <T extends z.ZodTypeAny>(item: T) => z.array(item).min(1, 'Must not be an empty array');
+
+const hasContent = (value: object) => Object.values(value).some(child => child !== undefined);
+
+const ELE_1 = 'ele-1: All FHIR elements must have a @value or children';
+
+// ext-1: an extension has nested extensions or a value[x], not both.
+const extensionSchema: z.ZodTypeAny = z.lazy(() =>
+  z
+    .object({ id: z.string().optional(), url: primitive.uri, extension: list(extensionSchema).optional() })
+    .passthrough()
+    .superRefine((extension, ctx) => {
+      const values = findChoiceVariants(extension, 'value');
+      if (values.length > 1) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'An extension can only have one value[x]' });
+      }
+      if ((values.length > 0) === Boolean(extension.extension?.length)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'ext-1: Must have either extensions or value[x], not both' });
+      }
+    })
+);
+
+/** A complex datatype or backbone element: known children only, and at least one of them (ele-1). */
+const element = <T extends z.ZodRawShape>(shape: T) =>
+  z
+    .object({ id: z.string().optional(), extension: list(extensionSchema).optional(), ...shape })
+    .strict()
+    .refine(hasContent, ELE_1);
+
+const periodSchema = element({ start: primitive.dateTime.optional(), end: primitive.dateTime.optional() }).refine(
+  period => !period.start || !period.end || period.start.slice(0, period.end.length) <= period.end,
+  { message: 'per-1: If present, start SHALL have a lower value than end' }
+);
+
+const codingSchema = element({
+  system: primitive.uri.optional(),
+  version: primitive.string.optional(),
+  code: primitive.code.optional(),
+  display: primitive.string.optional(),
+  userSelected: primitive.boolean.optional(),
+});
+
+const codeableConceptSchema = element({ coding: list(codingSchema).optional(), text: primitive.string.optional() });
+
+const identifierSchema: z.ZodTypeAny = z.lazy(() =>
+  element({
+    use: codeIn(['usual', 'official', 'temp', 'secondary', 'old']).optional(),
+    type: codeableConceptSchema.optional(),
+    system: primitive.uri.optional(),
+    value: primitive.string.optional(),
+    period: periodSchema.optional(),
+    assigner: referenceSchema.optional(),
+  })
+);
+
+const referenceSchema = element({
+  reference: primitive.string.optional(),
+  type: primitive.uri.optional(),
+  identifier: identifierSchema.optional(),
+  display: primitive.string.optional(),
+});
+
+const humanNameSchema = element({
+  use: codeIn(['usual', 'official', 'temp', 'nickname', 'anonymous', 'old', 'maiden']).optional(),
+  text: primitive.string.optional(),
+  family: primitive.string.optional(),
+  given: list(primitive.string).optional(),
+  prefix: list(primitive.string).optional(),
+  suffix: list(primitive.string).optional(),
+  period: periodSchema.optional(),
+});
+
+const contactPointSchema = element({
+  system: codeIn(['phone', 'fax', 'email', 'pager', 'url', 'sms', 'other']).optional(),
+  value: primitive.string.optional(),
+  use: codeIn(['home', 'work', 'temp', 'old', 'mobile']).optional(),
+  rank: primitive.positiveInt.optional(),
+  period: periodSchema.optional(),
+}).refine(contactPoint => !contactPoint.value || contactPoint.system, {
+  message: 'cpt-2: A system is required if a value is provided',
+});
+
+const addressSchema = element({
+  use: codeIn(['home', 'work', 'temp', 'old', 'billing']).optional(),
+  type: codeIn(['postal', 'physical', 'both']).optional(),
+  text: primitive.string.optional(),
+  line: list(primitive.string).optional(),
+  city: primitive.string.optional(),
+  district: primitive.string.optional(),
+  state: primitive.string.optional(),
+  postalCode: primitive.string.optional(),
+  country: primitive.string.optional(),
+  period: periodSchema.optional(),
+});
+
+const administrativeGender = codeIn(['male', 'female', 'other', 'unknown']);
+
+const patientContactSchema = element({
+  modifierExtension: list(extensionSchema).optional(),
+  relationship: list(codeableConceptSchema).optional(),
+  name: humanNameSchema.optional(),
+  telecom: list(contactPointSchema).optional(),
+  address: addressSchema.optional(),
+  gender: administrativeGender.optional(),
+  organization: referenceSchema.optional(),
+  period: periodSchema.optional(),
+}).refine(contact => contact.name || contact.telecom || contact.address || contact.organization, {
+  message: "pat-1: SHALL at least contain a contact's details or a reference to an organization",
+});
+
+const CHOICE_ELEMENTS = {
+  deceased: ['Boolean', 'DateTime'],
+  multipleBirth: ['Boolean', 'Integer'],
+};
+
+const patientShape = {
+  resourceType: z.literal('Patient'),
+  id: primitive.id.optional(),
+  meta: z.object({}).passthrough().optional(),
+  implicitRules: primitive.uri.optional(),
+  language: primitive.code.optional(),
+  text: z.object({ status: primitive.code, div: primitive.string }).passthrough().optional(),
+  contained: list(z.object({ resourceType: primitive.code }).passthrough()).optional(),
+  extension: list(extensionSchema).optional(),
+  modifierExtension: list(extensionSchema).optional(),
+  identifier: list(identifierSchema).optional(),
+  active: primitive.boolean.optional(),
+  name: list(humanNameSchema).optional(),
+  telecom: list(contactPointSchema).optional(),
+  gender: administrativeGender.optional(),
+  birthDate: primitive.date.optional(),
+  deceasedBoolean: primitive.boolean.optional(),
+  deceasedDateTime: primitive.dateTime.optional(),
+  address: list(addressSchema).optional(),
+  maritalStatus: codeableConceptSchema.optional(),
+  multipleBirthBoolean: primitive.boolean.optional(),
+  multipleBirthInteger: primitive.integer.optional(),
+  photo: list(z.object({}).passthrough()).optional(),
+  contact: list(patientContactSchema).optional(),
+  communication: list(element({
+    modifierExtension: list(extensionSchema).optional(),
+    language: codeableConceptSchema,
+    preferred: primitive.boolean.optional(),
+  })).optional(),
+  generalPractitioner: list(referenceSchema).optional(),
+  managingOrganization: referenceSchema.optional(),
+  link: list(element({
+    modifierExtension: list(extensionSchema).optional(),
+    other: referenceSchema,
+    type: codeIn(['replaced-by', 'replaces', 'refer', 'seealso']),
+  })).optional(),
+};
+
+// Unknown elements and extra choice-type variants are checked separately so
+// they are reported even when other elements fail to parse.
+const patientStructureSchema = z.record(z.unknown()).superRefine((patient, ctx) => {
+  Object.keys(patient)
+    .filter(key => !key.startsWith('_') && !(key in patientShape))
+    .forEach(key => {
+      const base = Object.keys(CHOICE_ELEMENTS).find(choice => key.startsWith(choice));
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: base
+          ? `${base}[x] can only be ${CHOICE_ELEMENTS[base as keyof typeof CHOICE_ELEMENTS].map(type => `${base}${type}`).join(' or ')}`
+          : `Unknown element '${key}' for Patient`,
+      });
+    });
+  Object.keys(CHOICE_ELEMENTS).forEach(base => {
+    const variants = findChoiceVariants(patient, base);
+    if (variants.length > 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [variants[1].key],
+        message: `Only one ${base}[x] may be present, found ${variants.map(variant => variant.key).join(' and ')}`,
+      });
+    }
+  });
+});
+
+// `_element` keys carry ids and extensions of primitives and are allowed alongside the known elements.
+export const patientSchema = z.object(patientShape).catchall(z.unknown()).and(patientStructureSchema);
+
+/** Renders a zod path as a FHIRPath expression, e.g. `Patient.contact[0].name.given[1]`. */
+const toExpression = (path: (string | number)[]) =>
+  path.reduce<string>((expression, part) => (typeof part === 'number' ? `${expression}[${part}]` : `${expression}.${part}`), 'Patient');
+
+const issueCode = (issue: z.ZodIssue) => {
+  if (issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined') return 'required';
+  if (issue.code === z.ZodIssueCode.custom) return issue.message.includes(':') ? 'invariant' : 'structure';
+  if (issue.code === z.ZodIssueCode.unrecognized_keys || issue.code === z.ZodIssueCode.too_small && issue.type === 'array') {
+    return 'structure';
+  }
+  return 'value';
+};
+
+const describeZodIssue = (issue: z.ZodIssue) => {
+  if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+    return `Unknown element${issue.keys.length > 1 ? 's' : ''} ${issue.keys.map(key => `'${key}'`).join(', ')}`;
+  }
+  if (issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined') return 'Required element is missing';
+  return issue.message;
+};
+
+/** Validates a Patient and returns the problems found as an OperationOutcome (no issues when valid). */
+export const validatePatientResource = (patient: unknown): OperationOutcome => {
+  const result = patientSchema.safeParse(patient);
+  const issue: OperationOutcomeIssue[] = result.success
+    ? []
+    : result.error.issues.map(zodIssue => {
+      const expression = toExpression(zodIssue.path);
+      return {
+        severity: 'error',
+        code: issueCode(zodIssue),
+        diagnostics: `${expression}: ${describeZodIssue(zodIssue)}`,
+        expression: [expression],
+      };
+    });
+  return { resourceType: 'OperationOutcome', issue };
+};
@@ -0,0 +1,29 @@
+import type { HumanName, Patient } from './types';
+
+export const formatHumanName = (name?: HumanName) => {
+  if (!name) return '';
+  if (name.text) return name.text;
+  return [...(name.prefix || []), ...(name.given || []), name.family, ...(name.suffix || [])].filter(Boolean).join(' ');
+};
+
+// Which name to show when a patient has several: the name they usually go by,
+// then their official name, then the rest. Names whose period has ended are
+// only used when nothing current is left.
+const NAME_USE_PRECEDENCE = ['usual', 'official', 'temp', 'nickname', 'anonymous', 'maiden', 'old'];
+
+const useRank = (name: HumanName) => {
+  const index = NAME_USE_PRECEDENCE.indexOf(name.use || '');
+  // Names without a use rank just after `official`.
+  return index === -1 ? 1.5 : index;
+};
+
+const hasEnded = (name: HumanName, now: string) => !!name.period?.end && name.period.end < now;
+
+export const getPreferredName = (patient: Patient) => {
+  const now = new Date().toISOString().slice(0, 10);
+  return [...(patient.name || [])]
+    .filter(name => formatHumanName(name))
+    .sort((a, b) => Number(hasEnded(a, now)) - Number(hasEnded(b, now)) || useRank(a) - useRank(b))[0];
+};
+
+export const getDisplayName = (patient: Patient) => formatHumanName(getPreferredName(patient)) || 'Unnamed patient';
@@ -0,0 +1,307 @@
+import { findIdentifierValidator } from './identifiers';
+import { validatePatientResource } from './patient-schema';
+import type { Coding, Extension, Meta, OperationOutcome, OperationOutcomeIssue, Patient } from './types';
+
+// Bundled Patient profiles, reduced to what the form and the local validator
+// need: the canonical URL written to `meta.profile`, the elements a profile
+// makes required or must-support, its extensions with their value sets, and
+// the constraints it adds on top of the base R4 definition.
+// See https://hl7.org/fhir/us/core/StructureDefinition-us-core-patient.html,
+// https://build.fhir.org/ig/hl7au/au-fhir-base/StructureDefinition-au-patient.html
+// and https://simplifier.net/hl7fhirukcorer4/ukcore-patient
+
+/**
+ * How an extension carries its coded value: as `valueCode`, `valueCoding`,
+ * `valueCodeableConcept`, or as the US Core `ombCategory` + `text` sub-extensions.
+ */
+export type ProfileExtensionValueType = 'code' | 'Coding' | 'CodeableConcept' | 'omb';
+
+export interface ProfileExtension {
+  url: string;
+  label: string;
+  valueType: ProfileExtensionValueType;
+  /** Codes other than these are an error for `required` bindings and a warning for `extensible` ones. */
+  binding: 'required' | 'extensible';
+  options: Coding[];
+}
+
+interface ProfileConstraint {
+  key: string;
+  /** OperationOutcome issue type reported when the constraint fails. */
+  code: 'required' | 'invariant' | 'value';
+  /** Expressions of the elements that break the constraint, with the problem found. */
+  check: (patient: Patient) => Array<{ expression: string; message: string }>;
+}
+
+export interface PatientProfile {
+  url: string;
+  label: string;
+  /** Top-level Patient elements with a minimum cardinality of 1. */
+  required: string[];
+  mustSupport: string[];
+  extensions: ProfileExtension[];
+  constraints: ProfileConstraint[];
+}
+
+const OMB_SYSTEM = 'urn:oid:2.16.840.1.113883.6.238';
+const NULL_FLAVOR_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-NullFlavor';
+
+/** Each item of a repeating element must have the given children. */
+const requireChildren = (element: 'identifier' | 'telecom', children: string[], profileLabel: string): ProfileConstraint => ({
+  key: `${element}-children`,
+  code: 'required',
+  check: patient => ((patient[element] || []) as Array<Record<string, unknown>>).flatMap((item, index) =>
+    children
+      .filter(child => item[child] === undefined || item[child] === '')
+      .map(child => ({
+        expression: `Patient.${element}[${index}].${child}`,
+        message: `Minimum cardinality of '${child}' is 1 in ${profileLabel}`,
+      }))),
+});
+
+/** Identifiers of the system must pass the validator registered for it. */
+const checkIdentifierSystem = (system: string): ProfileConstraint => ({
+  key: `identifier-${system}`,
+  code: 'value',
+  check: patient => (patient.identifier || []).flatMap((identifier, index) => {
+    const error = identifier.system === system && identifier.value
+      ? findIdentifierValidator(system)?.validate(identifier.value)
+      : null;
+    return error ? [{ expression: `Patient.identifier[${index}].value`, message: error }] : [];
+  }),
+});
+
+const US_CORE_PATIENT: PatientProfile = {
+  url: 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-patient',
+  label: 'US Core Patient',
+  required: ['identifier', 'name', 'gender'],
+  mustSupport: ['identifier', 'name', 'telecom', 'gender', 'birthDate', 'address', 'communication', 'extension'],
+  extensions: [
+    {
+      url: 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-race',
+      label: 'Race',
+      valueType: 'omb',
+      binding: 'required',
+      options: [
+        { system: OMB_SYSTEM, code: '1002-5', display: 'American Indian or Alaska Native' },
+        { system: OMB_SYSTEM, code: '2028-9', display: 'Asian' },
+        { system: OMB_SYSTEM, code: '2054-5', display: 'Black or African American' },
+        { system: OMB_SYSTEM, code: '2076-8', display: 'Native Hawaiian or Other Pacific Islander' },
+        { system: OMB_SYSTEM, code: '2106-3', display: 'White' },
+        { system: NULL_FLAVOR_SYSTEM, code: 'UNK', display: 'Unknown' },
+        { system: NULL_FLAVOR_SYSTEM, code: 'ASKU', display: 'Asked but no answer' },
+      ],
+    },
+    {
+      url: 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-ethnicity',
+      label: 'Ethnicity',
+      valueType: 'omb',
+      binding: 'required',
+      options: [
+        { system: OMB_SYSTEM, code: '2135-2', display: 'Hispanic or Latino' },
+        { system: OMB_SYSTEM, code: '2186-5', display: 'Not Hispanic or Latino' },
+        { system: NULL_FLAVOR_SYSTEM, code: 'UNK', display: 'Unknown' },
+        { system: NULL_FLAVOR_SYSTEM, code: 'ASKU', display: 'Asked but no answer' },
+      ],
+    },
+    {
+      url: 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-birthsex',
+      label: 'Birth Sex',
+      valueType: 'code',
+      binding: 'required',
+      options: [
+        { code: 'F', display: 'Female' },
+        { code: 'M', display: 'Male' },
+        { code: 'UNK', display: 'Unknown' },
+      ],
+    },
+  ],
+  constraints: [
+    {
+      key: 'us-core-6',
+      code: 'invariant',
+      check: patient => (patient.name || []).flatMap((name, index) =>
+        name.family || name.given?.length
+          ? []
+          : [{ expression: `Patient.name[${index}]`, message: 'us-core-6: Either Patient.name.given and/or Patient.name.family SHALL be present' }]),
+    },
+    requireChildren('identifier', ['system', 'value'], 'US Core Patient'),
+    requireChildren('telecom', ['system', 'value'], 'US Core Patient'),
+  ],
+};
+
+const INDIGENOUS_STATUS_SYSTEM = 'https://healthterminologies.gov.au/fhir/CodeSystem/australian-indigenous-status-1';
+
+const AU_BASE_PATIENT: PatientProfile = {
+  url: 'http://hl7.org.au/fhir/StructureDefinition/au-patient',
+  label: 'AU Base Patient',
+  required: [],
+  mustSupport: [],
+  extensions: [
+    {
+      url: 'http://hl7.org.au/fhir/StructureDefinition/indigenous-status',
+      label: 'Indigenous Status',
+      valueType: 'Coding',
+      binding: 'required',
+      options: [
+        { system: INDIGENOUS_STATUS_SYSTEM, code: '1', display: 'Aboriginal but not Torres Strait Islander origin' },
+        { system: INDIGENOUS_STATUS_SYSTEM, code: '2', display: 'Torres Strait Islander but not Aboriginal origin' },
+        { system: INDIGENOUS_STATUS_SYSTEM, code: '3', display: 'Both Aboriginal and Torres Strait Islander origin' },
+        { system: INDIGENOUS_STATUS_SYSTEM, code: '4', display: 'Neither Aboriginal nor Torres Strait Islander origin' },
+        { system: INDIGENOUS_STATUS_SYSTEM, code: '9', display: 'Not stated/inadequately described' },
+      ],
+    },
+  ],
+  constraints: [checkIdentifierSystem('http://ns.electronichealth.net.au/id/hi/ihi/1.0')],
+};
+
+const ETHNIC_CATEGORY_SYSTEM = 'https://fhir.hl7.org.uk/CodeSystem/UKCore-EthnicCategoryEngland';
+
+const UK_CORE_PATIENT: PatientProfile = {
+  url: 'https://fhir.hl7.org.uk/StructureDefinition/UKCore-Patient',
+  label: 'UK Core Patient',
+  required: [],
+  mustSupport: [],
+  extensions: [
+    {
+      url: 'https://fhir.hl7.org.uk/StructureDefinition/Extension-UKCore-EthnicCategory',
+      label: 'Ethnic Category',
+      valueType: 'CodeableConcept',
+      binding: 'extensible',
+      options: [
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'A', display: 'White - British' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'B', display: 'White - Irish' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'C', display: 'White - Any other White background' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'D', display: 'Mixed - White and Black Caribbean' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'E', display: 'Mixed - White and Black African' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'F', display: 'Mixed - White and Asian' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'G', display: 'Mixed - Any other mixed background' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'H', display: 'Asian or Asian British - Indian' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'J', display: 'Asian or Asian British - Pakistani' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'K', display: 'Asian or Asian British - Bangladeshi' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'L', display: 'Asian or Asian British - Any other Asian background' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'M', display: 'Black or Black British - Caribbean' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'N', display: 'Black or Black British - African' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'P', display: 'Black or Black British - Any other Black background' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'R', display: 'Other Ethnic Groups - Chinese' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'S', display: 'Other Ethnic Groups - Any other ethnic group' },
+        { system: ETHNIC_CATEGORY_SYSTEM, code: 'Z', display: 'Not stated' },
+      ],
+    },
+  ],
+  constraints: [checkIdentifierSystem('https://fhir.nhs.uk/Id/nhs-number')],
+};
+
+export const PATIENT_PROFILES: PatientProfile[] = [US_CORE_PATIENT, AU_BASE_PATIENT, UK_CORE_PATIENT];
+
+export const findPatientProfile = (url?: string) =>
+  url ? PATIENT_PROFILES.find(profile => profile.url === url.trim().split('|')[0]) : undefined;
+
+/** The first bundled profile the patient claims to conform to, if any. */
+export const detectPatientProfile = (patient: Patient) =>
+  (patient.meta?.profile || []).map(findPatientProfile).find(profile => profile !== undefined);
+
+/** Replaces any bundled profile in `meta.profile` with `url`, keeping other profiles and meta elements. */
+export const applyPatientProfile = (meta: Meta | undefined, url: string): Meta | undefined => {
+  const profile = [...(meta?.profile || []).filter(existing => !findPatientProfile(existing)), ...(url ? [url] : [])];
+  const { profile: _profile, ...rest } = meta || {};
+  const result: Meta = profile.length > 0 ? { ...rest, profile } : rest;
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/** FHIRPath for a profile extension, so issues can be told apart from other extensions. */
+export const profileExtensionExpression = (url: string) => `Patient.extension('${url}')`;
+
+/** Builds the extension carrying `code`, or null if the code is not in the extension's value set. */
+export const buildProfileExtension = (definition: ProfileExtension, code: string): Extension | null => {
+  const coding = definition.options.find(option => option.code === code);
+  if (!coding) return null;
+  switch (definition.valueType) {
+    case 'code':
+      return { url: definition.url, valueCode: coding.code };
+    case 'Coding':
+      return { url: definition.url, valueCoding: coding };
+    case 'CodeableConcept':
+      return { url: definition.url, valueCodeableConcept: { coding: [coding] } };
+    case 'omb':
+      return {
+        url: definition.url,
+        extension: [
+          { url: 'ombCategory', valueCoding: coding },
+          { url: 'text', valueString: coding.display },
+        ],
+      };
+  }
+};
+
+const readProfileCoding = (definition: ProfileExtension, extension: Extension): Coding | undefined => {
+  switch (definition.valueType) {
+    case 'code':
+      return typeof extension.valueCode === 'string' ? { code: extension.valueCode } : undefined;
+    case 'Coding':
+      return extension.valueCoding as Coding | undefined;
+    case 'CodeableConcept':
+      return (extension.valueCodeableConcept as { coding?: Coding[] } | undefined)?.coding?.[0];
+    case 'omb':
+      return extension.extension?.find(child => child.url === 'ombCategory')?.valueCoding as Coding | undefined;
+  }
+};
+
+/** The code carried by the patient's extension for `definition`, or '' when absent. */
+export const readProfileExtension = (definition: ProfileExtension, patient: Patient) => {
+  const extension = patient.extension?.find(existing => existing.url === definition.url);
+  return (extension && readProfileCoding(definition, extension)?.code) || '';
+};
+
+const checkProfileExtension = (definition: ProfileExtension, patient: Patient): OperationOutcomeIssue[] => {
+  const expression = profileExtensionExpression(definition.url);
+  const extensions = (patient.extension || []).filter(extension => extension.url === definition.url);
+  const issues: OperationOutcomeIssue[] = [];
+  if (extensions.length > 1) {
+    issues.push({
+      severity: 'error',
+      code: 'structure',
+      diagnostics: `${expression}: ${definition.label} can appear at most once, found ${extensions.length}`,
+      expression: [expression],
+    });
+  }
+  extensions.forEach(extension => {
+    const coding = readProfileCoding(definition, extension);
+    const known = definition.options.some(option => option.code === coding?.code && (!option.system || option.system === coding?.system));
+    if (!known) {
+      issues.push({
+        severity: definition.binding === 'required' ? 'error' : 'warning',
+        code: 'code-invalid',
+        diagnostics: `${expression}: ${coding?.code ? `'${coding.code}' is not` : 'No code found that is'} in the ${definition.label} value set`,
+        expression: [expression],
+      });
+    }
+  });
+  return issues;
+};
+
+/** Validates against the base R4 definition, then against `profileUrl` when it is a bundled profile. */
+export const validatePatientProfile = (patient: Patient, profileUrl?: string): OperationOutcome => {
+  const outcome = validatePatientResource(patient);
+  const profile = findPatientProfile(profileUrl);
+  if (!profile) return outcome;
+
+  const issue: OperationOutcomeIssue[] = [
+    ...profile.required
+      .filter(element => patient[element] === undefined || patient[element] === '')
+      .map(element => ({
+        severity: 'error' as const,
+        code: 'required',
+        diagnostics: `Patient.${element}: Minimum cardinality of '${element}' is 1 in ${profile.label}`,
+        expression: [`Patient.${element}`],
+      })),
+    ...profile.constraints.flatMap(constraint => constraint.check(patient).map(({ expression, message }) => ({
+      severity: 'error' as const,
+      code: constraint.code,
+      diagnostics: `${expression}: ${message}`,
+      expression: [expression],
+    }))),
+    ...profile.extensions.flatMap(definition => checkProfileExtension(definition, patient)),
+  ];
+  return { ...outcome, issue: [...outcome.issue, ...issue] };
+};
@@ -0,0 +1,123 @@
+import { getPreferredName } from './patient';
+import { pickContactPoint } from './telecom';
+import type { Bundle, Patient } from './types';
+
+// Builds Patient search queries from the search form. Date ranges map onto the
+// `ge`/`le` prefixes and identifiers onto the `system|value` token syntax.
+// See https://hl7.org/fhir/R4/search.html
+
+export interface PatientSearchCriteria {
+  name: string;
+  family: string;
+  given: string;
+  birthdateFrom: string;
+  birthdateTo: string;
+  gender: string;
+  identifierSystem: string;
+  identifierValue: string;
+  phone: string;
+  email: string;
+  postalCode: string;
+  id: string;
+  lastUpdatedFrom: string;
+  lastUpdatedTo: string;
+  count: string;
+}
+
+export const emptyPatientSearchCriteria: PatientSearchCriteria = {
+  name: '',
+  family: '',
+  given: '',
+  birthdateFrom: '',
+  birthdateTo: '',
+  gender: '',
+  identifierSystem: '',
+  identifierValue: '',
+  phone: '',
+  email: '',
+  postalCode: '',
+  id: '',
+  lastUpdatedFrom: '',
+  lastUpdatedTo: '',
+  count: '',
+};
+
+export const buildPatientSearchParams = (criteria: PatientSearchCriteria) => {
+  const params = new URLSearchParams();
+  const add = (name: string, value: string) => {
+    if (value.trim()) params.append(name, value.trim());
+  };
+
+  add('name', criteria.name);
+  add('family', criteria.family);
+  add('given', criteria.given);
+  add('birthdate', criteria.birthdateFrom && `ge${criteria.birthdateFrom}`);
+  add('birthdate', criteria.birthdateTo && `le${criteria.birthdateTo}`);
+  add('gender', criteria.gender);
+  if (criteria.identifierSystem.trim() || criteria.identifierValue.trim()) {
+    add('identifier', `${criteria.identifierSystem.trim() ? `${criteria.identifierSystem.trim()}|` : ''}${criteria.identifierValue.trim()}`);
+  }
+  add('phone', criteria.phone);
+  add('email', criteria.email);
+  add('address-postalcode', criteria.postalCode);
+  add('_id', criteria.id);
+  add('_lastUpdated', criteria.lastUpdatedFrom && `ge${criteria.lastUpdatedFrom}`);
+  add('_lastUpdated', criteria.lastUpdatedTo && `le${criteria.lastUpdatedTo}`);
+  add('_count', criteria.count);
+
+  return params;
+};
+
+export type ConditionalMatchCriterion = 'identifier' | 'family' | 'given' | 'birthdate' | 'gender' | 'phone';
+
+export const CONDITIONAL_MATCH_CRITERIA: Array<{ key: ConditionalMatchCriterion; label: string }> = [
+  { key: 'identifier', label: 'Identifier' },
+  { key: 'family', label: 'Family Name' },
+  { key: 'given', label: 'Given Name' },
+  { key: 'birthdate', label: 'Birth Date' },
+  { key: 'gender', label: 'Gender' },
+  { key: 'phone', label: 'Phone' },
+];
+
+/**
+ * Builds the `If-None-Exist` query for a conditional create from the values
+ * of the Patient about to be created. Criteria whose element is empty are
+ * left out rather than sent as an empty parameter.
+ */
+export const buildConditionalCreateQuery = (patient: Patient, criteria: ConditionalMatchCriterion[]) => {
+  const params = new URLSearchParams();
+  const name = getPreferredName(patient);
+  const values: Record<ConditionalMatchCriterion, Array<string | undefined>> = {
+    identifier: (patient.identifier || []).map(identifier =>
+      identifier.value && (identifier.system ? `${identifier.system}|${identifier.value}` : identifier.value)
+    ),
+    family: [name?.family],
+    given: [name?.given?.[0]],
+    birthdate: [patient.birthDate],
+    gender: [patient.gender],
+    phone: [pickContactPoint(patient.telecom, 'phone')?.value],
+  };
+
+  criteria.forEach(criterion => {
+    values[criterion].forEach(value => {
+      if (value?.trim()) params.append(criterion, value.trim());
+    });
+  });
+  return params.toString();
+};
+
+export const SEARCH_PREFIXES = ['eq', 'ne', 'gt', 'lt', 'ge', 'le', 'sa', 'eb', 'ap'] as const;
+
+export type SearchPrefix = (typeof SEARCH_PREFIXES)[number];
+
+/** Splits a date/number search value into its comparison prefix and value. */
+export const parseSearchPrefix = (value: string): { prefix: SearchPrefix; value: string } => {
+  const prefix = SEARCH_PREFIXES.find(p => value.startsWith(p) && /^[a-z]{2}\d/.test(value));
+  return prefix ? { prefix, value: value.slice(2) } : { prefix: 'eq', value };
+};
+
+export type PageRelation = 'first' | 'previous' | 'next' | 'last';
+
+/** Finds a paging link, accepting the `prev` spelling some servers still use. */
+export const getBundleLink = (bundle: Bundle, relation: PageRelation) =>
+  bundle.link?.find(link => link.relation === relation || (relation === 'previous' && link.relation === 'prev'))?.url;
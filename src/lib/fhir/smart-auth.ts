@@ -0,0 +1,240 @@
+// SMART App Launch (standalone) support: discovery, the authorization-code
+// flow with PKCE, and token storage/refresh per environment.
+// See https://hl7.org/fhir/smart-app-launch/app-launch.html
+
+export const SMART_SCOPE_OPTIONS = [
+  { scope: 'patient/Patient.rs', label: 'Read/search the in-context patient' },
+  { scope: 'user/Patient.cruds', label: 'Full Patient access as the user' },
+  { scope: 'launch/patient', label: 'Ask for a patient context' },
+  { scope: 'openid fhirUser', label: 'Identify the signed-in user' },
+  { scope: 'offline_access', label: 'Request a refresh token' },
+];
+
+export interface SmartSettings {
+  enabled: boolean;
+  clientId: string;
+  scopes: string[];
+}
+
+export interface SmartConfiguration {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  capabilities?: string[];
+  code_challenge_methods_supported?: string[];
+  scopes_supported?: string[];
+}
+
+export interface SmartSession {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  scope: string;
+  patient?: string;
+  tokenEndpoint: string;
+  clientId: string;
+}
+
+interface PendingAuthorization {
+  state: string;
+  codeVerifier: string;
+  environmentId: string;
+  tokenEndpoint: string;
+  clientId: string;
+  redirectUri: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+  patient?: string;
+}
+
+const PENDING_STORAGE_KEY = 'fhir-testing.smart-pending';
+const SESSION_STORAGE_PREFIX = 'fhir-testing.smart-session.';
+const EXPIRY_MARGIN_MS = 30000;
+
+export const getRedirectUri = () => `${window.location.origin}/`;
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const randomString = (byteLength = 32) => {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+};
+
+export const createCodeChallenge = async (codeVerifier: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+export const discoverSmartConfiguration = async (baseUrl: string): Promise<SmartConfiguration> => {
+  const url = `${baseUrl.replace(/\/+$/, '')}/.well-known/smart-configuration`;
+  const res = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!res.ok) {
+    throw new Error(`SMART discovery failed: ${url} returned ${res.status} ${res.statusText}`.trim());
+  }
+  const configuration: SmartConfiguration = await res.json();
+  if (!configuration.authorization_endpoint || !configuration.token_endpoint) {
+    throw new Error('SMART configuration is missing authorization_endpoint or token_endpoint.');
+  }
+  return configuration;
+};
+
+export const loadSmartSession = (environmentId: string): SmartSession | null => {
+  try {
+    const stored = localStorage.getItem(`${SESSION_STORAGE_PREFIX}${environmentId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+type SmartSessionListener = (environmentId: string, session: SmartSession | null) => void;
+
+const sessionListeners = new Set<SmartSessionListener>();
+
+/** Calls `listener` whenever a stored session changes, e.g. after a token refresh. Returns the unsubscribe function. */
+export const subscribeToSmartSessions = (listener: SmartSessionListener) => {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+};
+
+const saveSmartSession = (environmentId: string, session: SmartSession) => {
+  localStorage.setItem(`${SESSION_STORAGE_PREFIX}${environmentId}`, JSON.stringify(session));
+  sessionListeners.forEach(listener => listener(environmentId, session));
+};
+
+export const clearSmartSession = (environmentId: string) => {
+  localStorage.removeItem(`${SESSION_STORAGE_PREFIX}${environmentId}`);
+  sessionListeners.forEach(listener => listener(environmentId, null));
+};
+
+export const isSessionExpired = (session: SmartSession) =>
+  !!session.expiresAt && session.expiresAt - EXPIRY_MARGIN_MS < Date.now();
+
+const toSession = (token: TokenResponse, previous: Pick<SmartSession, 'tokenEndpoint' | 'clientId'> & Partial<SmartSession>): SmartSession => ({
+  accessToken: token.access_token,
+  refreshToken: token.refresh_token || previous.refreshToken,
+  expiresAt: token.expires_in ? Date.now() + token.expires_in * 1000 : undefined,
+  scope: token.scope || previous.scope || '',
+  patient: token.patient || previous.patient,
+  tokenEndpoint: previous.tokenEndpoint,
+  clientId: previous.clientId,
+});
+
+const requestToken = async (tokenEndpoint: string, params: Record<string, string>): Promise<TokenResponse> => {
+  const res = await fetch(tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams(params).toString(),
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok || !body?.access_token) {
+    throw new Error(body?.error_description || body?.error || `Token request failed with ${res.status}`);
+  }
+  return body;
+};
+
+/**
+ * Starts the standalone launch: discovers the endpoints, remembers the PKCE
+ * verifier for the callback and navigates to the authorization endpoint.
+ */
+export const beginSmartAuthorization = async (environmentId: string, baseUrl: string, settings: SmartSettings) => {
+  const configuration = await discoverSmartConfiguration(baseUrl);
+  const codeVerifier = randomString(48);
+  const pending: PendingAuthorization = {
+    state: randomString(16),
+    codeVerifier,
+    environmentId,
+    tokenEndpoint: configuration.token_endpoint,
+    clientId: settings.clientId,
+    redirectUri: getRedirectUri(),
+  };
+  sessionStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+
+  const authorizeUrl = new URL(configuration.authorization_endpoint);
+  authorizeUrl.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: settings.clientId,
+    redirect_uri: pending.redirectUri,
+    scope: settings.scopes.join(' '),
+    state: pending.state,
+    aud: baseUrl,
+    code_challenge: await createCodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+  window.location.assign(authorizeUrl.toString());
+};
+
+/**
+ * Completes a launch if `url` is an authorization callback. Returns the
+ * environment id that was authorized, or null when there was nothing to do.
+ */
+export const completeSmartAuthorization = async (url: URL): Promise<string | null> => {
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  const error = url.searchParams.get('error');
+  const stored = sessionStorage.getItem(PENDING_STORAGE_KEY);
+  if ((!code && !error) || !state || !stored) return null;
+
+  const pending: PendingAuthorization = JSON.parse(stored);
+  if (pending.state !== state) return null;
+  sessionStorage.removeItem(PENDING_STORAGE_KEY);
+
+  if (error) {
+    throw new Error(url.searchParams.get('error_description') || `Authorization failed: ${error}`);
+  }
+
+  const token = await requestToken(pending.tokenEndpoint, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: pending.redirectUri,
+    client_id: pending.clientId,
+    code_verifier: pending.codeVerifier,
+  });
+  saveSmartSession(pending.environmentId, toSession(token, pending));
+  return pending.environmentId;
+};
+
+// In-flight refreshes by environment. Servers that rotate refresh tokens reject
+// a second use of the old one, so concurrent requests share a single refresh.
+const pendingRefreshes = new Map<string, Promise<SmartSession>>();
+
+export const refreshSmartSession = (environmentId: string, session: SmartSession) => {
+  const pending = pendingRefreshes.get(environmentId);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    if (!session.refreshToken) {
+      throw new Error('The access token has expired and no refresh token is available. Please sign in again.');
+    }
+    const token = await requestToken(session.tokenEndpoint, {
+      grant_type: 'refresh_token',
+      refresh_token: session.refreshToken,
+      client_id: session.clientId,
+    });
+    const refreshed = toSession(token, session);
+    saveSmartSession(environmentId, refreshed);
+    return refreshed;
+  })().finally(() => pendingRefreshes.delete(environmentId));
+  pendingRefreshes.set(environmentId, refresh);
+  return refresh;
+};
+
+/** Returns a usable access token for the environment, refreshing it if needed. */
+export const getSmartAccessToken = async (environmentId: string) => {
+  const session = loadSmartSession(environmentId);
+  if (!session) return null;
+  if (!isSessionExpired(session)) return session.accessToken;
+  return (await refreshSmartSession(environmentId, session)).accessToken;
+};
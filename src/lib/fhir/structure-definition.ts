@@ -0,0 +1,213 @@
+import { DATATYPE_ELEMENTS, REQUIRED_BINDING_CODES } from './base-definitions';
+import { choiceKey, findChoiceVariants } from './choice-types';
+import type { Coding, ElementDefinition, OperationOutcomeIssue, StructureDefinition } from './types';
+
+// Turns a StructureDefinition snapshot into the element tree the dynamic
+// patient form is rendered from. Slices are ignored, and complex datatypes
+// the snapshot does not expand get their children from the bundled base
+// definitions, so a profile only has to list what it constrains.
+// See https://hl7.org/fhir/R4/elementdefinition.html
+
+export interface ElementNode {
+  path: string;
+  /** Last path segment, e.g. `given` or `deceased[x]`. */
+  name: string;
+  min: number;
+  /** A number or `*`; `0` means the profile prohibits the element. */
+  max: string;
+  types: string[];
+  mustSupport: boolean;
+  short?: string;
+  /** Codes to pick from when the element is bound `required` to a bundled value set. */
+  codes?: Coding[];
+  children: ElementNode[];
+}
+
+// Elements the form leaves alone: ids, extensions (they have their own editor)
+// and resource-level metadata and narrative.
+const HIDDEN_ELEMENTS = ['id', 'extension', 'modifierExtension'];
+const HIDDEN_RESOURCE_ELEMENTS = ['meta', 'implicitRules', 'language', 'text', 'contained'];
+
+const isHidden = (path: string) => {
+  const segments = path.split('.');
+  const name = segments[segments.length - 1];
+  return HIDDEN_ELEMENTS.includes(name) || (segments.length === 2 && HIDDEN_RESOURCE_ELEMENTS.includes(name));
+};
+
+const isDirectChild = (parentPath: string, path: string) =>
+  path.startsWith(`${parentPath}.`) && !path.slice(parentPath.length + 1).includes('.');
+
+const childNodes = (parentPath: string, types: string[], snapshot: ElementDefinition[]): ElementNode[] => {
+  const fromSnapshot = snapshot.filter(definition => isDirectChild(parentPath, definition.path));
+  const datatype = types.length === 1 ? types[0] : undefined;
+  const definitions = fromSnapshot.length > 0 || !datatype || !DATATYPE_ELEMENTS[datatype]
+    ? fromSnapshot
+    : DATATYPE_ELEMENTS[datatype].map(definition => ({ ...definition, path: `${parentPath}${definition.path.slice(datatype.length)}` }));
+
+  return definitions
+    .filter(definition => !isHidden(definition.path))
+    .map(definition => {
+      const elementTypes = (definition.type || []).map(type => type.code);
+      const valueSet = definition.binding?.strength === 'required' ? definition.binding.valueSet?.split('|')[0] : undefined;
+      return {
+        path: definition.path,
+        name: definition.path.slice(definition.path.lastIndexOf('.') + 1),
+        min: definition.min ?? 0,
+        max: definition.max ?? '*',
+        types: elementTypes,
+        mustSupport: !!definition.mustSupport,
+        short: definition.short,
+        codes: valueSet ? REQUIRED_BINDING_CODES[valueSet] : undefined,
+        children: childNodes(definition.path, elementTypes, snapshot),
+      };
+    });
+};
+
+/** The elements of the resource, in snapshot order, as a tree. */
+export const buildElementTree = (definition: StructureDefinition): ElementNode[] =>
+  childNodes(
+    definition.type,
+    [],
+    // Slices (`Patient.identifier:NHS`) and their children share the sliced element's path; only the id tells them apart.
+    (definition.snapshot?.element || []).filter(element => !element.sliceName && !(element.id || '').includes(':'))
+  );
+
+/** Every node of the tree, depth first. */
+export const flattenElementTree = (nodes: ElementNode[]): ElementNode[] =>
+  nodes.flatMap(node => [node, ...flattenElementTree(node.children)]);
+
+/** Returns why `value` cannot drive the patient form, or null when it can. */
+export const getStructureDefinitionError = (value: unknown) => {
+  const definition = value as Partial<StructureDefinition> | null;
+  if (!definition || typeof definition !== 'object' || definition.resourceType !== 'StructureDefinition') {
+    return 'Not a StructureDefinition resource';
+  }
+  if (definition.type !== 'Patient') return `The StructureDefinition constrains ${definition.type || 'an unknown type'}, not Patient`;
+  if (!definition.url) return 'The StructureDefinition has no canonical url';
+  if (!definition.snapshot?.element?.length) return 'The StructureDefinition has no snapshot; generate one before uploading';
+  return null;
+};
+
+const hasMustSupport = (node: ElementNode): boolean => node.mustSupport || node.children.some(hasMustSupport);
+
+/**
+ * The nodes to show when only must-support elements are wanted: flagged or
+ * required ones and those with flagged descendants. Siblings of which none is
+ * flagged are all kept, since the profile says nothing about them.
+ */
+export const mustSupportElements = (nodes: ElementNode[]) =>
+  nodes.some(hasMustSupport) ? nodes.filter(node => node.min > 0 || hasMustSupport(node)) : nodes;
+
+export const isRepeating = (node: ElementNode) => node.max !== '0' && node.max !== '1';
+
+export const isProhibited = (node: ElementNode) => node.max === '0';
+
+export const maxOccurrences = (node: ElementNode) => (node.max === '*' ? Infinity : Number(node.max));
+
+export const isChoiceElement = (node: ElementNode) => node.name.endsWith('[x]');
+
+export const choiceBase = (node: ElementNode) => node.name.replace(/\[x\]$/, '');
+
+/** `birthDate` → `Birth Date`, `deceased[x]` → `Deceased`. */
+export const elementLabel = (node: ElementNode) => {
+  const words = choiceBase(node).replace(/([A-Z])/g, ' $1');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/** A blank value for a new occurrence of the element. */
+export const newElementValue = (node: ElementNode): unknown => (node.children.length > 0 ? {} : '');
+
+/** Drops empty strings, objects and arrays left behind by blank form inputs. */
+export const pruneEmpty = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(pruneEmpty).filter(item => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .map(([key, child]) => [key, pruneEmpty(child)] as const)
+      .filter(([, child]) => child !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+  return value === '' || value === null ? undefined : value;
+};
+
+/**
+ * Fits form values entered against one tree to another, e.g. after switching
+ * profiles: elements the tree lacks or prohibits and choice variants of types
+ * it does not allow are dropped, since the form would no longer show them.
+ * Repeating elements hold arrays and single ones the first item.
+ */
+export const pruneToElementTree = (nodes: ElementNode[], element: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(element).flatMap(([key, value]) => {
+      const node = nodes.find(candidate =>
+        isChoiceElement(candidate)
+          ? candidate.types.some(type => choiceKey(choiceBase(candidate), type) === key)
+          : candidate.name === key
+      );
+      if (!node || isProhibited(node)) return [];
+      const fit = (item: unknown) =>
+        node.children.length > 0 && item && typeof item === 'object' && !Array.isArray(item)
+          ? pruneToElementTree(node.children, item as Record<string, unknown>)
+          : item;
+      const items = (Array.isArray(value) ? value : [value]).map(fit);
+      if (isChoiceElement(node) || !isRepeating(node)) return items.length > 0 ? [[key, items[0]]] : [];
+      return [[key, items]];
+    })
+  );
+
+const issue = (code: string, expression: string, message: string): OperationOutcomeIssue => ({
+  severity: 'error',
+  code,
+  diagnostics: `${expression}: ${message}`,
+  expression: [expression],
+});
+
+/**
+ * Checks an element's children against the tree: minimum and maximum
+ * cardinality, prohibited elements and the types allowed for choice elements.
+ */
+export const checkElementCardinality = (
+  nodes: ElementNode[],
+  element: Record<string, unknown>,
+  parentPath = 'Patient'
+): OperationOutcomeIssue[] =>
+  nodes.flatMap(node => {
+    if (isChoiceElement(node)) {
+      const base = choiceBase(node);
+      const variants = findChoiceVariants(element, base);
+      const wrongTypes = variants
+        .filter(variant => !node.types.some(type => choiceKey(base, type) === variant.key))
+        .map(variant => issue('structure', `${parentPath}.${variant.key}`, `${base}[x] can only be ${node.types.join(' or ')} here`));
+      if (variants.length < node.min) {
+        return [...wrongTypes, issue('required', `${parentPath}.${node.name}`, `Minimum cardinality of '${node.name}' is ${node.min}`)];
+      }
+      if (isProhibited(node) && variants.length > 0) {
+        return [...wrongTypes, issue('structure', `${parentPath}.${variants[0].key}`, `'${node.name}' is not allowed by this profile`)];
+      }
+      return wrongTypes;
+    }
+
+    const value = element[node.name];
+    const items = value === undefined ? [] : Array.isArray(value) ? value : [value];
+    const expression = `${parentPath}.${node.name}`;
+    const issues: OperationOutcomeIssue[] = [];
+    if (items.length < node.min) {
+      issues.push(issue('required', expression, `Minimum cardinality of '${node.name}' is ${node.min}`));
+    }
+    if (isProhibited(node) && items.length > 0) {
+      issues.push(issue('structure', expression, `'${node.name}' is not allowed by this profile`));
+    } else if (items.length > maxOccurrences(node)) {
+      issues.push(issue('structure', expression, `Maximum cardinality of '${node.name}' is ${node.max}, found ${items.length}`));
+    }
+    if (node.children.length > 0) {
+      items.forEach((item, index) => {
+        if (item && typeof item === 'object') {
+          const itemPath = Array.isArray(value) ? `${expression}[${index}]` : expression;
+          issues.push(...checkElementCardinality(node.children, item as Record<string, unknown>, itemPath));
+        }
+      });
+    }
+    return issues;
+  });
@@ -0,0 +1,149 @@
+import type { ContactPoint } from './types';
+
+// ContactPoint editing and selection: E.164 phone normalisation, email/URL
+// checks and picking the contact point to show by rank and use.
+
+export const CONTACT_POINT_SYSTEMS = ['phone', 'email', 'fax', 'sms', 'pager', 'url', 'other'];
+
+export const CONTACT_POINT_USES = ['home', 'work', 'mobile', 'temp', 'old'];
+
+/** Systems whose value is a telephone number. */
+const PHONE_SYSTEMS = new Set(['phone', 'fax', 'sms', 'pager']);
+
+export const COUNTRY_CALLING_CODES = [
+  { code: '1', label: 'US / Canada (+1)' },
+  { code: '44', label: 'United Kingdom (+44)' },
+  { code: '353', label: 'Ireland (+353)' },
+  { code: '61', label: 'Australia (+61)' },
+  { code: '49', label: 'Germany (+49)' },
+  { code: '33', label: 'France (+33)' },
+  { code: '31', label: 'Netherlands (+31)' },
+  { code: '91', label: 'India (+91)' },
+  { code: '81', label: 'Japan (+81)' },
+];
+
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+/**
+ * Normalises a phone number to E.164 (`+` country code and subscriber number,
+ * at most 15 digits). National numbers are prefixed with `countryCode` after
+ * dropping the trunk prefix `0`; `00` is read as the international prefix.
+ */
+export const normalizeE164 = (value: string, countryCode?: string): { value: string; error: string | null } => {
+  const trimmed = value.trim();
+  if (/[a-z]/i.test(trimmed.replace(/\s*(?:ext\.?|x)\s*\d+$/i, ''))) {
+    return { value: trimmed, error: 'Phone numbers may only contain digits, spaces, dashes and parentheses' };
+  }
+  const hasPlus = trimmed.startsWith('+');
+  let digits = trimmed.replace(/\s*(?:ext\.?|x)\s*\d+$/i, '').replace(/\D/g, '');
+
+  if (!hasPlus && digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (!hasPlus) {
+    if (!countryCode) return { value: trimmed, error: 'Add the country code (e.g. +1) or pick a default country' };
+    // NANP numbers are often written with their country code but no plus.
+    if (!(countryCode === '1' && digits.length === 11 && digits.startsWith('1'))) {
+      digits = `${countryCode}${digits.replace(/^0/, '')}`;
+    }
+  }
+
+  const normalized = `+${digits}`;
+  return E164_PATTERN.test(normalized)
+    ? { value: normalized, error: null }
+    : { value: trimmed, error: 'Not a valid E.164 number (+ and up to 15 digits)' };
+};
+
+export const validateEmail = (value: string) =>
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim()) ? null : 'Not a valid email address';
+
+export const validateContactPoint = (contactPoint: ContactPoint) => {
+  const value = contactPoint.value?.trim();
+  if (!value) return 'A value is required';
+  if (contactPoint.rank !== undefined && !(Number.isInteger(contactPoint.rank) && contactPoint.rank > 0)) {
+    return 'Rank must be a positive whole number';
+  }
+  if (PHONE_SYSTEMS.has(contactPoint.system || '')) {
+    return E164_PATTERN.test(value) ? null : 'Phone numbers are stored in E.164 format, e.g. +14155550100';
+  }
+  if (contactPoint.system === 'email') return validateEmail(value);
+  if (contactPoint.system === 'url') {
+    try {
+      new URL(value);
+      return null;
+    } catch {
+      return 'Not a valid URL';
+    }
+  }
+  return null;
+};
+
+export const isPhoneSystem = (system: string) => PHONE_SYSTEMS.has(system);
+
+// Unranked contact points come after ranked ones; among equals the use decides.
+const USE_PRECEDENCE = ['mobile', 'home', 'work', 'temp', 'old'];
+
+const isCurrent = (contactPoint: ContactPoint, now: string) =>
+  contactPoint.use !== 'old' && !(contactPoint.period?.end && contactPoint.period.end < now);
+
+const useRank = (contactPoint: ContactPoint) => {
+  const index = USE_PRECEDENCE.indexOf(contactPoint.use || '');
+  return index === -1 ? USE_PRECEDENCE.length - 1.5 : index;
+};
+
+/**
+ * Picks the contact point to show for a system: current ones before old or
+ * expired ones, then by `rank` (1 = most preferred), then by use.
+ */
+export const pickContactPoint = (telecom: ContactPoint[] | undefined, system: string) => {
+  const now = new Date().toISOString().slice(0, 10);
+  return (telecom || [])
+    .filter(contactPoint => contactPoint.system === system && contactPoint.value)
+    .sort((a, b) =>
+      Number(isCurrent(b, now)) - Number(isCurrent(a, now)) ||
+      (a.rank ?? Infinity) - (b.rank ?? Infinity) ||
+      useRank(a) - useRank(b)
+    )[0];
+};
+
+/** String-only shape of a ContactPoint as edited in the patient form. */
+export interface ContactPointFormValue {
+  system: string;
+  value: string;
+  use: string;
+  rank: string;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export const emptyContactPointFormValue: ContactPointFormValue = {
+  system: 'phone',
+  value: '',
+  use: 'home',
+  rank: '',
+  periodStart: '',
+  periodEnd: '',
+};
+
+export const contactPointToFormValue = (contactPoint: ContactPoint): ContactPointFormValue => ({
+  system: contactPoint.system || '',
+  value: contactPoint.value || '',
+  use: contactPoint.use || '',
+  rank: contactPoint.rank !== undefined ? String(contactPoint.rank) : '',
+  periodStart: contactPoint.period?.start || '',
+  periodEnd: contactPoint.period?.end || '',
+});
+
+export const formValueToContactPoint = (form: ContactPointFormValue): ContactPoint => {
+  const contactPoint: ContactPoint = {};
+  if (form.system) contactPoint.system = form.system;
+  contactPoint.value = form.value.trim();
+  if (form.use) contactPoint.use = form.use;
+  if (form.rank.trim()) contactPoint.rank = Number(form.rank);
+  if (form.periodStart || form.periodEnd) {
+    contactPoint.period = {
+      ...(form.periodStart ? { start: form.periodStart } : {}),
+      ...(form.periodEnd ? { end: form.periodEnd } : {}),
+    };
+  }
+  return contactPoint;
+};
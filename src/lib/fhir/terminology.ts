@@ -0,0 +1,271 @@
+import type { FHIRClient } from './client';
+import type { CodeableConcept, Coding, Parameters, ParametersParameter, ValueSetExpansionContains } from './types';
+
+// Bundled copies of the value sets the patient form codes against, so coded
+// fields get a proper system, code and display without a terminology server.
+// The same questions can be put to a server with ValueSet/$expand and
+// CodeSystem/$lookup when one is available.
+// See https://hl7.org/fhir/R4/terminology-service.html
+
+/** A Coding with every part present, as listed in a bundled value set. */
+export interface ValueSetConcept {
+  system: string;
+  code: string;
+  display: string;
+}
+
+export interface LocalValueSet {
+  url: string;
+  title: string;
+  /** The code system most concepts come from, used for codes not in `concepts`. */
+  system: string;
+  concepts: ValueSetConcept[];
+}
+
+const V3_MARITAL_STATUS = 'http://terminology.hl7.org/CodeSystem/v3-MaritalStatus';
+const V3_NULL_FLAVOR = 'http://terminology.hl7.org/CodeSystem/v3-NullFlavor';
+
+export const MARITAL_STATUS_VALUE_SET: LocalValueSet = {
+  url: 'http://hl7.org/fhir/ValueSet/marital-status',
+  title: 'Marital Status Codes',
+  system: V3_MARITAL_STATUS,
+  concepts: [
+    { system: V3_MARITAL_STATUS, code: 'A', display: 'Annulled' },
+    { system: V3_MARITAL_STATUS, code: 'D', display: 'Divorced' },
+    { system: V3_MARITAL_STATUS, code: 'I', display: 'Interlocutory' },
+    { system: V3_MARITAL_STATUS, code: 'L', display: 'Legally Separated' },
+    { system: V3_MARITAL_STATUS, code: 'M', display: 'Married' },
+    { system: V3_MARITAL_STATUS, code: 'P', display: 'Polygamous' },
+    { system: V3_MARITAL_STATUS, code: 'S', display: 'Never Married' },
+    { system: V3_MARITAL_STATUS, code: 'T', display: 'Domestic partner' },
+    { system: V3_MARITAL_STATUS, code: 'U', display: 'unmarried' },
+    { system: V3_MARITAL_STATUS, code: 'W', display: 'Widowed' },
+    { system: V3_NULL_FLAVOR, code: 'UNK', display: 'unknown' },
+  ],
+};
+
+const BCP_47 = 'urn:ietf:bcp:47';
+
+const languages: Array<[string, string]> = [
+  ['ar', 'Arabic'],
+  ['bn', 'Bengali'],
+  ['cs', 'Czech'],
+  ['da', 'Danish'],
+  ['de', 'German'],
+  ['de-AT', 'German (Austria)'],
+  ['de-CH', 'German (Switzerland)'],
+  ['de-DE', 'German (Germany)'],
+  ['el', 'Greek'],
+  ['en', 'English'],
+  ['en-AU', 'English (Australia)'],
+  ['en-CA', 'English (Canada)'],
+  ['en-GB', 'English (Great Britain)'],
+  ['en-IN', 'English (India)'],
+  ['en-NZ', 'English (New Zeland)'],
+  ['en-SG', 'English (Singapore)'],
+  ['en-US', 'English (United States)'],
+  ['es', 'Spanish'],
+  ['es-AR', 'Spanish (Argentina)'],
+  ['es-ES', 'Spanish (Spain)'],
+  ['es-UY', 'Spanish (Uruguay)'],
+  ['fi', 'Finnish'],
+  ['fr', 'French'],
+  ['fr-BE', 'French (Belgium)'],
+  ['fr-CH', 'French (Switzerland)'],
+  ['fr-FR', 'French (France)'],
+  ['fy', 'Frysian'],
+  ['fy-NL', 'Frysian (Netherlands)'],
+  ['hi', 'Hindi'],
+  ['hr', 'Croatian'],
+  ['it', 'Italian'],
+  ['it-CH', 'Italian (Switzerland)'],
+  ['it-IT', 'Italian (Italy)'],
+  ['ja', 'Japanese'],
+  ['ko', 'Korean'],
+  ['nl', 'Dutch'],
+  ['nl-BE', 'Dutch (Belgium)'],
+  ['nl-NL', 'Dutch (Netherlands)'],
+  ['no', 'Norwegian'],
+  ['no-NO', 'Norwegian (Norway)'],
+  ['pa', 'Punjabi'],
+  ['pl', 'Polish'],
+  ['pt', 'Portuguese'],
+  ['pt-BR', 'Portuguese (Brazil)'],
+  ['ru', 'Russian'],
+  ['ru-RU', 'Russian (Russia)'],
+  ['sr', 'Serbian'],
+  ['sr-RS', 'Serbian (Serbia)'],
+  ['sv', 'Swedish'],
+  ['sv-SE', 'Swedish (Sweden)'],
+  ['te', 'Telegu'],
+  ['zh', 'Chinese'],
+  ['zh-CN', 'Chinese (China)'],
+  ['zh-HK', 'Chinese (Hong Kong)'],
+  ['zh-SG', 'Chinese (Singapore)'],
+  ['zh-TW', 'Chinese (Taiwan)'],
+];
+
+/** The "common languages" value set; any BCP-47 tag is allowed, these are the suggestions. */
+export const LANGUAGES_VALUE_SET: LocalValueSet = {
+  url: 'http://hl7.org/fhir/ValueSet/languages',
+  title: 'Common Languages',
+  system: BCP_47,
+  concepts: languages.map(([code, display]) => ({ system: BCP_47, code, display })),
+};
+
+const ADMINISTRATIVE_GENDER = 'http://hl7.org/fhir/administrative-gender';
+
+export const ADMINISTRATIVE_GENDER_VALUE_SET: LocalValueSet = {
+  url: 'http://hl7.org/fhir/ValueSet/administrative-gender',
+  title: 'AdministrativeGender',
+  system: ADMINISTRATIVE_GENDER,
+  concepts: [
+    { system: ADMINISTRATIVE_GENDER, code: 'male', display: 'Male' },
+    { system: ADMINISTRATIVE_GENDER, code: 'female', display: 'Female' },
+    { system: ADMINISTRATIVE_GENDER, code: 'other', display: 'Other' },
+    { system: ADMINISTRATIVE_GENDER, code: 'unknown', display: 'Unknown' },
+  ],
+};
+
+const V2_0131 = 'http://terminology.hl7.org/CodeSystem/v2-0131';
+
+export const CONTACT_ROLE_VALUE_SET: LocalValueSet = {
+  url: 'http://terminology.hl7.org/ValueSet/v2-0131',
+  title: 'v2 Contact Role',
+  system: V2_0131,
+  concepts: [
+    { system: V2_0131, code: 'C', display: 'Emergency Contact' },
+    { system: V2_0131, code: 'N', display: 'Next-of-Kin' },
+    { system: V2_0131, code: 'CP', display: 'Contact person' },
+    { system: V2_0131, code: 'EP', display: 'Emergency contact person' },
+    { system: V2_0131, code: 'BP', display: 'Billing contact person' },
+    { system: V2_0131, code: 'PR', display: 'Person preparing referral' },
+    { system: V2_0131, code: 'E', display: 'Employer' },
+    { system: V2_0131, code: 'I', display: 'Insurance Company' },
+    { system: V2_0131, code: 'F', display: 'Federal Agency' },
+    { system: V2_0131, code: 'S', display: 'State Agency' },
+    { system: V2_0131, code: 'O', display: 'Other' },
+    { system: V2_0131, code: 'U', display: 'Unknown' },
+  ],
+};
+
+export const LOCAL_VALUE_SETS = [MARITAL_STATUS_VALUE_SET, LANGUAGES_VALUE_SET, ADMINISTRATIVE_GENDER_VALUE_SET, CONTACT_ROLE_VALUE_SET];
+
+/** Finds a bundled value set by canonical URL, ignoring any `|version`. */
+export const findLocalValueSet = (url: string) => LOCAL_VALUE_SETS.find(valueSet => valueSet.url === url.split('|')[0]);
+
+/** Concepts whose code or display contains `filter`, case-insensitively; codes that start with it come first. */
+export const expandLocalValueSet = (url: string, filter = '') => {
+  const concepts = findLocalValueSet(url)?.concepts || [];
+  const term = filter.trim().toLowerCase();
+  if (!term) return concepts;
+  const matches = concepts.filter(concept =>
+    concept.code.toLowerCase().includes(term) || concept.display.toLowerCase().includes(term));
+  return [
+    ...matches.filter(concept => concept.code.toLowerCase().startsWith(term)),
+    ...matches.filter(concept => !concept.code.toLowerCase().startsWith(term)),
+  ];
+};
+
+/** A concept from any bundled value set. */
+export const lookupLocalCode = (system: string | undefined, code: string | undefined) =>
+  LOCAL_VALUE_SETS.flatMap(valueSet => valueSet.concepts).find(concept => concept.system === system && concept.code === code);
+
+/**
+ * The Coding to write for a code of the value set: the bundled concept when
+ * there is one, otherwise the code with its own system (or the value set's main
+ * system) and display. The code is never used as its own display.
+ */
+export const codingFromValueSet = (valueSet: LocalValueSet, { system, code, display }: Coding): Coding => {
+  const concept = valueSet.concepts.find(candidate => candidate.code === code && (!system || candidate.system === system));
+  if (concept) return concept;
+  return { system: system || valueSet.system, code, ...(display ? { display } : {}) };
+};
+
+export const toCodeableConcept = (coding: Coding): CodeableConcept => ({ coding: [coding] });
+
+/** Language-region tags as in BCP-47, e.g. `en`, `pt-BR`, `zh-Hant-TW`. */
+export const validateLanguageTag = (code: string) =>
+  /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(code.trim()) ? null : 'Not a valid BCP-47 language tag (e.g. en, en-US)';
+
+/** Flattens a (possibly nested) expansion to selectable codings. */
+export const flattenExpansion = (contains: ValueSetExpansionContains[] = []): Coding[] =>
+  contains.flatMap(entry => [
+    ...(entry.code && !entry.abstract ? [{ system: entry.system, code: entry.code, display: entry.display }] : []),
+    ...flattenExpansion(entry.contains),
+  ]);
+
+/** Runs ValueSet/$expand on the server and returns the selectable codings. */
+export const expandValueSet = async (client: FHIRClient, url: string, filter = '', count = 50) => {
+  const response = await client.expand({ url, filter: filter.trim() || undefined, count });
+  return flattenExpansion(response.body?.expansion?.contains);
+};
+
+const parameterValue = (parameter: ParametersParameter) => {
+  const key = Object.keys(parameter).find(candidate => candidate.startsWith('value'));
+  return key ? parameter[key as `value${string}`] : undefined;
+};
+
+/** Reads the named output parameter of an operation, e.g. `display` from $lookup. */
+export const getParameterValue = (parameters: Parameters | null | undefined, name: string) => {
+  const parameter = parameters?.parameter?.find(candidate => candidate.name === name);
+  return parameter ? parameterValue(parameter) : undefined;
+};
+
+const formatParameterValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'object') return String(value);
+  const coding = value as Coding;
+  if (coding.code) return [coding.system && `${coding.system}|`, coding.code, coding.display && ` ${coding.display}`].filter(Boolean).join('');
+  return JSON.stringify(value);
+};
+
+/** Operation output as name/value rows; multi-part parameters such as `property` become one row each. */
+export const parameterRows = (parameters: Parameters | null | undefined): Array<{ name: string; value: string }> =>
+  (parameters?.parameter || []).map(parameter => ({
+    name: parameter.name,
+    value: parameter.part
+      ? parameter.part.map(part => `${part.name}: ${formatParameterValue(parameterValue(part))}`).join(', ')
+      : formatParameterValue(parameterValue(parameter)),
+  }));
+
+/** Runs CodeSystem/$lookup and returns the concept with the server's display. */
+export const lookupCode = async (client: FHIRClient, system: string, code: string): Promise<Coding> => {
+  const response = await client.lookup({ system, code });
+  const display = getParameterValue(response.body, 'display');
+  return { system, code, ...(typeof display === 'string' ? { display } : {}) };
+};
+
+export interface CodeValidation {
+  result: boolean;
+  message?: string;
+  display?: string;
+}
+
+/** Reads the output of ValueSet/$validate-code; `result` is false for codes the server does not accept. */
+export const readCodeValidation = (parameters: Parameters | null): CodeValidation => {
+  const message = getParameterValue(parameters, 'message');
+  const display = getParameterValue(parameters, 'display');
+  return {
+    result: getParameterValue(parameters, 'result') === true,
+    ...(typeof message === 'string' && { message }),
+    ...(typeof display === 'string' && { display }),
+  };
+};
+
+/** Coded elements of the patient form a code from the terminology explorer can be inserted into. */
+export type CodedPatientField = 'gender' | 'maritalStatus' | 'language' | 'contactRelationship' | 'extension';
+
+export const CODED_PATIENT_FIELDS: Array<{ field: CodedPatientField; label: string; element: string; valueSet?: LocalValueSet }> = [
+  { field: 'gender', label: 'Gender', element: 'Patient.gender', valueSet: ADMINISTRATIVE_GENDER_VALUE_SET },
+  { field: 'maritalStatus', label: 'Marital Status', element: 'Patient.maritalStatus', valueSet: MARITAL_STATUS_VALUE_SET },
+  { field: 'language', label: 'Language', element: 'Patient.communication.language', valueSet: LANGUAGES_VALUE_SET },
+  { field: 'contactRelationship', label: 'Contact Relationship', element: 'Patient.contact.relationship', valueSet: CONTACT_ROLE_VALUE_SET },
+  { field: 'extension', label: 'New Coding Extension', element: 'Patient.extension.valueCoding' },
+];
+
+/** A code picked in the terminology explorer, on its way into the patient form. */
+export interface CodingInsertion {
+  field: CodedPatientField;
+  coding: Coding;
+}
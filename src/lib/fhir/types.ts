@@ -0,0 +1,210 @@
+// Minimal FHIR R4 datatypes used across the app. Only the elements we read or
+// write are modelled; everything else passes through untouched.
+
+export interface Coding {
+  system?: string;
+  version?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Period {
+  start?: string;
+  end?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  type?: string;
+  display?: string;
+}
+
+export interface Identifier {
+  use?: string;
+  type?: CodeableConcept;
+  system?: string;
+  value?: string;
+  period?: Period;
+  assigner?: Reference;
+}
+
+export interface Meta {
+  versionId?: string;
+  lastUpdated?: string;
+  source?: string;
+  profile?: string[];
+  security?: Coding[];
+  tag?: Coding[];
+}
+
+export interface FHIRResource {
+  resourceType: string;
+  id?: string;
+  meta?: Meta;
+  [key: string]: unknown;
+}
+
+export interface HumanName {
+  use?: string;
+  text?: string;
+  family?: string;
+  given?: string[];
+  prefix?: string[];
+  suffix?: string[];
+  period?: Period;
+}
+
+export interface ContactPoint {
+  system?: string;
+  value?: string;
+  use?: string;
+  rank?: number;
+  period?: Period;
+}
+
+export interface Address {
+  use?: string;
+  type?: string;
+  text?: string;
+  line?: string[];
+  city?: string;
+  district?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  period?: Period;
+}
+
+export interface Extension {
+  url: string;
+  extension?: Extension[];
+  [valueKey: `value${string}`]: unknown;
+}
+
+export interface PatientContact {
+  relationship?: CodeableConcept[];
+  name?: HumanName;
+  telecom?: ContactPoint[];
+  address?: Address;
+  gender?: string;
+  organization?: Reference;
+  period?: Period;
+}
+
+export interface Patient extends FHIRResource {
+  resourceType: 'Patient';
+  extension?: Extension[];
+  identifier?: Identifier[];
+  name?: HumanName[];
+  telecom?: ContactPoint[];
+  gender?: string;
+  birthDate?: string;
+  deceasedBoolean?: boolean;
+  deceasedDateTime?: string;
+  address?: Address[];
+  maritalStatus?: CodeableConcept;
+  multipleBirthBoolean?: boolean;
+  multipleBirthInteger?: number;
+  contact?: PatientContact[];
+  communication?: Array<{ language: CodeableConcept; preferred?: boolean }>;
+}
+
+export interface OperationOutcomeIssue {
+  severity: 'fatal' | 'error' | 'warning' | 'information';
+  code: string;
+  details?: CodeableConcept;
+  diagnostics?: string;
+  location?: string[];
+  expression?: string[];
+}
+
+export interface OperationOutcome extends FHIRResource {
+  resourceType: 'OperationOutcome';
+  issue: OperationOutcomeIssue[];
+}
+
+export interface ParametersParameter {
+  name: string;
+  part?: ParametersParameter[];
+  resource?: FHIRResource;
+  [valueKey: `value${string}`]: unknown;
+}
+
+export interface Parameters extends FHIRResource {
+  resourceType: 'Parameters';
+  parameter?: ParametersParameter[];
+}
+
+export interface BundleLink {
+  relation: string;
+  url: string;
+}
+
+export interface BundleEntry<T extends FHIRResource = FHIRResource> {
+  fullUrl?: string;
+  resource?: T;
+  search?: { mode?: 'match' | 'include' | 'outcome'; score?: number };
+  request?: { method: string; url: string; ifMatch?: string; ifNoneExist?: string };
+  response?: { status: string; location?: string; etag?: string; lastModified?: string };
+}
+
+export interface Bundle<T extends FHIRResource = FHIRResource> extends FHIRResource {
+  resourceType: 'Bundle';
+  type: string;
+  total?: number;
+  link?: BundleLink[];
+  entry?: BundleEntry<T>[];
+}
+
+export interface ElementDefinitionType {
+  code: string;
+  profile?: string[];
+  targetProfile?: string[];
+}
+
+export interface ElementDefinition {
+  id?: string;
+  path: string;
+  sliceName?: string;
+  short?: string;
+  definition?: string;
+  min?: number;
+  max?: string;
+  type?: ElementDefinitionType[];
+  mustSupport?: boolean;
+  binding?: { strength: 'required' | 'extensible' | 'preferred' | 'example'; valueSet?: string };
+}
+
+export interface StructureDefinition extends FHIRResource {
+  resourceType: 'StructureDefinition';
+  url: string;
+  name?: string;
+  title?: string;
+  type: string;
+  baseDefinition?: string;
+  snapshot?: { element: ElementDefinition[] };
+}
+
+export interface ValueSetExpansionContains {
+  system?: string;
+  code?: string;
+  display?: string;
+  abstract?: boolean;
+  contains?: ValueSetExpansionContains[];
+}
+
+export interface ValueSet extends FHIRResource {
+  resourceType: 'ValueSet';
+  url?: string;
+  name?: string;
+  title?: string;
+  expansion?: {
+    total?: number;
+    contains?: ValueSetExpansionContains[];
+  };
+}
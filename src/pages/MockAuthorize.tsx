@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck } from 'lucide-react';
+import { issueMockAuthorizationCode } from '@/lib/fhir/mock-auth-server';
+
+// Consent screen for the mock SMART authorization server. Approving issues a
+// code and redirects back to the app exactly as a real server would.
+const MockAuthorize = () => {
+  const [searchParams] = useSearchParams();
+  const [patient, setPatient] = useState('');
+
+  const clientId = searchParams.get('client_id') || '';
+  const redirectUri = searchParams.get('redirect_uri') || '';
+  const scope = searchParams.get('scope') || '';
+  const state = searchParams.get('state') || '';
+  const codeChallenge = searchParams.get('code_challenge') || undefined;
+  const scopes = scope.split(' ').filter(Boolean);
+  const wantsPatient = scopes.includes('launch/patient');
+
+  const redirect = (params: Record<string, string>) => {
+    const target = new URL(redirectUri);
+    Object.entries({ ...params, state }).forEach(([key, value]) => target.searchParams.set(key, value));
+    window.location.assign(target.toString());
+  };
+
+  const handleApprove = () => {
+    const code = issueMockAuthorizationCode({
+      clientId,
+      redirectUri,
+      scope,
+      patient: wantsPatient && patient.trim() ? patient.trim() : undefined,
+      codeChallenge,
+    });
+    redirect({ code });
+  };
+
+  const handleDeny = () => {
+    redirect({ error: 'access_denied', error_description: 'The user denied the authorization request' });
+  };
+
+  if (!clientId || !redirectUri || searchParams.get('response_type') !== 'code') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-hero">
+        <p className="text-lg text-muted-foreground">Invalid authorization request.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-hero px-6">
+      <div className="w-full max-w-lg bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/20 overflow-hidden">
+        <div className="bg-gradient-card p-8 border-b border-white/20">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-gradient-primary shadow-glow">
+              <ShieldCheck className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">Mock Authorization Server</h2>
+              <p className="text-muted-foreground">
+                <span className="font-mono">{clientId}</span> is requesting access
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="p-8 space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {scopes.map(s => (
+              <Badge key={s} variant="secondary" className="font-mono bg-medical-light/50 text-medical-blue border-medical-blue/20">
+                {s}
+              </Badge>
+            ))}
+          </div>
+          {!codeChallenge && (
+            <p className="text-sm text-warning">This request did not include a PKCE code_challenge.</p>
+          )}
+          {wantsPatient && (
+            <div>
+              <Label htmlFor="mock-patient">Patient context (optional)</Label>
+              <Input
+                id="mock-patient"
+                value={patient}
+                onChange={(e) => setPatient(e.target.value)}
+                placeholder="Patient ID to return in the token response"
+                className="mt-2 rounded-xl border-muted bg-white/50 backdrop-blur-sm focus:border-primary focus:ring-1 focus:ring-primary/20"
+              />
+            </div>
+          )}
+          <div className="flex gap-3">
+            <Button variant="outline" className="flex-1 rounded-xl" onClick={handleDeny}>
+              Deny
+            </Button>
+            <Button className="flex-1 rounded-xl bg-gradient-primary text-white" onClick={handleApprove}>
+              Approve
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MockAuthorize;